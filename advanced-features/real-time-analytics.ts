@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
 import WebSocket, { WebSocketServer } from 'ws';
+import { valueAtRisk } from '../shared/utils/risk-math';
 
 export class RealTimeAnalyticsEngine extends EventEmitter {
   private wsConnections: Map<string, WebSocket> = new Map();
@@ -54,12 +55,10 @@ export class RealTimeAnalyticsEngine extends EventEmitter {
       ).filter(r => r !== 0);
       
       // Calculate VaR
-      const sortedReturns = [...returns].sort((a, b) => a - b);
-      const var95Index = Math.floor(sortedReturns.length * 0.05);
-      const var95 = sortedReturns[var95Index] * values[values.length - 1];
+      const var95 = valueAtRisk(returns, { confidence: 0.95 }) * values[values.length - 1];
       
       return {
-        var_95: Math.abs(var95),
+        var_95: var95,
         current_exposure: data[data.length - 1].total_exposure,
         leverage: data[data.length - 1].leverage,
         largest_position: data[data.length - 1].largest_position,
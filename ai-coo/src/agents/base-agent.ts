@@ -3,6 +3,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { MemoryManager } from '../core/memory-manager';
 import { ReasoningEngine } from '../core/reasoning-engine';
 import { GPTClient } from '../llm/gpt-client';
+import { tracer } from '../core/tracer';
+import { Span } from '../../../shared/utils/tracing';
 import { logger } from '../../mcp-hub/src/utils/logger';
 
 export interface AgentConfig {
@@ -97,27 +99,38 @@ export abstract class BaseAgent extends EventEmitter {
     logger.info(`Agent ${this.config.name} initialized`);
   }
 
+  // One span per task, with a child span for each step, so the app calls an
+  // action makes show up under the step that made them
   async processTask(task: Task): Promise<Action> {
+    return await tracer.withSpan(`${this.config.id} task`, {
+      attributes: { 'agent.id': this.config.id, 'task.id': task.id, 'task.type': task.type }
+    }, () => this.runTask(task));
+  }
+
+  private async runTask(task: Task): Promise<Action> {
     this.state.currentTask = task;
     this.state.status = 'thinking';
     this.emit('task_started', task);
 
     try {
       // Load relevant memories
-      const relevantMemories = await this.memory.retrieveRelevant(task.description, 10);
+      const relevantMemories = await this.step('recall', () => this.memory.retrieveRelevant(task.description, 10));
       this.state.workingMemory = relevantMemories;
 
       // Think about the task
-      const thought = await this.think(task, relevantMemories);
+      const thought = await this.step('think', () => this.think(task, relevantMemories));
       this.emit('thought', thought);
 
       // Decide on action
-      const action = await this.decide(thought, task);
+      const action = await this.step('decide', () => this.decide(thought, task));
       this.emit('action_planned', action);
 
       // Execute action
       this.state.status = 'acting';
-      const result = await this.act(action);
+      const result = await this.step('act', span => {
+        span.setAttributes({ 'action.id': action.id, 'action.type': action.type });
+        return this.act(action);
+      });
       
       // Update action with outcome
       action.actualOutcome = result.outcome;
@@ -125,7 +138,7 @@ export abstract class BaseAgent extends EventEmitter {
       this.state.lastAction = action;
 
       // Learn from result
-      await this.learn(action, result);
+      await this.step('learn', () => this.learn(action, result));
 
       // Update task status
       task.status = result.success ? 'completed' : 'failed';
@@ -142,6 +155,10 @@ export abstract class BaseAgent extends EventEmitter {
     }
   }
 
+  private async step<T>(name: string, fn: (span: Span) => Promise<T>): Promise<T> {
+    return await tracer.withSpan(`${this.config.id} ${name}`, { attributes: { 'agent.id': this.config.id } }, fn);
+  }
+
   protected async think(task: Task, memories: any[]): Promise<Thought> {
     const context = this.buildContext(task, memories);
     
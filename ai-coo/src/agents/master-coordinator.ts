@@ -7,16 +7,44 @@ import { MarketAnalystAgent } from './market-analyst';
 import { PerformanceAnalystAgent } from './performance-analyst';
 import { ComplianceAgent } from './compliance-agent';
 import { ReportingAgent } from './reporting-agent';
+import { WorkflowRegistry } from '../workflows/workflow-registry';
+import { WorkflowRunner } from '../workflows/workflow-runner';
+import { RedisWorkflowStore, WorkflowStore } from '../workflows/workflow-store';
+import { StepContext, StepRun, StepTarget, TaskHandler, WorkflowDefinition, WorkflowRun } from '../workflows/types';
+
+// Finished runs kept in memory for incident analysis
+const MAX_WORKFLOW_HISTORY = 100;
 
 export class MasterCoordinator extends EventEmitter {
   private agents: Map<string, BaseAgent> = new Map();
-  private activeWorkflows: Map<string, any> = new Map();
+  private activeWorkflows: Map<string, WorkflowRun> = new Map();
+  private workflowHistory: WorkflowRun[] = [];
+  private runner: WorkflowRunner;
   private mcpClient: any;
   
-  constructor(mcpClient: any) {
+  constructor(
+    mcpClient: any,
+    workflows: WorkflowRegistry = new WorkflowRegistry(),
+    workflowStore: WorkflowStore = new RedisWorkflowStore()
+  ) {
     super();
     this.mcpClient = mcpClient;
     this.initializeAgents();
+    
+    this.runner = new WorkflowRunner(
+      workflows,
+      (target, inputs, workflow, context) => this.executeWorkflowStep(target, inputs, workflow, context),
+      (type) => this.mcpClient.getContext(type),
+      workflowStore,
+      (target, inputs, workflow, context) => this.simulateWorkflowStep(target, inputs, workflow, context)
+    );
+    this.initializeWorkflowTasks();
+  }
+  
+  // Connects the checkpoint store and picks up workflows interrupted by the last shutdown
+  async initialize(): Promise<WorkflowRun[]> {
+    await this.runner.store.connect();
+    return await this.recoverWorkflows();
   }
   
   private initializeAgents() {
@@ -37,318 +65,178 @@ export class MasterCoordinator extends EventEmitter {
     });
   }
   
-  async executeWorkflow(workflowType: string, params: any): Promise<any> {
-    const workflowId = `workflow_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  // Coordinator operations that workflow definitions can use as `task` steps
+  private initializeWorkflowTasks() {
+    const tasks: Record<string, TaskHandler> = {
+      synthesize_evaluations: ({ evaluations }) => this.synthesizeEvaluations(evaluations),
+      adjust_allocations_for_risk: ({ allocations, constraints }) => this.adjustAllocationsForRisk(allocations, constraints),
+      handle_critical_risks: ({ risks }, _, { idempotencyKey }) => this.handleCriticalRisks(risks, idempotencyKey),
+      execute_immediate_actions: ({ trigger, severity }, _, { idempotencyKey }) =>
+        this.executeImmediateActions(trigger, severity, idempotencyKey),
+      get_system_state: () => this.getCurrentSystemState(),
+      capture_decision_context: ({ types }) => this.captureDecisionContext(types),
+      determine_response_strategy: ({ trigger, risk_assessment }) => this.determineResponseStrategy(trigger, risk_assessment),
+      execute_response_strategy: ({ strategy }, _, { idempotencyKey }) => this.executeResponseStrategy(strategy, idempotencyKey),
+      post_incident_recommendations: () => this.generatePostIncidentRecommendations(),
+      collect_agent_reports: ({ timeframe }) => this.collectAgentReports(timeframe),
+      generate_report_visualizations: ({ report }) => this.generateReportVisualizations(report),
+      distribute_report: ({ report, visualizations, recipients }, _, { idempotencyKey }) =>
+        this.distributeReport(report, visualizations, recipients, idempotencyKey),
+      request_approval: async ({ action, summary, details }, _, { idempotencyKey }) => {
+        const approval = await this.requireApproval(action, details, idempotencyKey, summary);
+        return {
+          approved: approval.status === 'approved' || approval.status === 'modified',
+          approval_id: approval.id,
+          decided_by: approval.decided_by,
+          reason: approval.reason,
+          details: approval.approved_details
+        };
+      }
+    };
     
-    const workflow = {
-      id: workflowId,
-      type: workflowType,
-      params,
-      status: 'running',
-      started_at: new Date(),
-      steps: [] as any[],
-      results: {}
+    Object.entries(tasks).forEach(([name, handler]) => this.runner.registerTask(name, handler));
+    
+    const forward = (event: string) => (workflow: WorkflowRun, step: StepRun) => {
+      this.emit('workflow_step', {
+        workflow_id: workflow.id,
+        workflow_type: workflow.type,
+        step: step.name,
+        event,
+        status: step.status,
+        error: step.error,
+        timestamp: new Date()
+      });
     };
     
-    this.activeWorkflows.set(workflowId, workflow);
+    ['step_completed', 'step_failed', 'step_skipped', 'step_compensated'].forEach(event => {
+      this.runner.on(event, forward(event));
+    });
+  }
+  
+  // New workflows are data; see workflows/definitions.ts
+  registerWorkflow(definition: WorkflowDefinition) {
+    this.runner.registry.register(definition);
+  }
+  
+  registerWorkflowTask(name: string, handler: TaskHandler) {
+    this.runner.registerTask(name, handler);
+  }
+  
+  // With `simulation`, trades fill against market data history and results land in shadow contexts
+  async executeWorkflow(workflowType: string, params: any = {}, options: { simulation?: boolean } = {}): Promise<any> {
+    const workflow = this.runner.createRun(workflowType, params, options);
+    return await this.trackWorkflow(workflow, () => this.runner.execute(workflow));
+  }
+  
+  // Interrupted runs continue in the background; their outcome is reported like any other run
+  async recoverWorkflows(): Promise<WorkflowRun[]> {
+    const interrupted = await this.runner.interrupted();
     
-    try {
-      let result;
-      
-      switch (workflowType) {
-        case 'daily_operations':
-          result = await this.executeDailyOperations(workflow);
-          break;
-          
-        case 'strategy_evaluation':
-          result = await this.executeStrategyEvaluation(workflow);
-          break;
-          
-        case 'risk_assessment':
-          result = await this.executeRiskAssessment(workflow);
-          break;
-          
-        case 'portfolio_rebalance':
-          result = await this.executePortfolioRebalance(workflow);
-          break;
-          
-        case 'emergency_response':
-          result = await this.executeEmergencyResponse(workflow);
-          break;
-          
-        case 'report_generation':
-          result = await this.executeReportGeneration(workflow);
-          break;
-          
-        default:
-          throw new Error(`Unknown workflow type: ${workflowType}`);
-      }
+    for (const workflow of interrupted) {
+      console.log(`Recovering workflow ${workflow.id} (${workflow.type}) from ${workflow.status}`);
       
-      workflow.status = 'completed';
-      workflow.completed_at = new Date();
-      workflow.results = result;
+      this.trackWorkflow(workflow, () => this.runner.resume(workflow)).catch((error) => {
+        console.error(`Recovered workflow ${workflow.id} failed:`, error);
+      });
+    }
+    
+    return interrupted;
+  }
+  
+  private async trackWorkflow(workflow: WorkflowRun, run: () => Promise<any>): Promise<any> {
+    this.activeWorkflows.set(workflow.id, workflow);
+    
+    try {
+      const result = await run();
       
       // Store workflow results
       await this.storeWorkflowResults(workflow);
+      await this.recordWorkflowState(workflow);
       
       return result;
       
     } catch (error) {
-      workflow.status = 'failed';
-      workflow.error = (error as Error).message;
-      workflow.failed_at = new Date();
-      
       // Handle workflow failure
       await this.handleWorkflowFailure(workflow, error as Error);
+      await this.recordWorkflowState(workflow);
       
       throw error;
       
     } finally {
-      this.activeWorkflows.delete(workflowId);
-    }
-  }
-  
-  private async executeDailyOperations(workflow: any): Promise<any> {
-    const steps = [
-      { name: 'market_analysis', agent: 'market_analyst' },
-      { name: 'portfolio_review', agent: 'performance_analyst' },
-      { name: 'risk_check', agent: 'risk_monitor' },
-      { name: 'strategy_ranking', agent: 'strategy_ranker' },
-      { name: 'compliance_check', agent: 'compliance' },
-      { name: 'execution_planning', agent: 'execution' },
-      { name: 'report_generation', agent: 'reporting' }
-    ];
-    
-    const results: any = {};
-    
-    for (const step of steps) {
-      workflow.steps.push({
-        name: step.name,
-        status: 'running',
-        started_at: new Date()
-      });
+      this.activeWorkflows.delete(workflow.id);
       
-      try {
-        // Execute step
-        const agent = this.agents.get(step.agent);
-        const stepResult = await agent!.execute({
-          action: step.name,
-          context: {
-            workflow_id: workflow.id,
-            previous_results: results,
-            params: workflow.params
-          }
-        });
-        
-        results[step.name] = stepResult;
-        
-        // Update step status
-        const currentStep = workflow.steps[workflow.steps.length - 1];
-        currentStep.status = 'completed';
-        currentStep.completed_at = new Date();
-        currentStep.result = stepResult;
-        
-        // Check if we should continue
-        if (stepResult.halt_workflow) {
-          break;
-        }
-        
-      } catch (error) {
-        const currentStep = workflow.steps[workflow.steps.length - 1];
-        currentStep.status = 'failed';
-        currentStep.error = (error as Error).message;
-        currentStep.failed_at = new Date();
-        
-        // Determine if we should continue or fail the workflow
-        if (this.isCriticalStep(step.name)) {
-          throw error;
-        }
+      this.workflowHistory.push(workflow);
+      if (this.workflowHistory.length > MAX_WORKFLOW_HISTORY) {
+        this.workflowHistory.shift();
       }
     }
-    
-    return results;
-  }
-  
-  private async executeStrategyEvaluation(workflow: any): Promise<any> {
-    // Get current strategies
-    const strategies = await this.mcpClient.callApp('signal-forge', 'get_strategies', {
-      active_only: true
-    });
-    
-    // Parallel evaluation by multiple agents
-    const evaluations = await Promise.all([
-      this.agents.get('strategy_ranker')!.evaluate({ strategies }),
-      this.agents.get('risk_monitor')!.evaluateStrategies({ strategies }),
-      this.agents.get('market_analyst')!.evaluateMarketFit({ strategies })
-    ]);
-    
-    // Synthesize results
-    const synthesis = await this.synthesizeEvaluations(evaluations);
-    
-    // Generate recommendations
-    const recommendations = await this.agents.get('strategy_ranker')!.generateRecommendations({
-      evaluations: synthesis,
-      current_portfolio: await this.mcpClient.getContext('portfolio')
-    });
-    
-    return {
-      evaluations: synthesis,
-      recommendations,
-      top_strategies: recommendations.top_5,
-      suggested_changes: recommendations.changes
-    };
   }
   
-  private async executeRiskAssessment(workflow: any): Promise<any> {
-    const riskAgent = this.agents.get('risk_monitor')!;
-    
-    // Comprehensive risk analysis
-    const analyses = await Promise.all([
-      riskAgent.analyzePortfolioRisk(),
-      riskAgent.analyzeMarketRisk(),
-      riskAgent.analyzeOperationalRisk(),
-      riskAgent.analyzeLiquidityRisk()
-    ]);
-    
-    // Stress testing
-    const stressTests = await riskAgent.runStressTests({
-      scenarios: workflow.params.scenarios || [
-        'market_crash',
-        'flash_crash',
-        'liquidity_crisis',
-        'correlation_breakdown'
-      ]
-    });
-    
-    // Generate risk report
-    const riskReport = await riskAgent.generateRiskReport({
-      analyses,
-      stress_tests: stressTests,
-      recommendations: true
-    });
-    
-    // Alert if critical risks found
-    if (riskReport.critical_risks.length > 0) {
-      await this.handleCriticalRisks(riskReport.critical_risks);
+  private async executeWorkflowStep(
+    target: StepTarget,
+    inputs: any,
+    workflow: WorkflowRun,
+    { idempotencyKey, simulation }: StepContext
+  ): Promise<any> {
+    if (target.app) {
+      return await this.mcpClient.callApp(target.app, target.method, inputs, { idempotencyKey, simulation });
     }
     
-    return riskReport;
-  }
-  
-  private async executePortfolioRebalance(workflow: any): Promise<any> {
-    // Run strategy tournament
-    const tournament = await this.runStrategyTournament(workflow.params);
-    
-    // Risk check proposed allocations
-    const riskCheck = await this.agents.get('risk_monitor')!.checkProposedAllocations({
-      allocations: tournament.allocations,
-      current_portfolio: await this.mcpClient.getContext('portfolio')
-    });
-    
-    if (!riskCheck.approved) {
-      // Adjust allocations based on risk feedback
-      tournament.allocations = await this.adjustAllocationsForRisk(
-        tournament.allocations,
-        riskCheck.constraints
-      );
+    const agent = this.agents.get(target.agent!);
+    if (!agent) {
+      throw new Error(`Unknown agent: ${target.agent}`);
     }
     
-    // Compliance check
-    const complianceCheck = await this.agents.get('compliance')!.checkAllocations({
-      allocations: tournament.allocations
-    });
-    
-    if (!complianceCheck.approved) {
-      throw new Error(`Compliance check failed: ${complianceCheck.reason}`);
+    // Agents expose specialised methods for some actions; the rest go through execute()
+    const method = (agent as any)[target.action!];
+    if (typeof method === 'function') {
+      return await method.call(agent, idempotencyKey ? { ...inputs, idempotency_key: idempotencyKey } : inputs);
     }
     
-    // Execute rebalance
-    const execution = await this.agents.get('execution')!.executeRebalance({
-      allocations: tournament.allocations,
-      execution_style: workflow.params.execution_style || 'patient',
-      time_limit: workflow.params.time_limit || '4h'
+    return await agent.execute({
+      action: target.action,
+      context: {
+        workflow_id: workflow.id,
+        params: workflow.params,
+        idempotency_key: idempotencyKey,
+        ...inputs
+      }
     });
-    
-    return {
-      tournament_results: tournament,
-      risk_adjustments: riskCheck.adjustments,
-      execution: execution,
-      new_portfolio: await this.mcpClient.getContext('portfolio')
-    };
   }
   
-  private async executeEmergencyResponse(workflow: any): Promise<any> {
-    const { trigger, severity } = workflow.params;
-    
-    // Immediate actions
-    const immediateActions = await this.executeImmediateActions(trigger, severity);
-    
-    // Risk assessment
-    const riskAssessment = await this.agents.get('risk_monitor')!.assessEmergency({
-      trigger,
-      current_state: await this.getCurrentSystemState()
-    });
-    
-    // Determine response strategy
-    const responseStrategy = await this.determineResponseStrategy(
-      trigger,
-      riskAssessment
-    );
-    
-    // Execute response
-    const responseResults = await this.executeResponseStrategy(responseStrategy);
+  // Side-effect steps of simulation runs. Trading goes to the hub, which fills it
+  // against market data history; approvals are granted as requested, and anything
+  // else (alerts, notifications, report distribution) is skipped.
+  private async simulateWorkflowStep(
+    target: StepTarget,
+    inputs: any,
+    workflow: WorkflowRun,
+    { idempotencyKey }: StepContext
+  ): Promise<any> {
+    if (target.app === 'trade-runner' || target.agent === 'execution') {
+      return await this.mcpClient.callApp('trade-runner', target.method || target.action, inputs, {
+        idempotencyKey,
+        simulation: true
+      });
+    }
     
-    // Generate incident report
-    const incidentReport = await this.agents.get('reporting')!.generateIncidentReport({
-      trigger,
-      actions_taken: immediateActions,
-      response_strategy: responseStrategy,
-      results: responseResults,
-      recommendations: await this.generatePostIncidentRecommendations()
-    });
+    if (target.task === 'request_approval') {
+      return { approved: true, simulated: true, decided_by: 'simulation', details: inputs.details };
+    }
     
-    return {
-      immediate_actions: immediateActions,
-      risk_assessment: riskAssessment,
-      response_executed: responseResults,
-      incident_report: incidentReport
-    };
+    console.log(`Simulation ${workflow.id}: skipped ${target.task || target.method || target.action}`);
+    return { simulated: true, skipped: true };
   }
   
-  private async executeReportGeneration(workflow: any): Promise<any> {
-    const { report_type, recipients, include_sections } = workflow.params;
-    
-    // Gather data from all agents
-    const agentReports = await Promise.all(
+  private async collectAgentReports(timeframe: any): Promise<any[]> {
+    return await Promise.all(
       Array.from(this.agents.entries()).map(async ([id, agent]) => {
         return {
           agent_id: id,
-          report: await agent.generateReport({ timeframe: workflow.params.timeframe })
+          report: await agent.generateReport({ timeframe })
         };
       })
     );
-    
-    // Compile master report
-    const masterReport = await this.agents.get('reporting')!.compileMasterReport({
-      report_type,
-      agent_reports: agentReports,
-      include_sections: include_sections || 'all',
-      executive_summary: true
-    });
-    
-    // Generate visualizations
-    const visualizations = await this.generateReportVisualizations(masterReport);
-    
-    // Send to recipients
-    if (recipients && recipients.length > 0) {
-      await this.distributeReport(masterReport, visualizations, recipients);
-    }
-    
-    return {
-      report: masterReport,
-      visualizations,
-      distributed_to: recipients || []
-    };
   }
   
   // Helper methods
@@ -464,11 +352,6 @@ export class MasterCoordinator extends EventEmitter {
     }
   }
   
-  private async runStrategyTournament(params: any): Promise<any> {
-    // Implementation connects to tournament engine
-    return await this.mcpClient.callApp('ai-coo', 'run_tournament', params);
-  }
-  
   private async adjustAllocationsForRisk(allocations: any, constraints: any): Promise<any> {
     // Adjust allocations to meet risk constraints
     const adjusted = { ...allocations };
@@ -506,14 +389,31 @@ export class MasterCoordinator extends EventEmitter {
     };
   }
   
-  private async executeImmediateActions(trigger: string, severity: string): Promise<any> {
+  // Context history keeps every version, so recording versions is enough to
+  // reconstruct later exactly what the coordinator saw
+  private async captureDecisionContext(types: string[]): Promise<any> {
+    const decidedAt = new Date();
+    const versions: Record<string, number | null> = {};
+    
+    for (const type of types) {
+      const context = await this.mcpClient.getContextAt(type, decidedAt);
+      versions[type] = context?.version ?? null;
+    }
+    
+    return {
+      decided_at: decidedAt,
+      context_versions: versions
+    };
+  }
+  
+  private async executeImmediateActions(trigger: string, severity: string, idempotencyKey?: string): Promise<any> {
     const actions: any[] = [];
     
     if (severity === 'critical') {
       // Stop all trading
       const stopResult = await this.mcpClient.callApp('trade-runner', 'emergency_stop', {
         reason: `Emergency response: ${trigger}`
-      });
+      }, { idempotencyKey: this.deriveKey(idempotencyKey, 'stop_trading') });
       actions.push({ action: 'stop_trading', result: stopResult });
       
       // Pause non-critical agents
@@ -527,7 +427,7 @@ export class MasterCoordinator extends EventEmitter {
       actions.push({ action: 'increase_monitoring', result: { frequency: '1m' } });
       
       // Notify key personnel
-      await this.notifyKeyPersonnel(trigger, severity);
+      await this.notifyKeyPersonnel(trigger, severity, this.deriveKey(idempotencyKey, 'notify_personnel'));
       actions.push({ action: 'notify_personnel', result: { notified: true } });
     }
     
@@ -545,16 +445,16 @@ export class MasterCoordinator extends EventEmitter {
     return strategy;
   }
   
-  private async executeResponseStrategy(strategy: any): Promise<any> {
+  private async executeResponseStrategy(strategy: any, idempotencyKey?: string): Promise<any> {
     const results = {
       actions_executed: [] as any[],
       success: true,
       errors: [] as any[]
     };
     
-    for (const action of strategy.actions) {
+    for (const [index, action] of strategy.actions.entries()) {
       try {
-        const result = await this.executeStrategicAction(action);
+        const result = await this.executeStrategicAction(action, this.deriveKey(idempotencyKey, index));
         results.actions_executed.push({
           action: action.type,
           result,
@@ -601,11 +501,6 @@ export class MasterCoordinator extends EventEmitter {
     return recommendations;
   }
   
-  private isCriticalStep(stepName: string): boolean {
-    const criticalSteps = ['risk_check', 'compliance_check', 'execution_planning'];
-    return criticalSteps.includes(stepName);
-  }
-  
   private async synthesizeEvaluations(evaluations: any[]): Promise<any> {
     // Combine and weight different evaluation perspectives
     const synthesis: any = {};
@@ -632,8 +527,10 @@ export class MasterCoordinator extends EventEmitter {
     return synthesis;
   }
   
-  private async handleCriticalRisks(risks: any[]) {
-    for (const risk of risks) {
+  private async handleCriticalRisks(risks: any[], idempotencyKey?: string) {
+    for (const [index, risk] of risks.entries()) {
+      const actionKey = this.deriveKey(idempotencyKey, index);
+      
       // Create alert
       await this.mcpClient.streamData('risk:critical', {
         risk,
@@ -645,36 +542,66 @@ export class MasterCoordinator extends EventEmitter {
         case 'position_concentration':
           await this.agents.get('execution')!.reducePosition({
             position: risk.position,
-            target_reduction: risk.recommended_reduction
+            target_reduction: risk.recommended_reduction,
+            idempotency_key: actionKey
           });
           break;
           
         case 'correlation_spike':
           await this.agents.get('risk_monitor')!.hedgeCorrelationRisk({
-            assets: risk.correlated_assets
+            assets: risk.correlated_assets,
+            idempotency_key: actionKey
           });
           break;
           
         case 'liquidity_shortage':
           await this.agents.get('execution')!.improveLiquidity({
-            required_liquidity: risk.required_amount
+            required_liquidity: risk.required_amount,
+            idempotency_key: actionKey
           });
           break;
       }
     }
   }
   
-  private async storeWorkflowResults(workflow: any) {
+  private async storeWorkflowResults(workflow: WorkflowRun) {
     await this.mcpClient.callApp('data-hub', 'store_workflow', {
       workflow_id: workflow.id,
       type: workflow.type,
       status: workflow.status,
+      simulation: workflow.simulation === true,
       results: workflow.results,
       duration: (workflow.completed_at as Date).getTime() - (workflow.started_at as Date).getTime()
     });
   }
   
+  // Workflows run in parallel, so each merges only its own entry into the shared
+  // system context instead of rewriting the whole layer
+  private async recordWorkflowState(workflow: any) {
+    try {
+      await this.mcpClient.updateContext(workflow.simulation ? 'shadow:system' : 'system', {
+        workflows: {
+          [workflow.type]: {
+            workflow_id: workflow.id,
+            status: workflow.status,
+            started_at: workflow.started_at,
+            finished_at: workflow.completed_at || workflow.failed_at,
+            error: workflow.error || null
+          }
+        }
+      }, { mode: 'merge' });
+    } catch (error) {
+      console.error(`Failed to record state of workflow ${workflow.id}:`, error);
+    }
+  }
+  
   private async handleWorkflowFailure(workflow: any, error: any) {
+    // A failed dry run is a finding, not an incident
+    if (workflow.simulation) {
+      console.log(`Simulated workflow ${workflow.id} failed: ${(error as Error).message}`);
+      return;
+    }
+    
     // Log failure
     await this.mcpClient.streamData('workflow:failed', {
       workflow_id: workflow.id,
@@ -719,13 +646,13 @@ export class MasterCoordinator extends EventEmitter {
     return visualizations;
   }
   
-  private async distributeReport(report: any, visualizations: any[], recipients: string[]) {
+  private async distributeReport(report: any, visualizations: any[], recipients: string[], idempotencyKey?: string) {
     await this.mcpClient.callApp('investor-portal', 'send_report', {
       report,
       visualizations,
       recipients,
       delivery_method: 'email'
-    });
+    }, { idempotencyKey });
   }
   
   private async pauseNonCriticalAgents(): Promise<string[]> {
@@ -750,14 +677,14 @@ export class MasterCoordinator extends EventEmitter {
     });
   }
   
-  private async notifyKeyPersonnel(trigger: string, severity: string) {
+  private async notifyKeyPersonnel(trigger: string, severity: string, idempotencyKey?: string) {
     await this.mcpClient.callApp('ops-console', 'send_alert', {
       type: 'emergency',
       trigger,
       severity,
       recipients: ['cto@fieldelevate.com', 'risk@fieldelevate.com'],
       require_acknowledgment: true
-    });
+    }, { idempotencyKey });
   }
   
   private async notifyOperationsTeam(alert: any) {
@@ -775,21 +702,35 @@ export class MasterCoordinator extends EventEmitter {
     ];
   }
   
-  private async executeStrategicAction(action: any): Promise<any> {
+  private async executeStrategicAction(action: any, idempotencyKey?: string): Promise<any> {
+    const approval = await this.requireApproval(action.type, action.params, this.deriveKey(idempotencyKey, 'approval'));
+    if (approval.status === 'rejected') {
+      throw new Error(`${action.type} was rejected by ${approval.decided_by}: ${approval.reason || 'no reason given'}`);
+    }
+    if (approval.status !== 'approved' && approval.status !== 'modified') {
+      throw new Error(`${action.type} is not approved (approval ${approval.id} is ${approval.status})`);
+    }
+    
+    // Approvers may have changed the parameters
+    const params = approval.approved_details;
+    
     switch (action.type) {
       case 'reduce_positions':
         return await this.agents.get('execution')!.reduceAllPositions({
-          target_reduction: action.params.percentage
+          target_reduction: params.percentage,
+          idempotency_key: idempotencyKey
         });
         
       case 'hedge_portfolio':
         return await this.agents.get('execution')!.hedgePortfolio({
-          hedge_type: action.params.hedge_type
+          hedge_type: params.hedge_type,
+          idempotency_key: idempotencyKey
         });
         
       case 'increase_cash':
         return await this.agents.get('execution')!.increaseCashPosition({
-          target_cash_percentage: action.params.target
+          target_cash_percentage: params.target,
+          idempotency_key: idempotencyKey
         });
         
       default:
@@ -797,9 +738,32 @@ export class MasterCoordinator extends EventEmitter {
     }
   }
   
-  private getWorkflowHistory(): any[] {
-    // Return recent workflow history for analysis
-    return Array.from(this.activeWorkflows.values());
+  // Asks the hub for sign-off and waits for the decision. Actions no approval
+  // policy covers come back approved straight away.
+  private async requireApproval(action: string, details: any, idempotencyKey?: string, summary?: string): Promise<any> {
+    const approval = await this.mcpClient.requestApproval(action, details, { idempotencyKey, summary });
+    
+    if (approval.status !== 'pending') {
+      return approval;
+    }
+    
+    console.log(`Waiting for approval ${approval.id}: ${approval.summary}`);
+    const decided = await this.mcpClient.awaitApproval(approval.id);
+    if (!decided) {
+      throw new Error(`Approval ${approval.id} no longer exists`);
+    }
+    
+    return decided;
+  }
+  
+  // One key per action inside a side-effect step, stable across retries and resumes
+  private deriveKey(idempotencyKey: string | undefined, part: string | number): string | undefined {
+    return idempotencyKey ? `${idempotencyKey}:${part}` : undefined;
+  }
+  
+  // Recent finished runs, oldest first, followed by the ones still running
+  getWorkflowHistory(): WorkflowRun[] {
+    return [...this.workflowHistory, ...this.activeWorkflows.values()];
   }
   
   private async completeCriticalStepsManually(workflow: any) {
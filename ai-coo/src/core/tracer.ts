@@ -0,0 +1,4 @@
+import { Tracer } from '../../../shared/utils/tracing';
+
+// Agent and workflow spans, exported according to TRACE_EXPORTER
+export const tracer = new Tracer('ai-coo');
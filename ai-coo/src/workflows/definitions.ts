@@ -0,0 +1,475 @@
+import { WorkflowDefinition } from './types';
+
+// Agent steps call the agent method named by `action` when it has one, and
+// otherwise hand the action to agent.execute() with the inputs as context.
+// Tasks are coordinator operations registered with the runner.
+
+const DAILY_OPERATIONS: WorkflowDefinition = {
+  type: 'daily_operations',
+  description: 'Daily market, portfolio, risk and compliance cycle with execution planning',
+  steps: [
+    { name: 'market_analysis', agent: 'market_analyst', action: 'market_analysis', retries: 1 },
+    { name: 'portfolio_review', agent: 'performance_analyst', action: 'portfolio_review', retries: 1 },
+    {
+      name: 'risk_check',
+      agent: 'risk_monitor',
+      action: 'risk_check',
+      critical: true,
+      inputs: {
+        previous_results: {
+          market_analysis: '$steps.market_analysis',
+          portfolio_review: '$steps.portfolio_review'
+        }
+      }
+    },
+    {
+      name: 'strategy_ranking',
+      agent: 'strategy_ranker',
+      action: 'strategy_ranking',
+      inputs: {
+        previous_results: {
+          market_analysis: '$steps.market_analysis',
+          portfolio_review: '$steps.portfolio_review',
+          risk_check: '$steps.risk_check'
+        }
+      }
+    },
+    {
+      name: 'compliance_check',
+      agent: 'compliance',
+      action: 'compliance_check',
+      critical: true,
+      inputs: {
+        previous_results: {
+          risk_check: '$steps.risk_check',
+          strategy_ranking: '$steps.strategy_ranking'
+        }
+      }
+    },
+    {
+      name: 'execution_planning',
+      agent: 'execution',
+      action: 'execution_planning',
+      critical: true,
+      inputs: {
+        previous_results: {
+          strategy_ranking: '$steps.strategy_ranking',
+          compliance_check: '$steps.compliance_check'
+        }
+      }
+    },
+    {
+      name: 'report_generation',
+      agent: 'reporting',
+      action: 'report_generation',
+      inputs: {
+        previous_results: {
+          market_analysis: '$steps.market_analysis',
+          portfolio_review: '$steps.portfolio_review',
+          risk_check: '$steps.risk_check',
+          strategy_ranking: '$steps.strategy_ranking',
+          compliance_check: '$steps.compliance_check',
+          execution_planning: '$steps.execution_planning'
+        }
+      }
+    }
+  ]
+};
+
+const STRATEGY_EVALUATION: WorkflowDefinition = {
+  type: 'strategy_evaluation',
+  description: 'Evaluates active strategies from ranking, risk and market-fit perspectives',
+  steps: [
+    {
+      name: 'strategies',
+      app: 'signal-forge',
+      method: 'get_strategies',
+      inputs: { active_only: true },
+      retries: 2,
+      critical: true
+    },
+    {
+      name: 'ranking_evaluation',
+      agent: 'strategy_ranker',
+      action: 'evaluate',
+      inputs: { strategies: '$steps.strategies' },
+      critical: true
+    },
+    {
+      name: 'risk_evaluation',
+      agent: 'risk_monitor',
+      action: 'evaluateStrategies',
+      inputs: { strategies: '$steps.strategies' },
+      critical: true
+    },
+    {
+      name: 'market_fit',
+      agent: 'market_analyst',
+      action: 'evaluateMarketFit',
+      inputs: { strategies: '$steps.strategies' },
+      critical: true
+    },
+    {
+      name: 'synthesis',
+      task: 'synthesize_evaluations',
+      inputs: {
+        evaluations: ['$steps.ranking_evaluation', '$steps.risk_evaluation', '$steps.market_fit']
+      },
+      critical: true
+    },
+    {
+      name: 'recommendations',
+      agent: 'strategy_ranker',
+      action: 'generateRecommendations',
+      inputs: {
+        evaluations: '$steps.synthesis',
+        current_portfolio: '$context.portfolio'
+      },
+      critical: true
+    }
+  ],
+  output: {
+    evaluations: '$steps.synthesis',
+    recommendations: '$steps.recommendations',
+    top_strategies: '$steps.recommendations.top_5',
+    suggested_changes: '$steps.recommendations.changes'
+  }
+};
+
+const RISK_ASSESSMENT: WorkflowDefinition = {
+  type: 'risk_assessment',
+  description: 'Portfolio, market, operational and liquidity risk with stress tests',
+  steps: [
+    { name: 'portfolio_risk', agent: 'risk_monitor', action: 'analyzePortfolioRisk', critical: true },
+    { name: 'market_risk', agent: 'risk_monitor', action: 'analyzeMarketRisk', critical: true },
+    { name: 'operational_risk', agent: 'risk_monitor', action: 'analyzeOperationalRisk', critical: true },
+    { name: 'liquidity_risk', agent: 'risk_monitor', action: 'analyzeLiquidityRisk', critical: true },
+    {
+      name: 'stress_tests',
+      agent: 'risk_monitor',
+      action: 'runStressTests',
+      inputs: {
+        scenarios: {
+          ref: '$params.scenarios',
+          default: ['market_crash', 'flash_crash', 'liquidity_crisis', 'correlation_breakdown']
+        }
+      },
+      critical: true
+    },
+    {
+      name: 'risk_report',
+      agent: 'risk_monitor',
+      action: 'generateRiskReport',
+      inputs: {
+        analyses: ['$steps.portfolio_risk', '$steps.market_risk', '$steps.operational_risk', '$steps.liquidity_risk'],
+        stress_tests: '$steps.stress_tests',
+        recommendations: true
+      },
+      critical: true
+    },
+    {
+      name: 'critical_risk_response',
+      task: 'handle_critical_risks',
+      inputs: { risks: '$steps.risk_report.critical_risks' },
+      when: { ref: '$steps.risk_report.critical_risks.length' },
+      critical: true,
+      sideEffects: true
+    }
+  ],
+  output: '$steps.risk_report'
+};
+
+const PORTFOLIO_REBALANCE: WorkflowDefinition = {
+  type: 'portfolio_rebalance',
+  description: 'Strategy tournament, risk and compliance checks and human approval, then rebalance execution',
+  steps: [
+    {
+      name: 'tournament',
+      app: 'ai-coo',
+      method: 'run_tournament',
+      inputs: '$params',
+      critical: true
+    },
+    {
+      name: 'risk_check',
+      agent: 'risk_monitor',
+      action: 'checkProposedAllocations',
+      inputs: {
+        allocations: '$steps.tournament.allocations',
+        current_portfolio: '$context.portfolio'
+      },
+      critical: true
+    },
+    {
+      name: 'risk_adjustment',
+      task: 'adjust_allocations_for_risk',
+      inputs: {
+        allocations: '$steps.tournament.allocations',
+        constraints: '$steps.risk_check.constraints'
+      },
+      when: { ref: '$steps.risk_check.approved', equals: false },
+      critical: true
+    },
+    {
+      name: 'compliance_check',
+      agent: 'compliance',
+      action: 'checkAllocations',
+      inputs: {
+        allocations: { ref: ['$steps.risk_adjustment', '$steps.tournament.allocations'] }
+      },
+      expect: { path: 'approved', equals: true, message: 'Compliance check failed' },
+      critical: true
+    },
+    {
+      // Waits for a person to approve, modify or reject the rebalance on the hub
+      name: 'approval',
+      task: 'request_approval',
+      inputs: {
+        action: 'portfolio_rebalance',
+        summary: 'Rebalance portfolio to tournament allocations',
+        details: {
+          allocations: { ref: ['$steps.risk_adjustment', '$steps.tournament.allocations'] },
+          execution_style: { ref: '$params.execution_style', default: 'patient' },
+          time_limit: { ref: '$params.time_limit', default: '4h' }
+        }
+      },
+      dependsOn: ['compliance_check'],
+      expect: { path: 'approved', equals: true, message: 'Rebalance was not approved' },
+      critical: true,
+      // Keyed so a resumed run waits on the same approval instead of asking again
+      sideEffects: true
+    },
+    {
+      name: 'execute_rebalance',
+      agent: 'execution',
+      action: 'executeRebalance',
+      inputs: {
+        allocations: '$steps.approval.details.allocations',
+        execution_style: '$steps.approval.details.execution_style',
+        time_limit: '$steps.approval.details.time_limit'
+      },
+      critical: true,
+      sideEffects: true,
+      // Cancels whatever orders a failed or interrupted rebalance left working
+      compensate: {
+        agent: 'execution',
+        action: 'cancelRebalance',
+        inputs: { workflow_id: '$workflow.id', execution: '$steps.execute_rebalance' }
+      }
+    }
+  ],
+  output: {
+    tournament_results: '$steps.tournament',
+    risk_adjustments: '$steps.risk_check.adjustments',
+    approval: '$steps.approval',
+    execution: '$steps.execute_rebalance',
+    new_portfolio: '$context.portfolio'
+  }
+};
+
+const EMERGENCY_RESPONSE: WorkflowDefinition = {
+  type: 'emergency_response',
+  description: 'Immediate protective actions, emergency assessment, response and incident report',
+  steps: [
+    {
+      name: 'immediate_actions',
+      task: 'execute_immediate_actions',
+      inputs: { trigger: '$params.trigger', severity: '$params.severity' },
+      critical: true,
+      sideEffects: true
+    },
+    {
+      name: 'system_state',
+      task: 'get_system_state',
+      dependsOn: ['immediate_actions'],
+      critical: true
+    },
+    {
+      name: 'risk_assessment',
+      agent: 'risk_monitor',
+      action: 'assessEmergency',
+      inputs: { trigger: '$params.trigger', current_state: '$steps.system_state' },
+      critical: true
+    },
+    {
+      // Pins the context versions the decision is based on for post-incident review
+      name: 'decision_context',
+      task: 'capture_decision_context',
+      inputs: { types: ['portfolio', 'risk'] },
+      dependsOn: ['risk_assessment'],
+      critical: true
+    },
+    {
+      name: 'response_strategy',
+      task: 'determine_response_strategy',
+      inputs: { trigger: '$params.trigger', risk_assessment: '$steps.risk_assessment' },
+      dependsOn: ['decision_context'],
+      critical: true
+    },
+    {
+      name: 'response',
+      task: 'execute_response_strategy',
+      inputs: { strategy: '$steps.response_strategy' },
+      critical: true,
+      sideEffects: true
+    },
+    {
+      name: 'recommendations',
+      task: 'post_incident_recommendations',
+      dependsOn: ['response'],
+      critical: true
+    },
+    {
+      name: 'incident_report',
+      agent: 'reporting',
+      action: 'generateIncidentReport',
+      inputs: {
+        trigger: '$params.trigger',
+        actions_taken: '$steps.immediate_actions',
+        response_strategy: '$steps.response_strategy',
+        decision_context: '$steps.decision_context',
+        results: '$steps.response',
+        recommendations: '$steps.recommendations'
+      },
+      critical: true
+    }
+  ],
+  output: {
+    immediate_actions: '$steps.immediate_actions',
+    risk_assessment: '$steps.risk_assessment',
+    decision_context: '$steps.decision_context',
+    response_executed: '$steps.response',
+    incident_report: '$steps.incident_report'
+  }
+};
+
+const REPORT_GENERATION: WorkflowDefinition = {
+  type: 'report_generation',
+  description: 'Master report compiled from every agent, with visualizations and distribution',
+  steps: [
+    {
+      name: 'agent_reports',
+      task: 'collect_agent_reports',
+      inputs: { timeframe: '$params.timeframe' },
+      critical: true
+    },
+    {
+      name: 'master_report',
+      agent: 'reporting',
+      action: 'compileMasterReport',
+      inputs: {
+        report_type: '$params.report_type',
+        agent_reports: '$steps.agent_reports',
+        include_sections: { ref: '$params.include_sections', default: 'all' },
+        executive_summary: true
+      },
+      critical: true
+    },
+    {
+      name: 'visualizations',
+      task: 'generate_report_visualizations',
+      inputs: { report: '$steps.master_report' },
+      critical: true
+    },
+    {
+      name: 'distribution',
+      task: 'distribute_report',
+      inputs: {
+        report: '$steps.master_report',
+        visualizations: '$steps.visualizations',
+        recipients: '$params.recipients'
+      },
+      when: { ref: '$params.recipients.length' },
+      critical: true,
+      sideEffects: true
+    }
+  ],
+  output: {
+    report: '$steps.master_report',
+    visualizations: '$steps.visualizations',
+    distributed_to: { ref: '$params.recipients', default: [] }
+  }
+};
+
+const MONTH_END_CLOSE: WorkflowDefinition = {
+  type: 'month_end_close',
+  description: 'Reconciles positions, closes monthly performance and risk, and reports the close',
+  steps: [
+    { name: 'positions', app: 'trade-runner', method: 'get_positions', retries: 2 },
+    {
+      name: 'reconciliation',
+      agent: 'execution',
+      action: 'reconcile_positions',
+      inputs: { positions: '$steps.positions', portfolio: '$context.portfolio' },
+      critical: true,
+      sideEffects: true
+    },
+    {
+      name: 'monthly_performance',
+      agent: 'performance_analyst',
+      action: 'monthly_performance',
+      inputs: { month: '$params.month' },
+      retries: 1
+    },
+    {
+      name: 'risk_summary',
+      agent: 'risk_monitor',
+      action: 'month_end_risk_summary',
+      inputs: { month: '$params.month' },
+      retries: 1
+    },
+    {
+      name: 'compliance_review',
+      agent: 'compliance',
+      action: 'month_end_review',
+      inputs: {
+        reconciliation: '$steps.reconciliation',
+        performance: '$steps.monthly_performance',
+        risk: '$steps.risk_summary'
+      },
+      expect: { path: 'approved', equals: true, message: 'Month-end compliance review failed' },
+      critical: true
+    },
+    {
+      name: 'close_report',
+      agent: 'reporting',
+      action: 'compileMasterReport',
+      inputs: {
+        report_type: 'month_end_close',
+        agent_reports: [
+          { agent_id: 'execution', report: '$steps.reconciliation' },
+          { agent_id: 'performance_analyst', report: '$steps.monthly_performance' },
+          { agent_id: 'risk_monitor', report: '$steps.risk_summary' },
+          { agent_id: 'compliance', report: '$steps.compliance_review' }
+        ],
+        include_sections: 'all',
+        executive_summary: true
+      },
+      critical: true
+    },
+    {
+      name: 'distribution',
+      task: 'distribute_report',
+      inputs: { report: '$steps.close_report', visualizations: [], recipients: '$params.recipients' },
+      when: { ref: '$params.recipients.length' },
+      sideEffects: true
+    }
+  ],
+  output: {
+    month: '$params.month',
+    reconciliation: '$steps.reconciliation',
+    performance: '$steps.monthly_performance',
+    risk: '$steps.risk_summary',
+    report: '$steps.close_report'
+  }
+};
+
+export const DEFAULT_WORKFLOWS: WorkflowDefinition[] = [
+  DAILY_OPERATIONS,
+  STRATEGY_EVALUATION,
+  RISK_ASSESSMENT,
+  PORTFOLIO_REBALANCE,
+  EMERGENCY_RESPONSE,
+  REPORT_GENERATION,
+  MONTH_END_CLOSE
+];
@@ -0,0 +1,111 @@
+// Workflows are plain data: a DAG of steps run by WorkflowRunner.
+//
+// Step inputs, conditions and workflow outputs are templates. Any string that
+// starts with `$` is a reference, resolved when the step starts:
+//   $params, $params.execution_style      workflow parameters
+//   $steps.risk_check.approved            output of an earlier step
+//   $context.portfolio                    current shared context layer
+//   $workflow.id                          the run itself
+// `{ ref: [...], default }` takes the first reference that resolves. Everything
+// else is copied as a literal. Referencing `$steps.<name>` makes the step
+// depend on <name>; `dependsOn` adds ordering without a data dependency.
+//
+// In a simulation run `$context.<type>` reads `shadow:<type>` first, where
+// simulated results are kept.
+
+export type InputTemplate = any;
+
+// Exactly one target: an agent method (or agent.execute action), a hub app method,
+// or a task registered with the runner
+export interface StepTarget {
+  agent?: string;
+  action?: string;
+  app?: string;
+  method?: string;
+  task?: string;
+  inputs?: InputTemplate;
+}
+
+export interface StepCondition {
+  ref: string;
+  // Without `equals` the reference only has to be truthy
+  equals?: any;
+}
+
+export interface WorkflowStep extends StepTarget {
+  name: string;
+  description?: string;
+  dependsOn?: string[];
+  // Skipped (without failing) unless the condition holds
+  when?: StepCondition;
+  // Fails the step unless its output matches, e.g. { path: 'approved', equals: true }
+  expect?: { path: string; equals: any; message?: string };
+  retries?: number;
+  retryDelayMs?: number;
+  timeoutMs?: number;
+  // A failed critical step fails the workflow and compensates what already ran
+  critical?: boolean;
+  // Gets an idempotency key that stays the same across retries and resumes,
+  // so the target can recognise a repeated call. Simulation runs hand the step
+  // and its compensation to the runner's simulator instead.
+  sideEffects?: boolean;
+  // Undoes the step's side effects; can reference its own output as $steps.<name>
+  compensate?: StepTarget;
+}
+
+export interface WorkflowDefinition {
+  type: string;
+  description: string;
+  steps: WorkflowStep[];
+  // Shape of the workflow result; defaults to every step's output keyed by name
+  output?: InputTemplate;
+  // What to do with a run interrupted by a restart; defaults to resuming it
+  recovery?: 'resume' | 'compensate';
+}
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'compensated';
+
+export interface StepRun {
+  name: string;
+  status: StepStatus;
+  attempts: number;
+  started_at?: Date;
+  completed_at?: Date;
+  failed_at?: Date;
+  result?: any;
+  error?: string;
+  skip_reason?: 'condition' | 'halted' | 'workflow_failed';
+  idempotency_key?: string;
+  compensation_error?: string;
+}
+
+export interface WorkflowRun {
+  id: string;
+  type: string;
+  params: any;
+  status: 'running' | 'compensating' | 'completed' | 'failed';
+  started_at: Date;
+  resumed_at?: Date;
+  // Times the run was picked up again after a restart
+  recoveries: number;
+  // Dry run: nothing with side effects reaches a real venue
+  simulation?: boolean;
+  // W3C traceparent of the run's first span, continued after a resume
+  traceparent?: string;
+  completed_at?: Date;
+  failed_at?: Date;
+  error?: string;
+  steps: StepRun[];
+  results?: any;
+}
+
+export interface StepContext {
+  idempotencyKey?: string;
+  simulation?: boolean;
+}
+
+export type StepExecutor = (target: StepTarget, inputs: any, run: WorkflowRun, context: StepContext) => Promise<any>;
+
+export type TaskHandler = (inputs: any, run: WorkflowRun, context: StepContext) => Promise<any>;
+
+export type ContextReader = (type: string) => Promise<any>;
@@ -0,0 +1,123 @@
+import { ValidationError } from '../../../shared/utils/error-handling';
+import { DEFAULT_WORKFLOWS } from './definitions';
+import { WorkflowDefinition, WorkflowStep } from './types';
+
+const STEP_REF = /^\$steps\.([A-Za-z0-9_-]+)/;
+
+export class WorkflowRegistry {
+  private definitions: Map<string, WorkflowDefinition> = new Map();
+
+  constructor(definitions: WorkflowDefinition[] = DEFAULT_WORKFLOWS) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  // Validates the graph up front so a bad definition fails at startup, not mid-run
+  register(definition: WorkflowDefinition) {
+    const issues: any[] = [];
+    const names = new Set<string>();
+
+    for (const step of definition.steps) {
+      if (names.has(step.name)) {
+        issues.push({ path: [step.name], message: 'Duplicate step name' });
+      }
+      names.add(step.name);
+
+      if (!hasSingleTarget(step) || (step.compensate && !hasSingleTarget(step.compensate))) {
+        issues.push({ path: [step.name], message: 'Step needs exactly one of agent, app or task' });
+      }
+    }
+
+    for (const step of definition.steps) {
+      for (const dependency of stepDependencies(step)) {
+        if (!names.has(dependency)) {
+          issues.push({ path: [step.name], message: `Unknown dependency: ${dependency}` });
+        }
+      }
+    }
+
+    if (!issues.length) {
+      const cycle = findCycle(definition.steps);
+      if (cycle) {
+        issues.push({ path: cycle, message: `Dependency cycle: ${cycle.join(' -> ')}` });
+      }
+    }
+
+    if (issues.length) {
+      throw new ValidationError(`Invalid workflow definition: ${definition.type}`, issues);
+    }
+
+    this.definitions.set(definition.type, definition);
+  }
+
+  get(type: string): WorkflowDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  list(): WorkflowDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+}
+
+// Explicit dependencies plus every step referenced from inputs or the condition
+export function stepDependencies(step: WorkflowStep): string[] {
+  const dependencies = new Set(step.dependsOn || []);
+
+  collectStepRefs(step.inputs, dependencies);
+  collectStepRefs(step.when?.ref, dependencies);
+  dependencies.delete(step.name);
+
+  return Array.from(dependencies);
+}
+
+function collectStepRefs(template: any, into: Set<string>) {
+  if (typeof template === 'string') {
+    const match = template.match(STEP_REF);
+    if (match) into.add(match[1]);
+  } else if (Array.isArray(template)) {
+    template.forEach(item => collectStepRefs(item, into));
+  } else if (template && typeof template === 'object') {
+    Object.values(template).forEach(value => collectStepRefs(value, into));
+  }
+}
+
+function hasSingleTarget(target: { agent?: string; app?: string; task?: string; action?: string; method?: string }) {
+  const targets = [target.agent, target.app, target.task].filter(Boolean);
+
+  if (targets.length !== 1) return false;
+  if (target.agent && !target.action) return false;
+  if (target.app && !target.method) return false;
+
+  return true;
+}
+
+function findCycle(steps: WorkflowStep[]): string[] | null {
+  const byName = new Map(steps.map(step => [step.name, step]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    if (state.get(name) === 'done') return null;
+    if (state.get(name) === 'visiting') {
+      return [...path.slice(path.indexOf(name)), name];
+    }
+
+    state.set(name, 'visiting');
+    path.push(name);
+
+    for (const dependency of stepDependencies(byName.get(name)!)) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    state.set(name, 'done');
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.name);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
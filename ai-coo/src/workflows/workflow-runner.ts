@@ -0,0 +1,460 @@
+import { EventEmitter } from 'events';
+import { ExecutionError, withRetry } from '../../../shared/utils/error-handling';
+import { Span, parseTraceparent } from '../../../shared/utils/tracing';
+import { tracer } from '../core/tracer';
+import { WorkflowRegistry, stepDependencies } from './workflow-registry';
+import { MemoryWorkflowStore, WorkflowStore } from './workflow-store';
+import {
+  ContextReader,
+  StepContext,
+  StepExecutor,
+  StepRun,
+  StepStatus,
+  StepTarget,
+  TaskHandler,
+  WorkflowRun,
+  WorkflowStep
+} from './types';
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+// A run that keeps taking the process down is compensated instead of resumed again
+const MAX_RECOVERIES = 3;
+
+// Dependents may start once these are reached; a failed non-critical step
+// doesn't block them, its references just resolve to undefined
+const SETTLED: StepStatus[] = ['completed', 'failed', 'skipped'];
+// 'running' only survives in a checkpoint if the process died mid-step
+const COMPENSABLE: StepStatus[] = ['completed', 'failed', 'running'];
+
+/**
+ * Runs workflow definitions from a WorkflowRegistry. Every step whose
+ * dependencies have settled starts immediately, so independent steps run in
+ * parallel. A failed critical step stops scheduling, lets running steps
+ * finish and then compensates completed steps in reverse completion order.
+ *
+ * Each step transition is checkpointed to the WorkflowStore before the run
+ * moves on, so after a restart resume() can pick up interrupted runs from
+ * their last completed steps.
+ *
+ * In simulation runs, side-effect steps and their compensations go to the
+ * simulator rather than the executor or task.
+ *
+ * A run is traced as one span with a child per step and compensation, so the
+ * app calls steps make land in the same trace, also after a resume.
+ *
+ * Emits `step_started`, `step_completed`, `step_failed`, `step_skipped` and
+ * `step_compensated` with (run, step).
+ */
+export class WorkflowRunner extends EventEmitter {
+  private tasks: Map<string, TaskHandler> = new Map();
+  private checkpoints: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    readonly registry: WorkflowRegistry,
+    private executor: StepExecutor,
+    private readContext: ContextReader,
+    readonly store: WorkflowStore = new MemoryWorkflowStore(),
+    private simulator: StepExecutor = async () => ({ simulated: true, skipped: true })
+  ) {
+    super();
+  }
+
+  registerTask(name: string, handler: TaskHandler) {
+    this.tasks.set(name, handler);
+  }
+
+  createRun(type: string, params: any = {}, options: { simulation?: boolean } = {}): WorkflowRun {
+    const definition = this.registry.get(type);
+    if (!definition) {
+      throw new Error(`Unknown workflow type: ${type}`);
+    }
+
+    return {
+      id: `workflow_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+      type,
+      params,
+      status: 'running',
+      started_at: new Date(),
+      recoveries: 0,
+      simulation: options.simulation === true,
+      steps: definition.steps.map(step => ({ name: step.name, status: 'pending', attempts: 0 }))
+    };
+  }
+
+  // Resolves with the workflow output; rejects with the critical step's error
+  async execute(run: WorkflowRun): Promise<any> {
+    return await this.traced(run, `workflow ${run.type}`, () => this.executeRun(run));
+  }
+
+  private async executeRun(run: WorkflowRun): Promise<any> {
+    await this.checkpoint(run);
+
+    const definition = this.registry.get(run.type)!;
+    const states = new Map(run.steps.map(state => [state.name, state]));
+    const outputs = completedOutputs(run);
+    const running = new Map<string, Promise<void>>();
+    let failure: Error | null = null;
+    let halted = run.steps.some(state => state.status === 'completed' && state.result?.halt_workflow);
+
+    while (true) {
+      if (!failure && !halted) {
+        for (const step of definition.steps) {
+          const state = states.get(step.name)!;
+          if (state.status !== 'pending') continue;
+
+          const ready = stepDependencies(step).every(name => SETTLED.includes(states.get(name)!.status));
+          if (!ready) continue;
+
+          state.status = 'running';
+          running.set(step.name, this.runStep(step, state, run, outputs).then(outcome => {
+            running.delete(step.name);
+
+            if (outcome.halt) {
+              halted = true;
+            }
+            if (outcome.error && step.critical && !failure) {
+              failure = outcome.error;
+            }
+          }));
+        }
+      }
+
+      if (!running.size) break;
+      await Promise.race(running.values());
+    }
+
+    for (const state of run.steps) {
+      if (state.status === 'pending') {
+        this.skip(run, state, failure ? 'workflow_failed' : 'halted');
+      }
+    }
+
+    if (failure) {
+      return await this.fail(run, failure);
+    }
+
+    run.results = definition.output === undefined
+      ? outputs
+      : await this.resolve(definition.output, run, outputs);
+    run.status = 'completed';
+    run.completed_at = new Date();
+    await this.checkpoint(run);
+
+    return run.results;
+  }
+
+  // Runs that were running or compensating when the process last stopped
+  async interrupted(): Promise<WorkflowRun[]> {
+    return await this.store.listUnfinished();
+  }
+
+  // Continues an interrupted run from its checkpoint, or compensates it when
+  // it was already unwinding or its definition asks for that
+  async resume(run: WorkflowRun): Promise<any> {
+    return await this.traced(run, `resume workflow ${run.type}`, () => this.resumeRun(run));
+  }
+
+  private async resumeRun(run: WorkflowRun): Promise<any> {
+    const definition = this.registry.get(run.type);
+
+    run.recoveries = (run.recoveries ?? 0) + 1;
+    run.resumed_at = new Date();
+
+    if (!definition) {
+      run.status = 'failed';
+      run.error = `Unknown workflow type: ${run.type}`;
+      run.failed_at = new Date();
+      await this.checkpoint(run);
+      throw new Error(run.error);
+    }
+
+    if (run.status === 'compensating' || definition.recovery === 'compensate' || run.recoveries > MAX_RECOVERIES) {
+      return await this.fail(run, new ExecutionError(`Workflow ${run.id} was interrupted`, run.type));
+    }
+
+    // Steps cut off mid-call run again under the idempotency key they were started with:
+    // the hub replays a call it already answered, and apps refuse to act twice on a key
+    for (const state of run.steps) {
+      if (state.status === 'running') {
+        state.status = 'pending';
+      }
+    }
+
+    return await this.executeRun(run);
+  }
+
+  // The first span of a run is recorded on it; spans after a restart become its children
+  private async traced<T>(run: WorkflowRun, name: string, fn: () => Promise<T>): Promise<T> {
+    return await tracer.withSpan(name, {
+      parent: run.traceparent ? parseTraceparent(run.traceparent) : undefined,
+      attributes: { 'workflow.id': run.id, 'workflow.type': run.type, simulation: run.simulation }
+    }, async span => {
+      run.traceparent ??= span.traceparent;
+      return await fn();
+    });
+  }
+
+  private async fail(run: WorkflowRun, error: Error): Promise<never> {
+    run.status = 'compensating';
+    await this.checkpoint(run);
+
+    await this.compensate(run);
+
+    run.status = 'failed';
+    run.error = error.message;
+    run.failed_at = new Date();
+    await this.checkpoint(run);
+
+    throw error;
+  }
+
+  private async runStep(
+    step: WorkflowStep,
+    state: StepRun,
+    run: WorkflowRun,
+    outputs: Record<string, any>
+  ): Promise<{ halt?: boolean; error?: Error }> {
+    const attributes = { 'workflow.id': run.id, 'step.name': step.name };
+
+    return await tracer.withSpan(`step ${step.name}`, { attributes }, async span => {
+      const outcome = await this.executeStep(step, state, run, outputs, span);
+      span.setAttributes({ 'step.status': state.status, attempts: state.attempts });
+      return outcome;
+    });
+  }
+
+  private async executeStep(
+    step: WorkflowStep,
+    state: StepRun,
+    run: WorkflowRun,
+    outputs: Record<string, any>,
+    span: Span
+  ): Promise<{ halt?: boolean; error?: Error }> {
+    state.started_at = new Date();
+
+    try {
+      if (step.when && !(await this.conditionHolds(step, run, outputs))) {
+        this.skip(run, state, 'condition');
+        await this.checkpoint(run);
+        return {};
+      }
+
+      if (step.sideEffects && !state.idempotency_key) {
+        state.idempotency_key = `${run.id}:${step.name}`;
+      }
+
+      // Recorded before the call, so a restart knows the step may have run
+      await this.checkpoint(run);
+      this.emit('step_started', run, state);
+
+      const inputs = await this.resolve(step.inputs, run, outputs);
+      const context: StepContext = { idempotencyKey: state.idempotency_key, simulation: run.simulation };
+      const result = await withRetry(
+        () => {
+          state.attempts++;
+          return withTimeout(this.invoke(step, inputs, run, context, step.sideEffects), step.timeoutMs, step.name);
+        },
+        { maxRetries: (step.retries ?? 0) + 1, delay: step.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS }
+      );
+
+      // Checked outside the retry: an unexpected answer isn't transient
+      if (step.expect && getPath(result, step.expect.path) !== step.expect.equals) {
+        const reason = result?.reason ? `: ${result.reason}` : '';
+        throw new ExecutionError(
+          `${step.expect.message || `Step ${step.name} expected ${step.expect.path} to be ${step.expect.equals}`}${reason}`,
+          step.name
+        );
+      }
+
+      outputs[step.name] = result;
+      state.status = 'completed';
+      state.completed_at = new Date();
+      state.result = result;
+      await this.checkpoint(run);
+      this.emit('step_completed', run, state);
+
+      return { halt: Boolean(result?.halt_workflow) };
+
+    } catch (error) {
+      span.recordError(error);
+      state.status = 'failed';
+      state.error = (error as Error).message;
+      state.failed_at = new Date();
+      await this.checkpoint(run).catch(checkpointError => {
+        console.error(`Failed to checkpoint workflow ${run.id}:`, checkpointError);
+      });
+      this.emit('step_failed', run, state);
+
+      return { error: error as Error };
+    }
+  }
+
+  // Failed and interrupted steps are compensated too, they may have partially run
+  private async compensate(run: WorkflowRun) {
+    const definition = this.registry.get(run.type)!;
+    const outputs = completedOutputs(run);
+    const steps = definition.steps
+      .map(step => ({ step, state: run.steps.find(s => s.name === step.name)! }))
+      .filter(({ step, state }) => step.compensate && COMPENSABLE.includes(state.status))
+      .sort((a, b) => finishedAt(b.state) - finishedAt(a.state));
+
+    for (const { step, state } of steps) {
+      try {
+        const inputs = await this.resolve(step.compensate!.inputs, run, outputs);
+        const attributes = { 'workflow.id': run.id, 'step.name': step.name };
+        await tracer.withSpan(`compensate ${step.name}`, { attributes }, () =>
+          this.invoke(step.compensate!, inputs, run, {
+            idempotencyKey: `${run.id}:${step.name}:compensate`,
+            simulation: run.simulation
+          }, step.sideEffects)
+        );
+
+        state.status = 'compensated';
+        this.emit('step_compensated', run, state);
+      } catch (error) {
+        // Keep unwinding; the remaining steps still need their compensation
+        state.compensation_error = (error as Error).message;
+        console.error(`Failed to compensate step ${step.name} of workflow ${run.id}:`, error);
+      }
+
+      await this.checkpoint(run);
+    }
+  }
+
+  private async invoke(
+    target: StepTarget,
+    inputs: any,
+    run: WorkflowRun,
+    context: StepContext,
+    sideEffects?: boolean
+  ): Promise<any> {
+    if (run.simulation && sideEffects) {
+      return await this.simulator(target, inputs, run, context);
+    }
+
+    if (target.task) {
+      const handler = this.tasks.get(target.task);
+      if (!handler) {
+        throw new Error(`Unknown workflow task: ${target.task}`);
+      }
+      return await handler(inputs, run, context);
+    }
+
+    return await this.executor(target, inputs, run, context);
+  }
+
+  // Writes for one run are chained so a slow save can't overwrite a newer one
+  private async checkpoint(run: WorkflowRun) {
+    const previous = this.checkpoints.get(run.id) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(() => this.store.save(run));
+
+    this.checkpoints.set(run.id, next);
+
+    try {
+      await next;
+    } finally {
+      if (this.checkpoints.get(run.id) === next) {
+        this.checkpoints.delete(run.id);
+      }
+    }
+  }
+
+  private skip(run: WorkflowRun, state: StepRun, reason: StepRun['skip_reason']) {
+    state.status = 'skipped';
+    state.skip_reason = reason;
+    this.emit('step_skipped', run, state);
+  }
+
+  private async conditionHolds(step: WorkflowStep, run: WorkflowRun, outputs: Record<string, any>) {
+    const value = await this.lookup(step.when!.ref, run, outputs);
+    return 'equals' in step.when! ? value === step.when!.equals : Boolean(value);
+  }
+
+  private async resolve(template: any, run: WorkflowRun, outputs: Record<string, any>): Promise<any> {
+    if (typeof template === 'string') {
+      return template.startsWith('$') ? await this.lookup(template, run, outputs) : template;
+    }
+    if (Array.isArray(template)) {
+      return await Promise.all(template.map(item => this.resolve(item, run, outputs)));
+    }
+    if (isRefObject(template)) {
+      for (const ref of ([] as string[]).concat(template.ref)) {
+        const value = await this.lookup(ref, run, outputs);
+        if (value !== undefined) return value;
+      }
+      return template.default;
+    }
+    if (template && typeof template === 'object' && !(template instanceof Date)) {
+      const resolved: Record<string, any> = {};
+      for (const [key, value] of Object.entries(template)) {
+        resolved[key] = await this.resolve(value, run, outputs);
+      }
+      return resolved;
+    }
+
+    return template;
+  }
+
+  private async lookup(ref: string, run: WorkflowRun, outputs: Record<string, any>): Promise<any> {
+    const [root, ...path] = ref.slice(1).split('.');
+
+    switch (root) {
+      case 'params':
+        return getPath(run.params, path);
+      case 'steps':
+        return getPath(outputs, path);
+      case 'context': {
+        const [type, ...rest] = path;
+        const context = (run.simulation && await this.readContext(`shadow:${type}`)) || await this.readContext(type);
+        return getPath(context, rest);
+      }
+      case 'workflow':
+        return getPath({ id: run.id, type: run.type, started_at: run.started_at }, path);
+      default:
+        throw new Error(`Unknown workflow reference: ${ref}`);
+    }
+  }
+}
+
+// Outputs of steps that finished before a restart are restored from their checkpoints
+function completedOutputs(run: WorkflowRun): Record<string, any> {
+  const outputs: Record<string, any> = {};
+
+  for (const state of run.steps) {
+    if (state.status === 'completed' || (state.status === 'compensated' && state.result !== undefined)) {
+      outputs[state.name] = state.result;
+    }
+  }
+
+  return outputs;
+}
+
+function finishedAt(state: StepRun) {
+  return (state.completed_at ?? state.failed_at ?? state.started_at ?? new Date(0)).getTime();
+}
+
+function isRefObject(template: any): template is { ref: string | string[]; default?: any } {
+  return Boolean(template)
+    && typeof template === 'object'
+    && 'ref' in template
+    && Object.keys(template).every(key => key === 'ref' || key === 'default');
+}
+
+function getPath(value: any, path: string | string[]): any {
+  const segments = typeof path === 'string' ? path.split('.') : path;
+  return segments.reduce((current, segment) => current == null ? undefined : current[segment], value);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, stepName: string): Promise<T> {
+  if (!timeoutMs) return promise;
+
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ExecutionError(`Step ${stepName} timed out after ${timeoutMs}ms`, stepName)),
+      timeoutMs
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,96 @@
+import { createClient } from 'redis';
+import { fromTagged, parseTagged, stringifyTagged, toTagged } from '../../../shared/utils/tagged-json';
+import { WorkflowRun } from './types';
+
+const RUN_PREFIX = 'workflow:run:';
+const UNFINISHED_KEY = 'workflow:unfinished';
+// Finished runs stay readable for a week
+const FINISHED_RUN_TTL = 7 * 24 * 3600;
+
+// Checkpoints of workflow runs, written by WorkflowRunner after every step transition
+export interface WorkflowStore {
+  connect(): Promise<void>;
+  save(run: WorkflowRun): Promise<void>;
+  load(id: string): Promise<WorkflowRun | null>;
+  // Runs that were still running or compensating when last saved
+  listUnfinished(): Promise<WorkflowRun[]>;
+}
+
+// Keeps nothing across restarts; for tests and tools that don't need recovery
+export class MemoryWorkflowStore implements WorkflowStore {
+  private runs: Map<string, any> = new Map();
+
+  async connect() {}
+
+  async save(run: WorkflowRun) {
+    this.runs.set(run.id, toTagged(run));
+  }
+
+  async load(id: string) {
+    const run = this.runs.get(id);
+    return run ? fromTagged(run) : null;
+  }
+
+  async listUnfinished() {
+    return Array.from(this.runs.values())
+      .map(run => fromTagged(run) as WorkflowRun)
+      .filter(run => !isFinished(run));
+  }
+}
+
+// Talks to Redis directly rather than through the hub's storage, which is the hub's own
+export class RedisWorkflowStore implements WorkflowStore {
+  constructor(
+    private client: ReturnType<typeof createClient> = createClient({
+      url: process.env.REDIS_URL || 'redis://localhost:6379'
+    })
+  ) {}
+
+  async connect() {
+    if (!this.client.isOpen) {
+      await this.client.connect();
+    }
+  }
+
+  // Tagged so dates and other non-JSON values in step results survive the round trip
+  async save(run: WorkflowRun) {
+    const finished = isFinished(run);
+
+    await this.client.set(
+      `${RUN_PREFIX}${run.id}`,
+      stringifyTagged(run),
+      finished ? { EX: FINISHED_RUN_TTL } : undefined
+    );
+
+    if (finished) {
+      await this.client.hDel(UNFINISHED_KEY, run.id);
+    } else {
+      await this.client.hSet(UNFINISHED_KEY, run.id, run.type);
+    }
+  }
+
+  async load(id: string) {
+    const run = await this.client.get(`${RUN_PREFIX}${id}`);
+    return run ? parseTagged(run) as WorkflowRun : null;
+  }
+
+  async listUnfinished() {
+    const ids = Object.keys(await this.client.hGetAll(UNFINISHED_KEY));
+    const runs: WorkflowRun[] = [];
+
+    for (const id of ids) {
+      const run = await this.load(id);
+      if (run) {
+        runs.push(run);
+      } else {
+        await this.client.hDel(UNFINISHED_KEY, id);
+      }
+    }
+
+    return runs;
+  }
+}
+
+function isFinished(run: WorkflowRun) {
+  return run.status === 'completed' || run.status === 'failed';
+}
@@ -262,11 +262,11 @@ async function handlePortfolioQuery(intent: any, context: any) {
 }
 
 async function handleStrategyQuery(intent: any, context: any) {
-  const strategies = await mcpClient.callApp('signal-forge', 'get_strategies', {
+  const strategies = await mcpClient.callCapability('strategy_creation', 'get_strategies', {
     active_only: true
   });
   
-  const rankings = await mcpClient.callApp('signal-forge', 'rank_strategies', {
+  const rankings = await mcpClient.callCapability('ranking', 'rank_strategies', {
     strategies,
     timeframe: intent.timeframe || '7d'
   });
@@ -375,12 +375,12 @@ async function handleRiskQuery(intent: any, context: any) {
   const portfolio = await mcpClient.getContext('portfolio');
   
   const [riskAnalysis, var95, stressTests] = await Promise.all([
-    mcpClient.callApp('risk-analyzer', 'analyze_portfolio', { portfolio }),
-    mcpClient.callApp('risk-analyzer', 'calculate_var', { 
+    mcpClient.callCapability('portfolio_analysis', 'analyze_portfolio', { portfolio }),
+    mcpClient.callCapability('risk_assessment', 'calculate_var', { 
       portfolio, 
       confidence_level: 0.95 
     }),
-    mcpClient.callApp('risk-analyzer', 'stress_test', { portfolio })
+    mcpClient.callCapability('risk_assessment', 'stress_test', { portfolio })
   ]);
   
   const response = responseGenerator.generateRiskResponse({
@@ -1,4 +1,5 @@
 import express from 'express';
+import { z } from 'zod';
 import { setupMCPClient, createMCPHandler } from '../replit-app-template/mcp-client';
 
 const app = express();
@@ -11,19 +12,33 @@ const mcpClient = setupMCPClient({
   capabilities: ['market_data', 'indicators', 'data_ingestion']
 });
 
+// Method schemas
+const GetMarketDataParams = z.object({
+  assets: z.array(z.string()).min(1).default(['BTC', 'ETH', 'SOL']),
+  indicators: z.array(z.string()).default([])
+});
+
+const IngestDataParams = z.object({
+  source: z.string().min(1),
+  data: z.array(z.record(z.any()))
+});
+
 // Connect to hub
 mcpClient.connect().then(() => {
   // Expose methods to hub
-  mcpClient.exposeMethod('get_market_data', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('get_market_data', async (params: z.infer<typeof GetMarketDataParams>, callback: Function) => {
     try {
       const marketData = await fetchMarketData(params.assets, params.indicators);
       callback(null, marketData);
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Get latest market data and indicator values for a set of assets',
+    params: GetMarketDataParams
   });
 
-  mcpClient.exposeMethod('ingest_data', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('ingest_data', async (params: z.infer<typeof IngestDataParams>, callback: Function) => {
     try {
       const result = await ingestData(params.source, params.data);
       
@@ -33,10 +48,19 @@ mcpClient.connect().then(() => {
         assets_updated: params.data.length
       });
       
+      // Every version is kept, so simulations can fill against past prices
+      const prices = latestPrices(params.data);
+      if (Object.keys(prices).length > 0) {
+        await mcpClient.updateContext('market_data', { prices }, { mode: 'merge' });
+      }
+      
       callback(null, result);
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Ingest market data records from an external source',
+    params: IngestDataParams
   });
 
   mcpClient.exposeMethod('health', async (_params: any, callback: Function) => {
@@ -69,6 +93,22 @@ async function ingestData(source: string, data: any[]) {
   };
 }
 
+// Last price per asset in a batch of records shaped like { symbol, price }
+function latestPrices(records: any[]) {
+  const prices: Record<string, number> = {};
+  
+  for (const record of records) {
+    const asset = record.symbol || record.asset;
+    const price = Number(record.price ?? record.close);
+    
+    if (asset && price > 0) {
+      prices[asset] = price;
+    }
+  }
+  
+  return prices;
+}
+
 function getLastUpdateTime() {
   // Implementation
   return new Date();
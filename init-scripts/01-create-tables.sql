@@ -35,6 +35,16 @@ CREATE TABLE IF NOT EXISTS trades (
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Results of trade-runner calls made with an idempotency key
+CREATE TABLE IF NOT EXISTS executions (
+    idempotency_key VARCHAR(255) PRIMARY KEY,
+    method VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'completed')),
+    result JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- Market data table (regular table instead of hypertable)
 CREATE TABLE IF NOT EXISTS market_data (
     time TIMESTAMPTZ NOT NULL,
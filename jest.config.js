@@ -1,6 +1,19 @@
 module.exports = {
   testEnvironment: 'node',
-  testMatch: ['<rootDir>/tests/api/**/*.test.js'],
+  testMatch: [
+    '<rootDir>/tests/api/**/*.test.js',
+    // Unit tests of the shared utilities and service apps, which are TypeScript
+    '<rootDir>/shared/test/**/*.test.ts',
+    '<rootDir>/trade-runner/test/**/*.test.ts'
+  ],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      isolatedModules: true,
+      tsconfig: { target: 'ES2022', module: 'commonjs', esModuleInterop: true }
+    }]
+  },
+  // Shared utilities import each other with the .js suffix ESM needs
+  moduleNameMapper: { '^(\\.{1,2}/.*)\\.js$': '$1' },
   coverageDirectory: 'coverage',
   collectCoverageFrom: ['server.js'],
   reporters: [
@@ -0,0 +1,70 @@
+import { PatternRules, loadJsonEnv } from './pattern-rules.js';
+import { ValidationError } from '../../shared/utils/error-handling.js';
+
+export interface AppGrant {
+  // Capabilities the app may register with
+  capabilities: string[];
+  // Services it may register as an instance of, besides its own id
+  services?: string[];
+}
+
+const grant = (service: string, capabilities: string[]): Array<[string, AppGrant]> => [
+  [service, { capabilities }],
+  // Further instances, e.g. data-hub-2
+  [`${service}-*`, { capabilities, services: [service] }]
+];
+
+const DEFAULT_GRANTS: Array<[string, AppGrant]> = [
+  // Unknown apps may register, but provide nothing that other apps route to
+  ['*', { capabilities: [] }],
+  ...grant('data-hub', ['market_data', 'indicators', 'data_ingestion']),
+  ...grant('signal-forge', ['strategy_creation', 'backtesting', 'ranking']),
+  ...grant('trade-runner', ['execution', 'order_management', 'position_tracking']),
+  ...grant('risk-analyzer', ['risk_assessment', 'portfolio_analysis', 'limits']),
+  ...grant('investor-portal', ['reporting', 'dashboards', 'notifications']),
+  ...grant('ops-console', ['monitoring', 'alerting', 'agent_management', 'system_control']),
+  ...grant('bot-concierge', ['chat', 'query_processing', 'code_interpreter', 'visualization'])
+];
+
+/**
+ * Which capabilities each app may claim and which services it may join,
+ * keyed by app id pattern. Registration is trusted on first use, so an app
+ * must not be able to make itself the `execution` provider or an instance of
+ * trade-runner just by saying so. Extra grants can be supplied as JSON in
+ * MCP_APP_GRANTS, e.g. {"signal-forge-eu": {"capabilities": ["ranking"], "services": ["signal-forge"]}}.
+ */
+export class AppGrants {
+  private rules = new PatternRules<AppGrant>(DEFAULT_GRANTS);
+
+  constructor() {
+    loadJsonEnv('MCP_APP_GRANTS', (pattern, appGrant) => this.set(pattern, appGrant));
+  }
+
+  set(pattern: string, appGrant: AppGrant) {
+    this.rules.set(pattern, appGrant);
+  }
+
+  resolve(appId: string): AppGrant {
+    return this.rules.resolve(appId) ?? { capabilities: [] };
+  }
+
+  check(appId: string, service: string, capabilities: string[]) {
+    const appGrant = this.resolve(appId);
+
+    if (service !== appId && !appGrant.services?.includes(service)) {
+      throw new ValidationError(`${appId} may not register as an instance of ${service}`, [{
+        path: ['service'],
+        message: `Not granted to ${appId}`
+      }]);
+    }
+
+    const denied = capabilities.filter(capability => !appGrant.capabilities.includes(capability));
+
+    if (denied.length > 0) {
+      throw new ValidationError(`${appId} may not provide ${denied.join(', ')}`, denied.map(capability => ({
+        path: ['capabilities'],
+        message: `${capability} is not granted to ${appId}`
+      })));
+    }
+  }
+}
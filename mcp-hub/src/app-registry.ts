@@ -1,8 +1,22 @@
+import { EventEmitter } from 'events';
 import { RedisManager } from './redis-manager.js';
+import { UpdateChannel, HubUpdate } from './update-channel.js';
+import { CallPolicies, CallPolicy } from './call-policy.js';
+import { CredentialStore } from './credential-store.js';
+import { MethodScopes } from './method-scopes.js';
+import { SimulatedExecutor } from './simulated-executor.js';
+import { VersionRequirements } from './version-requirements.js';
+import { RateLimiter } from './rate-limiter.js';
+import { IdempotencyStore } from './idempotency-store.js';
+import { AppGrants } from './app-grants.js';
+import { parseVersion, satisfies } from './semver.js';
 import { logger } from './utils/logger.js';
+import { tracer } from './utils/tracer.js';
+import { Span, TRACEPARENT_HEADER, activeTraceparent } from '../../shared/utils/tracing.js';
+import { CircuitBreaker, CircuitOpenError, RateLimitError, withRetry } from '../../shared/utils/error-handling.js';
 import axios from 'axios';
 
-interface RegisteredApp {
+export interface RegisteredApp {
   id: string;
   name: string;
   url: string;
@@ -11,14 +25,93 @@ interface RegisteredApp {
   status: 'online' | 'offline' | 'degraded';
   lastSeen: Date;
   version: string;
+  // Instances of one service share its policies, scopes and tools; defaults to id
+  service?: string;
 }
 
-export class AppRegistry {
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Renewed by every heartbeat; apps that stop renewing go degraded, then offline
+export interface AppLease {
+  app_id: string;
+  renewed_at: string;
+  expires_at: string;
+}
+
+const LEASES_KEY = 'app:leases';
+// Long enough to ride out one missed heartbeat (sent every 30 seconds)
+const LEASE_TTL_MS = Number(process.env.MCP_LEASE_TTL_MS || 75000);
+// How long a lapsed app stays degraded before it is taken offline
+const LEASE_GRACE_MS = Number(process.env.MCP_LEASE_GRACE_MS || 75000);
+const LEASE_SWEEP_INTERVAL = 10000;
+
+// Travels with a call to the target app, and on to the calls it makes in turn
+export interface CallMetadata {
+  // Dry run: side-effecting methods are simulated instead of called
+  simulation?: boolean;
+  // Repeats of a call with the same key get the first call's response
+  idempotencyKey?: string;
+}
+
+export interface RoutingOptions {
+  // Semver range the chosen instance must satisfy, e.g. ^2.0.0 during a rollout
+  version?: string;
+}
+
+// Emitted as `call` once per callApp, after retries and hedging
+export interface CallEvent {
+  appId: string;
+  method: string;
+  durationMs: number;
+  attempts: number;
+  status: 'success' | 'failed';
+  errorType?: string;
+}
+
+// Emitted as `throttled` when a call is refused by its rate limit or daily quota
+export interface ThrottleEvent {
+  caller: string;
+  appId: string;
+  method: string;
+  limit: 'rate' | 'quota';
+  retryAfterMs: number;
+}
+
+// Emitted as `circuit` whenever a method's breaker changes state
+export interface CircuitEvent {
+  appId: string;
+  method: string;
+  state: CircuitState;
+}
+
+export class AppRegistry extends EventEmitter {
   private apps: Map<string, RegisteredApp> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private circuitStates: Map<string, CircuitState> = new Map();
+  private leaseInterval: NodeJS.Timeout | null = null;
+  private inFlight: Map<string, number> = new Map();
+  // Spreads ties between equally loaded instances
+  private rotation = 0;
   
-  constructor(private redis: RedisManager) {}
+  constructor(
+    private redis: RedisManager,
+    private updates: UpdateChannel = new UpdateChannel(redis),
+    readonly policies: CallPolicies = new CallPolicies(),
+    readonly credentials: CredentialStore = new CredentialStore(redis),
+    readonly scopes: MethodScopes = new MethodScopes(),
+    // Without one, simulated calls to side-effecting methods are refused
+    private simulator: SimulatedExecutor | null = null,
+    readonly versions: VersionRequirements = new VersionRequirements(),
+    readonly limits: RateLimiter = new RateLimiter(redis),
+    readonly idempotency: IdempotencyStore = new IdempotencyStore(redis),
+    readonly grants: AppGrants = new AppGrants()
+  ) {
+    super();
+  }
 
   async loadRegisteredApps() {
+    await this.credentials.load();
+
     // Load from Redis
     const savedApps = await this.redis.get('app:registry');
     
@@ -96,7 +189,21 @@ export class AppRegistry {
   }
 
   async registerApp(app: RegisteredApp) {
+    const service = app.service || app.id;
+    this.grants.check(app.id, service, app.capabilities);
+    this.versions.check(service, app.version);
+
+    // Allowed, so a new major version can be rolled out side by side
+    const majors = new Set(this.getInstances(service)
+      .filter(instance => instance.id !== app.id && instance.status !== 'offline')
+      .map(instance => parseVersion(instance.version)?.major));
+    if (majors.size > 0 && !majors.has(parseVersion(app.version)!.major)) {
+      logger.warn(`${app.id} runs ${service} ${app.version} alongside another major version`);
+    }
+
     this.apps.set(app.id, app);
+    this.resetCircuits(app.id);
+    await this.writeLease(app.id, new Date());
     await this.saveRegistry();
     
     // Notify other systems
@@ -104,46 +211,126 @@ export class AppRegistry {
       appId: app.id,
       timestamp: new Date().toISOString()
     });
+
+    await this.updates.publish({ type: 'app_registered', app_id: app.id });
     
     logger.info(`App registered: ${app.id}`);
   }
 
-  async callApp(appId: string, method: string, params: any) {
+  // `caller` is the authenticated app making the call; the hub itself by default.
+  // Traced as a child of the active span, which the app continues.
+  async callApp(appId: string, method: string, params: any, caller = 'mcp-hub', metadata: CallMetadata = {}) {
+    return await this.deduplicate(appId, method, params, caller, metadata, () =>
+      this.metered(caller, method, charged => this.callInstance(appId, method, params, caller, metadata, charged))
+    );
+  }
+
+  private async callInstance(
+    appId: string,
+    method: string,
+    params: any,
+    caller: string,
+    metadata: CallMetadata,
+    charged: Set<string>
+  ) {
+    return await tracer.withSpan(`${appId}.${method}`, {
+      kind: 'client',
+      attributes: { 'app.id': appId, 'app.method': method, caller, simulation: metadata.simulation }
+    }, span => this.invoke(appId, method, params, caller, metadata, charged, span));
+  }
+
+  private async invoke(
+    appId: string,
+    method: string,
+    params: any,
+    caller: string,
+    metadata: CallMetadata,
+    charged: Set<string>,
+    span: Span
+  ) {
     const app = this.apps.get(appId);
     
     if (!app) {
       throw new Error(`App not found: ${appId}`);
     }
+
+    const service = this.serviceOf(appId);
+    this.scopes.authorize(caller, service, method);
+
+    // Failing over to another instance of the service doesn't cost the caller again
+    if (!charged.has(service)) {
+      await this.throttle(caller, service, method, span);
+      charged.add(service);
+    }
+
+    const policy = this.policies.resolve(service, method);
+
+    // Never reaches the app, so it doesn't need to be online
+    if (metadata.simulation && policy.sideEffects) {
+      if (!this.simulator) {
+        throw new Error(`Simulation is not available for ${service}.${method}`);
+      }
+      return await this.simulator.execute(service, method, params);
+    }
     
     if (app.status === 'offline') {
       throw new Error(`App offline: ${appId}`);
     }
 
+    const breaker = this.getBreaker(appId, method, policy);
+    const requestId = this.generateRequestId();
+    const start = Date.now();
+    let attempts = 0;
+    span.setAttribute('request.id', requestId);
+    this.inFlight.set(appId, (this.inFlight.get(appId) || 0) + 1);
+
     try {
-      const response = await axios.post(
-        `${app.url}/api/${method}`,
-        params,
-        {
-          headers: {
-            'X-MCP-Token': process.env.MCP_AUTH_TOKEN,
-            'X-Request-ID': this.generateRequestId()
-          },
-          timeout: 30000 // 30 second timeout
-        }
-      );
+      const response = await withRetry(async () => {
+        attempts++;
+
+        // A 4xx is the caller's fault and says nothing about the app's health,
+        // so it is passed through the breaker as a result rather than a failure
+        const outcome = await breaker.execute(async () => {
+          try {
+            return { response: await this.send(app, method, params, policy, requestId, caller, metadata) };
+          } catch (error: any) {
+            if (isClientError(error)) return { error };
+            throw error;
+          }
+        });
+
+        if ('error' in outcome) throw outcome.error;
+        return outcome.response;
+      }, {
+        maxRetries: policy.idempotent ? policy.retries + 1 : 1,
+        delay: policy.retryDelayMs,
+        shouldRetry: error => !isClientError(error) && !(error instanceof CircuitOpenError),
+        onRetry: (attempt, error) => logger.warn(`Retrying ${appId}.${method} (attempt ${attempt + 1}): ${error.message}`)
+      });
+
+      const durationMs = Date.now() - start;
+      this.emit('call', { appId, method, durationMs, attempts, status: 'success' } as CallEvent);
 
       // Log successful call
       await this.redis.addToStream('app:calls', {
         appId,
         method,
         status: 'success',
-        duration: response.data.duration || 0,
+        duration: durationMs,
+        attempts,
         timestamp: new Date().toISOString()
       });
 
-      return response.data;
+      await this.trackCircuit(appId, method, breaker);
+
+      // Apps built on createMCPHandler wrap their return value in { result }
+      return response.data && 'result' in response.data ? response.data.result : response.data;
     } catch (error: any) {
+      const durationMs = Date.now() - start;
+      const errorType = classifyError(error);
       logger.error(`Failed to call ${appId}.${method}`, error);
+
+      this.emit('call', { appId, method, durationMs, attempts, status: 'failed', errorType } as CallEvent);
       
       // Log failed call
       await this.redis.addToStream('app:calls', {
@@ -151,37 +338,301 @@ export class AppRegistry {
         method,
         status: 'failed',
         error: error.message,
+        error_type: errorType,
+        duration: durationMs,
+        attempts,
         timestamp: new Date().toISOString()
       });
 
       // Update app status if connection failed
       if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT') {
         await this.updateAppStatus(appId, 'offline');
+      } else {
+        await this.trackCircuit(appId, method, breaker);
       }
 
+      span.setAttribute('error.type', errorType);
       throw error;
+    } finally {
+      span.setAttribute('attempts', attempts);
+      this.inFlight.set(appId, this.inFlight.get(appId)! - 1);
     }
   }
 
-  async broadcastUpdate(update: any) {
-    const promises = [];
-    
-    for (const [appId, app] of this.apps) {
-      if (app.status === 'online') {
-        promises.push(
-          this.callApp(appId, 'receive_update', update)
-            .catch(err => logger.error(`Failed to update ${appId}`, err))
-        );
+  // Counted per service, so a caller can't get around its limit by picking instances
+  private async throttle(caller: string, service: string, method: string, span: Span) {
+    try {
+      await this.limits.acquire(caller, service, method);
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) throw error;
+
+      span.setAttributes({ 'error.type': 'rate_limited', 'rate_limit.retry_after_ms': error.retryAfterMs });
+      this.emit('throttled', {
+        caller,
+        appId: service,
+        method,
+        limit: error.limit,
+        retryAfterMs: error.retryAfterMs
+      } as ThrottleEvent);
+
+      await this.redis.addToStream('app:calls', {
+        appId: service,
+        method,
+        caller,
+        status: 'throttled',
+        duration: 0,
+        attempts: 0,
+        limit: error.limit,
+        retry_after_ms: error.retryAfterMs,
+        timestamp: new Date().toISOString()
+      });
+
+      logger.warn(error.message);
+      throw error;
+    }
+  }
+
+  // A logical call is charged once per service it reaches, and gets the daily
+  // quota back when it fails in the end
+  private async metered<T>(caller: string, method: string, execute: (charged: Set<string>) => Promise<T>): Promise<T> {
+    const charged = new Set<string>();
+
+    try {
+      return await execute(charged);
+    } catch (error) {
+      for (const service of charged) {
+        await this.limits.refund(caller, service, method).catch(refundError => {
+          logger.warn(`Failed to refund ${caller}'s quota for ${service}.${method}`, refundError);
+        });
+      }
+      throw error;
+    }
+  }
+
+  // Calls whichever instance of a service is best placed to answer
+  async callService(service: string, method: string, params: any, caller = 'mcp-hub', metadata: CallMetadata = {}) {
+    const instances = this.getInstances(service);
+
+    if (instances.length === 0) {
+      throw new Error(`App not found: ${service}`);
+    }
+
+    return await this.deduplicate(service, method, params, caller, metadata, () =>
+      this.metered(caller, method, charged => this.route(service, instances, method, params, caller, metadata, charged))
+    );
+  }
+
+  // Calls an instance of any app advertising the capability, e.g. callCapability('ranking', 'rank_strategies', ...)
+  async callCapability(
+    capability: string,
+    method: string,
+    params: any,
+    caller = 'mcp-hub',
+    metadata: CallMetadata = {},
+    options: RoutingOptions = {}
+  ) {
+    const instances = this.getProviders(capability, options);
+
+    if (instances.length === 0) {
+      const range = options.version ? ` ${options.version}` : '';
+      throw new Error(`No app provides ${capability}${range}`);
+    }
+
+    return await this.deduplicate(capability, method, params, caller, metadata, () =>
+      this.metered(caller, method, charged => this.route(capability, instances, method, params, caller, metadata, charged))
+    );
+  }
+
+  // Runs a keyed call once per key, however many instances it is tried on
+  private async deduplicate<T>(
+    target: string,
+    method: string,
+    params: any,
+    caller: string,
+    metadata: CallMetadata,
+    execute: () => Promise<T>
+  ): Promise<T> {
+    if (!metadata.idempotencyKey) {
+      return await execute();
+    }
+
+    return await this.idempotency.run(caller, metadata.idempotencyKey, {
+      target,
+      method,
+      params,
+      simulation: metadata.simulation
+    }, execute);
+  }
+
+  // Tries instances from least to most loaded, moving on while the failure
+  // shows the call can safely be made again elsewhere
+  private async route(
+    target: string,
+    instances: RegisteredApp[],
+    method: string,
+    params: any,
+    caller: string,
+    metadata: CallMetadata,
+    charged: Set<string>
+  ) {
+    const allowed = instances.filter(app => this.scopes.isAllowed(caller, this.serviceOf(app.id), method));
+
+    if (allowed.length === 0) {
+      this.scopes.authorize(caller, this.serviceOf(instances[0].id), method);
+    }
+
+    // Simulated side effects are filled by the hub, whatever the app's status
+    const candidates = this.balance(allowed.filter(app => app.status !== 'offline'), method);
+    const policy = this.policies.resolve(this.serviceOf(allowed[0].id), method);
+
+    if (candidates.length === 0) {
+      if (metadata.simulation && policy.sideEffects) {
+        return await this.callInstance(allowed[0].id, method, params, caller, metadata, charged);
       }
+      throw new Error(`App offline: ${target}`);
     }
 
-    await Promise.allSettled(promises);
+    let lastError: any;
+
+    for (const app of candidates) {
+      try {
+        return await this.callInstance(app.id, method, params, caller, metadata, charged);
+      } catch (error: any) {
+        lastError = error;
+
+        if (!canFailOver(error, this.policies.resolve(this.serviceOf(app.id), method))) {
+          throw error;
+        }
+
+        logger.warn(`Call to ${app.id}.${method} failed (${classifyError(error)}), trying another ${target} instance`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Healthy before degraded, then fewest calls in flight, ties taken in turn
+  private balance(instances: RegisteredApp[], method: string): RegisteredApp[] {
+    const offset = this.rotation++ % Math.max(instances.length, 1);
+    const rotated = [...instances.slice(offset), ...instances.slice(0, offset)];
+
+    const rank = (app: RegisteredApp) =>
+      (this.getCircuitState(app.id, method) === 'open' ? 2 : 0) + (app.status === 'degraded' ? 1 : 0);
+
+    return rotated.sort((a, b) =>
+      rank(a) - rank(b) || (this.inFlight.get(a.id) || 0) - (this.inFlight.get(b.id) || 0)
+    );
+  }
+
+  getCircuitState(appId: string, method: string): CircuitState {
+    return this.breakers.get(this.circuitKey(appId, method))?.getState() || 'closed';
+  }
+
+  hasOpenCircuits(appId: string): boolean {
+    return Array.from(this.breakers.entries()).some(([key, breaker]) =>
+      key.startsWith(`${appId}.`) && breaker.getState() === 'open'
+    );
+  }
+
+  private async send(
+    app: RegisteredApp,
+    method: string,
+    params: any,
+    policy: CallPolicy,
+    requestId: string,
+    caller: string,
+    metadata: CallMetadata
+  ) {
+    const path = `/api/${method}`;
+    const body = JSON.stringify(params ?? {});
+
+    const request = (signal: AbortSignal) => axios.post(
+      `${app.url}${path}`,
+      body,
+      {
+        headers: {
+          // Signed fresh per copy so a late hedge still has a current timestamp
+          ...this.credentials.sign(app.id, { method: 'POST', path, body }),
+          'Content-Type': 'application/json',
+          'X-Caller-ID': caller,
+          // Shared by hedged copies so the app can tell they are the same call
+          'X-Request-ID': requestId,
+          // W3C trace context of the call's span
+          [TRACEPARENT_HEADER]: activeTraceparent(),
+          // Apps pass it on with the calls they make while handling this one
+          ...(metadata.simulation ? { 'X-MCP-Simulation': 'true' } : {}),
+          // Lets the app recognise a retry the hub could not answer from its store
+          ...(metadata.idempotencyKey ? { 'Idempotency-Key': metadata.idempotencyKey } : {})
+        },
+        timeout: policy.timeoutMs,
+        signal
+      }
+    );
+
+    if (policy.idempotent && policy.hedgeAfterMs) {
+      return await hedge(request, policy.hedgeAfterMs);
+    }
+
+    return await request(new AbortController().signal);
+  }
+
+  private getBreaker(appId: string, method: string, policy: CallPolicy) {
+    const key = this.circuitKey(appId, method);
+    let breaker = this.breakers.get(key);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(policy.breakerThreshold, policy.breakerResetMs);
+      this.breakers.set(key, breaker);
+    }
+
+    return breaker;
+  }
+
+  // Publishes breaker transitions and moves the app between online and degraded
+  private async trackCircuit(appId: string, method: string, breaker: CircuitBreaker) {
+    const key = this.circuitKey(appId, method);
+    const state = breaker.getState();
+    const previous = this.circuitStates.get(key) || 'closed';
+
+    if (state === previous) return;
+
+    this.circuitStates.set(key, state);
+    this.emit('circuit', { appId, method, state } as CircuitEvent);
+    logger.warn(`Circuit for ${key} is now ${state}`);
+
+    const app = this.apps.get(appId);
+    if (!app || app.status === 'offline') return;
+
+    if (this.hasOpenCircuits(appId)) {
+      await this.updateAppStatus(appId, 'degraded');
+    } else if (app.status === 'degraded') {
+      await this.updateAppStatus(appId, 'online');
+    }
+  }
+
+  private resetCircuits(appId: string) {
+    for (const [key, breaker] of this.breakers) {
+      if (key.startsWith(`${appId}.`)) {
+        breaker.reset();
+        this.circuitStates.delete(key);
+      }
+    }
+  }
+
+  private circuitKey(appId: string, method: string) {
+    return `${appId}.${method}`;
+  }
+
+  // Delivered to connected apps over the hub's push channel
+  async broadcastUpdate(update: HubUpdate) {
+    return await this.updates.publish(update);
   }
 
   async updateAppStatus(appId: string, status: RegisteredApp['status']) {
     const app = this.apps.get(appId);
     
     if (app) {
+      const previousStatus = app.status;
       app.status = status;
       app.lastSeen = new Date();
       await this.saveRegistry();
@@ -192,13 +643,104 @@ export class AppRegistry {
         status,
         timestamp: new Date().toISOString()
       });
+
+      if (previousStatus !== status) {
+        await this.updates.publish({ type: 'app_status', app_id: appId, status, previous_status: previousStatus });
+      }
     }
   }
 
+  // Called for each heartbeat. An app that had lapsed is back online at once;
+  // one degraded by open circuits stays degraded until they close.
+  async renewLease(appId: string, now = new Date()): Promise<RegisteredApp | undefined> {
+    const app = this.apps.get(appId);
+    if (!app) return undefined;
+
+    await this.writeLease(appId, now);
+    app.lastSeen = now;
+
+    if (app.status === 'offline' || (app.status === 'degraded' && !this.hasOpenCircuits(appId))) {
+      logger.info(`Lease renewed, ${appId} is back online`);
+      await this.updateAppStatus(appId, 'online');
+    } else {
+      await this.saveRegistry();
+    }
+
+    return app;
+  }
+
+  async getLease(appId: string): Promise<AppLease | null> {
+    return await this.redis.hGet(LEASES_KEY, appId);
+  }
+
+  startLeaseSweep(intervalMs = LEASE_SWEEP_INTERVAL) {
+    this.leaseInterval = setInterval(() => {
+      this.sweepLeases().catch(error => logger.error('Lease sweep failed', error));
+    }, intervalMs);
+  }
+
+  stopLeaseSweep() {
+    if (this.leaseInterval) {
+      clearInterval(this.leaseInterval);
+      this.leaseInterval = null;
+    }
+  }
+
+  // Apps that never held a lease are left to the health monitor
+  async sweepLeases(now = new Date()) {
+    const leases: Record<string, AppLease> = await this.redis.hGetAll(LEASES_KEY);
+
+    for (const [appId, lease] of Object.entries(leases)) {
+      const app = this.apps.get(appId);
+      if (!app || app.status === 'offline') continue;
+
+      const overdueMs = now.getTime() - new Date(lease.expires_at).getTime();
+
+      if (overdueMs > LEASE_GRACE_MS) {
+        logger.warn(`Lease for ${appId} lapsed at ${lease.expires_at}, marking offline`);
+        await this.updateAppStatus(appId, 'offline');
+      } else if (overdueMs > 0 && app.status === 'online') {
+        logger.warn(`Lease for ${appId} lapsed at ${lease.expires_at}, marking degraded`);
+        await this.updateAppStatus(appId, 'degraded');
+      }
+    }
+  }
+
+  private async writeLease(appId: string, now: Date) {
+    const lease: AppLease = {
+      app_id: appId,
+      renewed_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + LEASE_TTL_MS).toISOString()
+    };
+
+    await this.redis.hSet(LEASES_KEY, appId, lease);
+  }
+
   getApp(appId: string): RegisteredApp | undefined {
     return this.apps.get(appId);
   }
 
+  serviceOf(appId: string): string {
+    return this.apps.get(appId)?.service || appId;
+  }
+
+  // Every registered instance of a service; an app id on its own names a single instance
+  getInstances(service: string): RegisteredApp[] {
+    const instances = Array.from(this.apps.values()).filter(app => (app.service || app.id) === service);
+
+    if (instances.length === 0 && this.apps.has(service)) {
+      return [this.apps.get(service)!];
+    }
+
+    return instances;
+  }
+
+  getProviders(capability: string, options: RoutingOptions = {}): RegisteredApp[] {
+    return Array.from(this.apps.values()).filter(app =>
+      app.capabilities.includes(capability) && (!options.version || satisfies(app.version, options.version))
+    );
+  }
+
   getAllApps(): RegisteredApp[] {
     return Array.from(this.apps.values());
   }
@@ -216,3 +758,65 @@ export class AppRegistry {
     return `req_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   }
 }
+
+function isClientError(error: any): boolean {
+  const status = error?.response?.status;
+  return typeof status === 'number' && status >= 400 && status < 500;
+}
+
+// Another instance may only be tried when the first can't have acted on the call
+function canFailOver(error: any, policy: CallPolicy): boolean {
+  const type = classifyError(error);
+
+  if (type === 'connection' || type === 'circuit_open' || error.message?.startsWith('App offline')) {
+    return true;
+  }
+
+  return policy.idempotent && (type === 'timeout' || type === 'server_error');
+}
+
+function classifyError(error: any): string {
+  if (error instanceof CircuitOpenError) return 'circuit_open';
+  if (error instanceof RateLimitError) return 'rate_limited';
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return 'timeout';
+  if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') return 'connection';
+  if (isClientError(error)) return 'client_error';
+  if (error.response) return 'server_error';
+  return 'unknown';
+}
+
+// Starts a second copy of a slow request and settles with whichever answers first
+function hedge<T>(request: (signal: AbortSignal) => Promise<T>, afterMs: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const controllers: AbortController[] = [];
+    let inFlight = 0;
+    let settled = false;
+
+    const launch = () => {
+      const controller = new AbortController();
+      controllers.push(controller);
+      inFlight++;
+
+      request(controller.signal).then(result => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        controllers.forEach(c => c !== controller && c.abort());
+        resolve(result);
+      }, error => {
+        inFlight--;
+        // Keep waiting while the other copy is still running
+        if (settled || inFlight > 0) return;
+        settled = true;
+        clearTimeout(timer);
+        reject(error);
+      });
+    };
+
+    const timer = setTimeout(() => {
+      if (!settled) launch();
+    }, afterMs);
+
+    launch();
+  });
+}
@@ -0,0 +1,288 @@
+import { RedisManager } from './redis-manager.js';
+import { UpdateChannel } from './update-channel.js';
+import { ApprovalPolicies } from './approval-policies.js';
+import { logger } from './utils/logger.js';
+import { ConflictError, ValidationError } from '../../shared/utils/error-handling.js';
+
+export const APPROVAL_AUDIT_STREAM = 'approvals:audit';
+const RECORD_PREFIX = 'approval:';
+const KEY_PREFIX = 'approval:key:';
+const PENDING_KEY = 'approvals:pending';
+// Decided approvals stay readable for 30 days; the audit stream keeps the trail
+const RECORD_TTL = 30 * 24 * 3600;
+const SWEEP_INTERVAL = 15000;
+
+// Record versions double as the lifecycle: requested, decided, consumed
+const PENDING_VERSION = 1;
+const DECIDED_VERSION = 2;
+
+export type ApprovalStatus = 'pending' | 'approved' | 'modified' | 'rejected';
+
+export interface ApprovalRecord {
+  id: string;
+  version: number;
+  // `<appId>.<action>`
+  action: string;
+  requested_by: string;
+  summary: string;
+  details: any;
+  status: ApprovalStatus;
+  // False when no policy applied and the request was approved on the spot
+  required: boolean;
+  on_timeout?: 'approve' | 'reject';
+  requested_at: string;
+  expires_at?: string;
+  // A person, or 'timeout' / 'policy' when nobody had to decide
+  decided_by?: string;
+  decided_at?: string;
+  reason?: string;
+  // What may actually run: the request details, with any modifications applied
+  approved_details?: any;
+  consumed_at?: string;
+  idempotency_key?: string;
+}
+
+export interface ApprovalRequestInput {
+  action: string;
+  requestedBy: string;
+  summary?: string;
+  details: any;
+  // Returns the existing approval for a repeated request, e.g. a resumed workflow step
+  idempotencyKey?: string;
+}
+
+export interface ApprovalDecision {
+  decision: 'approve' | 'reject' | 'modify';
+  decidedBy: string;
+  reason?: string;
+  // Merged over the request details when the decision is 'modify'
+  modifications?: Record<string, any>;
+}
+
+/**
+ * Human sign-off for actions selected by ApprovalPolicies. Pending approvals
+ * are stored in Redis and announced as `approval_requested` hub updates;
+ * decisions go out as `approval_decided`. Approvals nobody answers are
+ * resolved with the policy's timeout default. Every step is appended to the
+ * `approvals:audit` stream.
+ */
+export class ApprovalManager {
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private redis: RedisManager,
+    private updates: UpdateChannel,
+    readonly policies = new ApprovalPolicies()
+  ) {}
+
+  start(intervalMs = SWEEP_INTERVAL) {
+    this.sweepInterval = setInterval(() => {
+      this.expireOverdue().catch(error => logger.error('Approval sweep failed', error));
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  async request(input: ApprovalRequestInput): Promise<ApprovalRecord> {
+    if (input.idempotencyKey) {
+      const existingId = await this.redis.get(`${KEY_PREFIX}${input.idempotencyKey}`);
+      const existing = existingId ? await this.get(existingId) : null;
+      if (existing) return existing;
+    }
+
+    const now = new Date();
+    const policy = this.policies.evaluate(input.action, input.details);
+    const record: ApprovalRecord = {
+      id: `approval_${now.getTime()}_${Math.random().toString(36).substring(7)}`,
+      version: PENDING_VERSION,
+      action: input.action,
+      requested_by: input.requestedBy,
+      summary: input.summary || input.action,
+      details: input.details,
+      status: 'pending',
+      required: Boolean(policy),
+      requested_at: now.toISOString(),
+      idempotency_key: input.idempotencyKey
+    };
+
+    if (!policy) {
+      const approved = { ...record, status: 'approved' as const, decided_by: 'policy', approved_details: input.details };
+      await this.audit(approved, 'not_required', 'policy');
+      return approved;
+    }
+
+    record.on_timeout = policy.onTimeout;
+    record.expires_at = new Date(now.getTime() + policy.timeoutMs).toISOString();
+
+    await this.redis.compareAndSet(`${RECORD_PREFIX}${record.id}`, record, 0);
+    await this.redis.hSet(PENDING_KEY, record.id, record.action);
+    if (input.idempotencyKey) {
+      await this.redis.set(`${KEY_PREFIX}${input.idempotencyKey}`, record.id, RECORD_TTL);
+    }
+
+    await this.audit(record, 'requested', record.requested_by);
+    await this.updates.publish({ type: 'approval_requested', approval: record });
+
+    logger.info(`Approval ${record.id} requested by ${record.requested_by} for ${record.action}`);
+    return record;
+  }
+
+  // Overdue approvals are resolved on read, so a requester never waits past the timeout
+  async get(id: string): Promise<ApprovalRecord | null> {
+    const record: ApprovalRecord | null = await this.redis.get(`${RECORD_PREFIX}${id}`);
+
+    if (record?.status === 'pending' && record.expires_at && new Date(record.expires_at).getTime() <= Date.now()) {
+      return await this.expire(record);
+    }
+
+    return record;
+  }
+
+  async listPending(): Promise<ApprovalRecord[]> {
+    const ids = Object.keys(await this.redis.hGetAll(PENDING_KEY));
+    const pending: ApprovalRecord[] = [];
+
+    for (const id of ids) {
+      const record = await this.get(id);
+      if (record?.status === 'pending') {
+        pending.push(record);
+      } else if (!record) {
+        await this.redis.hDel(PENDING_KEY, id);
+      }
+    }
+
+    return pending.sort((a, b) => a.requested_at.localeCompare(b.requested_at));
+  }
+
+  async decide(id: string, decision: ApprovalDecision): Promise<ApprovalRecord | null> {
+    const record = await this.get(id);
+    if (!record) return null;
+
+    if (record.status !== 'pending') {
+      throw new ConflictError(`Approval ${id} is already ${record.status}`, PENDING_VERSION, record.version, record);
+    }
+
+    if (decision.decision === 'modify' && !decision.modifications) {
+      throw new ValidationError('Modifications are required to modify an approval', [
+        { path: ['modifications'], message: 'Required when decision is modify' }
+      ]);
+    }
+
+    const status: ApprovalStatus = decision.decision === 'approve'
+      ? 'approved'
+      : decision.decision === 'reject' ? 'rejected' : 'modified';
+
+    return await this.resolve(record, {
+      status,
+      decided_by: decision.decidedBy,
+      reason: decision.reason,
+      approved_details: status === 'rejected'
+        ? undefined
+        : { ...record.details, ...(decision.modifications || {}) }
+    });
+  }
+
+  // Throws unless the approval can still be used for `action`, without using it up
+  async check(id: string, action: string): Promise<ApprovalRecord | null> {
+    const record = await this.get(id);
+    if (!record) return null;
+
+    if (record.action !== action) {
+      throw new ValidationError(`Approval ${id} is for ${record.action}, not ${action}`, [
+        { path: ['approval_id'], message: 'Approval is for a different action' }
+      ]);
+    }
+
+    if (record.status === 'pending' || record.status === 'rejected' || record.consumed_at) {
+      const state = record.consumed_at ? 'already used' : record.status === 'pending' ? 'still pending' : 'rejected';
+      throw new ConflictError(`Approval ${id} is ${state}`, DECIDED_VERSION, record.version, record);
+    }
+
+    return record;
+  }
+
+  // Marks an approval as used, so one sign-off can't authorise the action twice
+  async consume(id: string, action: string): Promise<ApprovalRecord | null> {
+    const record = await this.check(id, action);
+    if (!record) return null;
+
+    const consumed = { ...record, version: record.version + 1, consumed_at: new Date().toISOString() };
+    const result = await this.redis.compareAndSet(`${RECORD_PREFIX}${id}`, consumed, record.version, RECORD_TTL);
+
+    if (!result.ok) {
+      throw new ConflictError(`Approval ${id} was already used`, record.version, result.current?.version, result.current);
+    }
+
+    await this.audit(consumed, 'consumed', consumed.requested_by);
+    return consumed;
+  }
+
+  // Newest first
+  async getAuditTrail(limit = 100) {
+    const entries = await this.redis.readStreamReverse(APPROVAL_AUDIT_STREAM, '+', '-', limit);
+    return entries.map(entry => ({ id: entry.id, ...this.redis.parseStreamMessage(entry.message) }));
+  }
+
+  async expireOverdue() {
+    // listPending resolves overdue approvals as it reads them
+    await this.listPending();
+  }
+
+  private async expire(record: ApprovalRecord): Promise<ApprovalRecord> {
+    const approve = record.on_timeout === 'approve';
+
+    try {
+      return await this.resolve(record, {
+        status: approve ? 'approved' : 'rejected',
+        decided_by: 'timeout',
+        reason: `No decision by ${record.expires_at}`,
+        approved_details: approve ? record.details : undefined
+      });
+    } catch (error) {
+      // Decided by someone else in the meantime
+      if (error instanceof ConflictError) return error.current;
+      throw error;
+    }
+  }
+
+  private async resolve(
+    record: ApprovalRecord,
+    outcome: Pick<ApprovalRecord, 'status' | 'decided_by' | 'reason' | 'approved_details'>
+  ): Promise<ApprovalRecord> {
+    const decided: ApprovalRecord = {
+      ...record,
+      ...outcome,
+      version: DECIDED_VERSION,
+      decided_at: new Date().toISOString()
+    };
+
+    const result = await this.redis.compareAndSet(`${RECORD_PREFIX}${record.id}`, decided, PENDING_VERSION, RECORD_TTL);
+    if (!result.ok) {
+      throw new ConflictError(`Approval ${record.id} was already decided`, PENDING_VERSION, result.current?.version, result.current);
+    }
+
+    await this.redis.hDel(PENDING_KEY, record.id);
+    await this.audit(decided, decided.decided_by === 'timeout' ? 'expired' : decided.status, decided.decided_by!);
+    await this.updates.publish({ type: 'approval_decided', approval: decided });
+
+    logger.info(`Approval ${record.id} ${decided.status} by ${decided.decided_by}`);
+    return decided;
+  }
+
+  private async audit(record: ApprovalRecord, event: string, actor: string) {
+    await this.redis.addToStream(APPROVAL_AUDIT_STREAM, {
+      approval_id: record.id,
+      action: record.action,
+      event,
+      actor,
+      reason: record.reason,
+      details: record.approved_details ?? record.details,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
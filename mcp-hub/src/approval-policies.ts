@@ -0,0 +1,60 @@
+import { PatternRules, loadJsonEnv } from './pattern-rules.js';
+
+export interface ApprovalPolicy {
+  // Numeric field of the request details compared against `threshold`;
+  // without one every request for the action needs sign-off
+  field?: string;
+  threshold?: number;
+  timeoutMs: number;
+  // Applied when nobody decides in time. Reject unless stalling is the bigger risk.
+  onTimeout: 'approve' | 'reject';
+}
+
+const MINUTE = 60 * 1000;
+
+// A null policy exempts the action
+const DEFAULT_POLICIES: Array<[string, ApprovalPolicy | null]> = [
+  ['mcp-hub.execute_strategy', { field: 'allocation', threshold: 0.05, timeoutMs: 30 * MINUTE, onTimeout: 'reject' }],
+  ['ai-coo.portfolio_rebalance', { timeoutMs: 120 * MINUTE, onTimeout: 'reject' }],
+  ['ai-coo.hedge_portfolio', { timeoutMs: 15 * MINUTE, onTimeout: 'reject' }],
+  // Short timeouts so a crisis doesn't wait long, but silence still isn't consent
+  ['ai-coo.reduce_positions', { field: 'percentage', threshold: 25, timeoutMs: 10 * MINUTE, onTimeout: 'reject' }],
+  ['ai-coo.increase_cash', { field: 'target', threshold: 30, timeoutMs: 10 * MINUTE, onTimeout: 'reject' }]
+];
+
+/**
+ * Which `<appId>.<action>` requests need human sign-off, above which
+ * thresholds, and what happens when nobody answers. Extra policies can be
+ * supplied as JSON in MCP_APPROVAL_POLICIES, e.g.
+ * {"ai-coo.hedge_portfolio": {"timeoutMs": 300000}}.
+ */
+export class ApprovalPolicies {
+  private policies = new PatternRules<ApprovalPolicy | null>(DEFAULT_POLICIES);
+
+  constructor() {
+    loadJsonEnv('MCP_APPROVAL_POLICIES', (pattern, policy) =>
+      this.set(pattern, policy === null ? null : { timeoutMs: 30 * MINUTE, onTimeout: 'reject', ...policy })
+    );
+  }
+
+  set(pattern: string, policy: ApprovalPolicy | null) {
+    this.policies.set(pattern, policy);
+  }
+
+  resolve(action: string): ApprovalPolicy | null {
+    return this.policies.resolve(action) ?? null;
+  }
+
+  // The policy to apply, or null when the request can go ahead without sign-off
+  evaluate(action: string, details: any): ApprovalPolicy | null {
+    const policy = this.resolve(action);
+    if (!policy || !policy.field || policy.threshold === undefined) {
+      return policy;
+    }
+
+    const value = Number(details?.[policy.field]);
+
+    // A missing or non-numeric value can't be shown to be under the threshold
+    return isNaN(value) || Math.abs(value) >= policy.threshold ? policy : null;
+  }
+}
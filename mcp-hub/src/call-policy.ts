@@ -0,0 +1,74 @@
+import { PatternRules, loadJsonEnv } from './pattern-rules.js';
+
+export interface CallPolicy {
+  timeoutMs: number;
+  // Extra attempts after the first one; only applied to idempotent methods
+  retries: number;
+  retryDelayMs: number;
+  idempotent: boolean;
+  // Send a second request if the first has not answered within this time
+  hedgeAfterMs?: number;
+  breakerThreshold: number;
+  breakerResetMs: number;
+  // Changes something outside the hub; calls made in simulation go to the
+  // simulated executor instead of the app
+  sideEffects: boolean;
+}
+
+const DEFAULT_POLICY: CallPolicy = {
+  timeoutMs: 30000,
+  retries: 0,
+  retryDelayMs: 500,
+  idempotent: false,
+  breakerThreshold: 5,
+  breakerResetMs: 60000,
+  sideEffects: false
+};
+
+// Reads are safe to retry and hedge
+const READ_POLICY: Partial<CallPolicy> = {
+  idempotent: true,
+  retries: 2,
+  hedgeAfterMs: 2000
+};
+
+// Every matching override applies, so later ones only replace the fields they set
+const DEFAULT_OVERRIDES: Array<[string, Partial<CallPolicy>]> = [
+  ['*.get_*', READ_POLICY],
+  ['*.analyze_*', READ_POLICY],
+  ['*.health', { idempotent: true, timeoutMs: 5000, retries: 0 }],
+  ['signal-forge.rank_strategies', READ_POLICY],
+  ['trade-runner.*', { timeoutMs: 60000, breakerThreshold: 3 }],
+  ['trade-runner.execute', { idempotent: false, retries: 0, hedgeAfterMs: undefined, sideEffects: true }],
+  ['trade-runner.executeRebalance', { idempotent: false, retries: 0, hedgeAfterMs: undefined, sideEffects: true }],
+  ['trade-runner.cancelRebalance', { sideEffects: true }],
+  ['trade-runner.place_order', { sideEffects: true }],
+  ['trade-runner.cancel_order', { sideEffects: true }],
+  ['trade-runner.emergency_stop', { sideEffects: true }],
+  ['trade-runner.resume_trading', { sideEffects: true }],
+  ['trade-runner.reduce*', { sideEffects: true }],
+  ['trade-runner.hedge*', { sideEffects: true }],
+  ['trade-runner.reconcile*', { sideEffects: true }],
+  ['trade-runner.increaseCashPosition', { sideEffects: true }]
+];
+
+/**
+ * Resilience policy per app and method, addressed as `<appId>.<method>` patterns
+ * where `*` matches any run of characters. Extra overrides can be supplied as
+ * JSON in MCP_CALL_POLICIES, e.g. {"data-hub.*": {"timeoutMs": 10000}}.
+ */
+export class CallPolicies {
+  private overrides = new PatternRules<Partial<CallPolicy>>(DEFAULT_OVERRIDES);
+
+  constructor() {
+    loadJsonEnv('MCP_CALL_POLICIES', (pattern, policy) => this.set(pattern, policy));
+  }
+
+  set(pattern: string, policy: Partial<CallPolicy>) {
+    this.overrides.set(pattern, policy);
+  }
+
+  resolve(appId: string, method: string): CallPolicy {
+    return Object.assign({ ...DEFAULT_POLICY }, ...this.overrides.matches(`${appId}.${method}`));
+  }
+}
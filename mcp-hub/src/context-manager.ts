@@ -1,9 +1,40 @@
 import { RedisManager } from './redis-manager.js';
+import { UpdateChannel } from './update-channel.js';
+import { ContextTypeRegistry } from './context-types.js';
 import { logger } from './utils/logger.js';
+import { ConflictError } from '../../shared/utils/error-handling.js';
+import { PatchOperation, applyPatch, createPatch, mergePatch } from '../../shared/utils/json-patch.js';
+
+const MAX_WRITE_ATTEMPTS = 5;
+const HISTORY_SCAN_BATCH = 100;
+// History is appended after the write that made a version current, so concurrent
+// writers can append a few versions out of order
+const HISTORY_REORDER_WINDOW = 10;
+const DEFAULT_HISTORY_RETENTION_DAYS = 30;
+
+// replace: data is the new value; merge: data is an RFC 7396 merge patch;
+// patch: data is a list of RFC 6902 operations
+export type WriteMode = 'replace' | 'merge' | 'patch';
+
+export interface UpdateContextOptions {
+  ttl?: number;
+  // Fail with ConflictError unless the stored version matches (0 = must not exist)
+  expectedVersion?: number;
+  mode?: WriteMode;
+  // App making the write; checked against the type's owners
+  writer?: string;
+}
+
+export interface ContextDiff {
+  type: string;
+  from: { version: number; timestamp: Date };
+  to: { version: number; timestamp: Date };
+  patch: PatchOperation[];
+}
 
 interface ContextLayer {
   id: string;
-  type: 'system' | 'market' | 'portfolio' | 'strategy' | 'risk';
+  type: string;
   data: any;
   timestamp: Date;
   ttl?: number;
@@ -12,28 +43,83 @@ interface ContextLayer {
 
 export class ContextManager {
   private contextPrefix = 'context:';
+  // Every version's payload, one stream per context type
+  private historyPrefix = 'context:history:';
+  private historyRetentionMs =
+    Number(process.env.CONTEXT_HISTORY_RETENTION_DAYS || DEFAULT_HISTORY_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
   
-  constructor(private redis: RedisManager) {}
+  constructor(
+    private redis: RedisManager,
+    private updates: UpdateChannel = new UpdateChannel(redis),
+    readonly types = new ContextTypeRegistry()
+  ) {}
 
-  async updateContext(type: string, data: any, ttl?: number) {
+  async updateContext(type: string, data: any, options: UpdateContextOptions = {}) {
     const contextKey = `${this.contextPrefix}${type}`;
-    
-    // Get current version
-    const current = await this.redis.get(contextKey);
-    const version = current ? current.version + 1 : 1;
-    
-    const context: ContextLayer = {
-      id: `ctx_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-      type: type as any,
-      data,
-      timestamp: new Date(),
-      ttl,
-      version
-    };
+    const { expectedVersion, mode = 'replace', writer } = options;
+
+    if (writer) {
+      this.types.authorizeWriter(type, writer);
+    }
+
+    const definition = this.types.get(type);
+    const ttl = options.ttl ?? definition?.ttl;
+    const retentionMs = definition?.retentionDays !== undefined
+      ? definition.retentionDays * 24 * 60 * 60 * 1000
+      : this.historyRetentionMs;
+
+    let context: ContextLayer | null = null;
+    let current: ContextLayer | null = await this.redis.get(contextKey);
+
+    // Without an expected version, rebase onto the latest value and retry on races
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const currentVersion = current?.version || 0;
+
+      if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+        throw new ConflictError(
+          `Context ${type} is at v${currentVersion}, expected v${expectedVersion}`,
+          expectedVersion,
+          currentVersion,
+          current
+        );
+      }
+
+      const candidate: ContextLayer = {
+        id: `ctx_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+        type,
+        // Validate the resulting value, so merges and patches can't leave it malformed
+        data: this.types.validate(type, this.applyWrite(current?.data, data, mode)),
+        timestamp: new Date(),
+        ttl,
+        version: currentVersion + 1
+      };
+
+      const result = await this.redis.compareAndSet(contextKey, candidate, currentVersion, ttl);
+      if (result.ok) {
+        context = candidate;
+        break;
+      }
+
+      current = result.current;
+    }
+
+    if (!context) {
+      throw new ConflictError(
+        `Context ${type} kept changing; gave up after ${MAX_WRITE_ATTEMPTS} attempts`,
+        current?.version || 0,
+        current?.version || 0,
+        current
+      );
+    }
+
+    const version = context.version;
+
+    // Keep the full payload for point-in-time reads; the codec keeps dates and decimals intact
+    await this.redis.addToStream(`${this.historyPrefix}${type}`, {
+      version,
+      context
+    }, { minTime: Date.now() - retentionMs });
 
-    // Store in Redis
-    await this.redis.set(contextKey, context, ttl);
-    
     // Add to context history stream
     await this.redis.addToStream('context:history', {
       type,
@@ -49,7 +135,17 @@ export class ContextManager {
       version
     });
 
+    // Push to subscribed apps
+    await this.updates.publish({
+      type: 'context_update',
+      context_type: type,
+      context_id: context.id,
+      version
+    });
+
     logger.info(`Context updated: ${type} v${version}`);
+
+    return context;
   }
 
   async getContext(type: string): Promise<ContextLayer | null> {
@@ -57,11 +153,67 @@ export class ContextManager {
     return await this.redis.get(contextKey);
   }
 
+  // The version that was current at the given time, or null if none existed yet
+  async getContextAt(type: string, at: Date | string | number): Promise<ContextLayer | null> {
+    const time = new Date(at).getTime();
+    const entries = await this.redis.readStreamReverse(`${this.historyPrefix}${type}`, String(time), '-', HISTORY_REORDER_WINDOW);
+
+    // The newest version recorded by then, wherever it landed among the last few entries
+    return entries
+      .map(entry => this.parseHistoryEntry(entry.message))
+      .reduce<ContextLayer | null>((latest, layer) => !latest || layer.version > latest.version ? layer : latest, null);
+  }
+
+  async getContextVersion(type: string, version: number): Promise<ContextLayer | null> {
+    const key = `${this.historyPrefix}${type}`;
+    let end = '+';
+
+    // Appends can land out of order, so scan the whole retention window
+    while (true) {
+      const entries = await this.redis.readStreamReverse(key, end, '-', HISTORY_SCAN_BATCH);
+
+      for (const entry of entries) {
+        if (Number(entry.message.version) === version) {
+          return this.parseHistoryEntry(entry.message);
+        }
+      }
+
+      if (entries.length < HISTORY_SCAN_BATCH) {
+        return null;
+      }
+
+      end = `(${entries[entries.length - 1].id}`;
+    }
+  }
+
+  async getContextHistory(type: string, limit = 20): Promise<ContextLayer[]> {
+    const entries = await this.redis.readStreamReverse(`${this.historyPrefix}${type}`, '+', '-', limit);
+    return entries.map(entry => this.parseHistoryEntry(entry.message));
+  }
+
+  // JSON patch from one version's data to another's; `to` defaults to the latest
+  async diffContext(type: string, fromVersion: number, toVersion?: number): Promise<ContextDiff | null> {
+    const from = await this.getContextVersion(type, fromVersion);
+    const to = toVersion === undefined
+      ? await this.getContext(type)
+      : await this.getContextVersion(type, toVersion);
+
+    if (!from || !to) {
+      return null;
+    }
+
+    return {
+      type,
+      from: { version: from.version, timestamp: from.timestamp },
+      to: { version: to.version, timestamp: to.timestamp },
+      patch: createPatch(from.data, to.data)
+    };
+  }
+
   async getAllContexts(): Promise<Record<string, ContextLayer>> {
-    const types = ['system', 'market', 'portfolio', 'strategy', 'risk'];
     const contexts: Record<string, ContextLayer> = {};
     
-    for (const type of types) {
+    for (const { type } of this.types.list()) {
       const context = await this.getContext(type);
       if (context) {
         contexts[type] = context;
@@ -90,8 +242,8 @@ export class ContextManager {
   async gatherReportData(reportType: string) {
     const contexts = await this.getAllContexts();
     
-    // Get recent trades
-    const trades = await this.redis.readStream('trades:executed', '0', 100);
+    // Latest trades, oldest first
+    const trades = (await this.redis.readStreamReverse('trades:executed', '+', '-', 100)).reverse();
     
     // Get strategy performance
     const strategyContext = contexts.strategy?.data || {};
@@ -110,7 +262,7 @@ export class ContextManager {
       risk_metrics: riskContext,
       recent_trades: trades.map(t => ({
         id: t.id,
-        ...this.parseStreamMessage(t.message)
+        ...this.redis.parseStreamMessage(t.message)
       })),
       system_health: contexts.system?.data || {}
     };
@@ -136,6 +288,23 @@ export class ContextManager {
     };
   }
 
+  private applyWrite(currentData: any, data: any, mode: WriteMode) {
+    switch (mode) {
+      case 'merge':
+        return mergePatch(currentData ?? {}, data);
+      case 'patch':
+        return applyPatch(currentData ?? {}, data as PatchOperation[]);
+      default:
+        return data;
+    }
+  }
+
+  private parseHistoryEntry(message: Record<string, string>): ContextLayer {
+    const { context } = this.redis.parseStreamMessage(message);
+    // Entries written before the stream codec held the payload as a JSON string
+    return typeof context === 'string' ? JSON.parse(context) : context;
+  }
+
   private summarizePortfolio(portfolioData: any) {
     if (!portfolioData) return 'No portfolio data';
     
@@ -170,18 +339,4 @@ export class ContextManager {
       .sort((a, b) => b.value - a.value)
       .slice(0, 5);
   }
-
-  private parseStreamMessage(message: Record<string, string>) {
-    const parsed: any = {};
-    
-    for (const [key, value] of Object.entries(message)) {
-      try {
-        parsed[key] = JSON.parse(value);
-      } catch {
-        parsed[key] = value;
-      }
-    }
-    
-    return parsed;
-  }
 }
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import { logger } from './utils/logger.js';
+import { AuthorizationError, ValidationError } from '../../shared/utils/error-handling.js';
+
+export interface ContextTypeDefinition {
+  type: string;
+  description: string;
+  schema: z.ZodTypeAny;
+  // Apps allowed to write this context; the hub itself can always write
+  owners: string[];
+  // Seconds until the current value expires; unset keeps it until overwritten
+  ttl?: number;
+  // Days of version history to keep; falls back to CONTEXT_HISTORY_RETENTION_DAYS
+  retentionDays?: number;
+}
+
+// Simulation results live under `shadow:<type>`, next to the real layer they mirror
+export const SHADOW_PREFIX = 'shadow:';
+
+const timestamp = z.union([z.string(), z.date()]);
+
+// Schemas only pin the fields the hub reads; anything else is passed through
+const DEFAULT_TYPES: ContextTypeDefinition[] = [
+  {
+    type: 'system',
+    description: 'System-wide state such as workflow status',
+    schema: z.object({
+      workflows: z.record(z.object({
+        workflow_id: z.string(),
+        status: z.string()
+      }).passthrough()).optional()
+    }).passthrough(),
+    owners: ['ai-coo', 'ops-console']
+  },
+  {
+    type: 'market',
+    description: 'Latest market conditions from data ingestion',
+    schema: z.object({
+      last_update: timestamp.optional(),
+      overall_trend: z.string().optional(),
+      volatility_index: z.union([z.string(), z.number()]).optional(),
+      top_movers: z.array(z.any()).optional(),
+      signal_count: z.number().optional()
+    }).passthrough(),
+    owners: ['data-hub'],
+    ttl: 3600
+  },
+  {
+    type: 'market_data',
+    description: 'Latest price per asset; its history is what simulated orders fill against',
+    schema: z.object({
+      prices: z.record(z.number().positive()).default({})
+    }).passthrough(),
+    owners: ['data-hub'],
+    retentionDays: 90
+  },
+  {
+    type: 'portfolio',
+    description: 'Current positions, cash and performance',
+    schema: z.object({
+      positions: z.record(z.object({
+        value: z.number(),
+        percentage: z.number().optional()
+      }).passthrough()).default({}),
+      cash: z.number(),
+      total_value: z.number().nonnegative(),
+      daily_pnl: z.number().optional(),
+      weekly_pnl: z.number().optional(),
+      sharpe_ratio: z.number().optional()
+    }).passthrough(),
+    owners: ['trade-runner', 'ai-coo'],
+    retentionDays: 365
+  },
+  {
+    type: 'strategy',
+    description: 'Active strategies and their rankings',
+    schema: z.object({
+      active_strategies: z.array(z.any()).default([]),
+      rankings: z.array(z.any()).default([])
+    }).passthrough(),
+    owners: ['signal-forge', 'ai-coo']
+  },
+  {
+    type: 'risk',
+    description: 'Portfolio risk metrics and limit usage',
+    schema: z.object({
+      overall_risk_score: z.union([z.number(), z.string()]).optional()
+    }).passthrough(),
+    owners: ['risk-analyzer', 'ai-coo'],
+    retentionDays: 365
+  },
+  {
+    type: 'trade_execution',
+    description: 'Result of the most recent strategy execution',
+    schema: z.record(z.any()),
+    owners: ['trade-runner']
+  },
+  {
+    type: 'strategy_rankings',
+    description: 'Latest strategy ranking from signal-forge',
+    schema: z.array(z.any()),
+    owners: ['signal-forge', 'ai-coo']
+  },
+  {
+    type: 'conversation',
+    description: 'Last exchange handled by the bot concierge',
+    schema: z.object({
+      conversation_id: z.string(),
+      last_intent: z.any().optional(),
+      last_response: z.any().optional()
+    }).passthrough(),
+    owners: ['bot-concierge'],
+    ttl: 86400,
+    retentionDays: 7
+  }
+];
+
+/**
+ * Registry of the shared context types. Writes to unregistered types are
+ * rejected, and each write is validated against its type's schema.
+ */
+export class ContextTypeRegistry {
+  private types: Map<string, ContextTypeDefinition> = new Map();
+
+  constructor(definitions: ContextTypeDefinition[] = DEFAULT_TYPES) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  register(definition: ContextTypeDefinition) {
+    this.types.set(definition.type, definition);
+    logger.debug(`Context type registered: ${definition.type}`);
+  }
+
+  // A shadow type shares the definition, owners included, of the type it mirrors
+  get(type: string): ContextTypeDefinition | undefined {
+    return this.types.get(type.startsWith(SHADOW_PREFIX) ? type.slice(SHADOW_PREFIX.length) : type);
+  }
+
+  list(): ContextTypeDefinition[] {
+    return Array.from(this.types.values());
+  }
+
+  // Returns the parsed data, with schema defaults applied
+  validate(type: string, data: any) {
+    const definition = this.require(type);
+    const result = definition.schema.safeParse(data);
+
+    if (!result.success) {
+      throw new ValidationError(`Invalid ${type} context`, result.error.issues);
+    }
+
+    return result.data;
+  }
+
+  authorizeWriter(type: string, writer: string) {
+    const definition = this.require(type);
+
+    if (writer !== 'mcp-hub' && !definition.owners.includes(writer)) {
+      throw new AuthorizationError(writer, `update_context.${type}`);
+    }
+  }
+
+  private require(type: string): ContextTypeDefinition {
+    const definition = this.get(type);
+
+    if (!definition) {
+      throw new ValidationError(`Unknown context type: ${type}`, [{
+        path: ['type'],
+        message: `Registered types: ${Array.from(this.types.keys()).join(', ')}`
+      }]);
+    }
+
+    return definition;
+  }
+}
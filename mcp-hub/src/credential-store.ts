@@ -0,0 +1,155 @@
+import { RedisManager } from './redis-manager.js';
+import { logger } from './utils/logger.js';
+import {
+  AppCredential,
+  SignedRequest,
+  createSignatureHeaders,
+  generateCredential,
+  verifySignature
+} from '../../shared/utils/request-signing.js';
+import { AuthenticationError } from '../../shared/utils/error-handling.js';
+
+// How long the old key keeps working after a rotation
+const DEFAULT_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+interface StoredCredential extends AppCredential {
+  createdAt: string;
+  expiresAt?: string;
+}
+
+interface AppCredentials {
+  current: StoredCredential;
+  previous?: StoredCredential;
+  // False until the app signs a request with the current key
+  confirmed: boolean;
+}
+
+/**
+ * Per-app HMAC credentials issued by the hub. An app receives its first key when
+ * it registers with the bootstrap MCP_AUTH_TOKEN; afterwards every request must
+ * be signed. Rotated keys are handed out in heartbeat responses until the app
+ * starts using them, and the previous key stays valid for a grace period.
+ */
+export class CredentialStore {
+  private credentialsKey = 'auth:credentials';
+  private credentials: Map<string, AppCredentials> = new Map();
+
+  constructor(private redis: RedisManager) {}
+
+  async load() {
+    const saved: Record<string, AppCredentials> = await this.redis.hGetAll(this.credentialsKey);
+
+    for (const [appId, credentials] of Object.entries(saved)) {
+      this.credentials.set(appId, credentials);
+    }
+
+    logger.info(`Loaded credentials for ${this.credentials.size} apps`);
+  }
+
+  has(appId: string): boolean {
+    return this.credentials.has(appId);
+  }
+
+  getAppIds(): string[] {
+    return Array.from(this.credentials.keys());
+  }
+
+  async issue(appId: string): Promise<AppCredential> {
+    const credential = { ...generateCredential(), createdAt: new Date().toISOString() };
+
+    await this.save(appId, { current: credential, confirmed: true });
+    logger.info(`Credential issued for ${appId} (${credential.keyId})`);
+
+    return this.toPublic(credential);
+  }
+
+  async rotate(appId: string, gracePeriodMs = DEFAULT_GRACE_PERIOD_MS): Promise<string> {
+    const existing = this.credentials.get(appId);
+    if (!existing) {
+      throw new Error(`No credential to rotate for ${appId}`);
+    }
+
+    const current = { ...generateCredential(), createdAt: new Date().toISOString() };
+    const previous = {
+      ...existing.current,
+      expiresAt: new Date(Date.now() + gracePeriodMs).toISOString()
+    };
+
+    await this.save(appId, { current, previous, confirmed: false });
+    logger.info(`Credential rotated for ${appId} (${previous.keyId} -> ${current.keyId})`);
+
+    return current.keyId;
+  }
+
+  // The app has to register with the bootstrap token again afterwards
+  async revoke(appId: string) {
+    this.credentials.delete(appId);
+    await this.redis.hDel(this.credentialsKey, appId);
+    logger.warn(`Credentials revoked for ${appId}`);
+  }
+
+  // A rotated key the app has not picked up yet
+  getPending(appId: string): AppCredential | undefined {
+    const credentials = this.credentials.get(appId);
+
+    if (!credentials || credentials.confirmed) {
+      return undefined;
+    }
+
+    return this.toPublic(credentials.current);
+  }
+
+  async verify(appId: string, keyId: string, headers: Record<string, any>, request: Omit<SignedRequest, 'timestamp'>) {
+    const credentials = this.credentials.get(appId);
+    const credential = credentials && this.findKey(credentials, keyId);
+
+    if (!credentials || !credential) {
+      throw new AuthenticationError(`Unknown key for ${appId}`);
+    }
+
+    verifySignature(credential.secret, headers, request);
+
+    if (!credentials.confirmed && keyId === credentials.current.keyId) {
+      await this.save(appId, { ...credentials, confirmed: true });
+    }
+  }
+
+  // Headers for a hub-to-app call, signed with the key the app currently holds
+  sign(appId: string, request: SignedRequest) {
+    const credentials = this.credentials.get(appId);
+    if (!credentials) {
+      return {};
+    }
+
+    const usable = !credentials.confirmed && credentials.previous && !this.isExpired(credentials.previous)
+      ? credentials.previous
+      : credentials.current;
+
+    return createSignatureHeaders('mcp-hub', usable, request);
+  }
+
+  private findKey(credentials: AppCredentials, keyId: string): StoredCredential | undefined {
+    if (credentials.current.keyId === keyId) {
+      return credentials.current;
+    }
+
+    if (credentials.previous?.keyId === keyId && !this.isExpired(credentials.previous)) {
+      return credentials.previous;
+    }
+
+    return undefined;
+  }
+
+  private isExpired(credential: StoredCredential) {
+    return !!credential.expiresAt && new Date(credential.expiresAt).getTime() < Date.now();
+  }
+
+  private toPublic(credential: StoredCredential): AppCredential {
+    return { keyId: credential.keyId, secret: credential.secret };
+  }
+
+  private async save(appId: string, credentials: AppCredentials) {
+    this.credentials.set(appId, credentials);
+    await this.redis.hSet(this.credentialsKey, appId, credentials);
+  }
+}
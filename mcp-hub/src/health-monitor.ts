@@ -1,5 +1,5 @@
 import { RedisManager } from './redis-manager.js';
-import { AppRegistry } from './app-registry.js';
+import { AppRegistry, CallEvent, CircuitEvent, ThrottleEvent } from './app-registry.js';
 import { logger } from './utils/logger.js';
 import * as promClient from 'prom-client';
 
@@ -10,6 +10,8 @@ export class HealthMonitor {
     apiLatency: promClient.Histogram;
     contextUpdates: promClient.Counter;
     errorRate: promClient.Counter;
+    circuitState: promClient.Gauge;
+    throttledCalls: promClient.Counter;
   };
 
   constructor(
@@ -20,7 +22,7 @@ export class HealthMonitor {
     this.metrics = {
       appHealth: new promClient.Gauge({
         name: 'field_elevate_app_health',
-        help: 'Health status of registered apps (1=online, 0=offline)',
+        help: 'Health status of registered apps (1=online, 0.5=degraded, 0=offline)',
         labelNames: ['app_id', 'app_name']
       }),
       apiLatency: new promClient.Histogram({
@@ -38,6 +40,16 @@ export class HealthMonitor {
         name: 'field_elevate_errors',
         help: 'Number of errors',
         labelNames: ['app_id', 'error_type']
+      }),
+      circuitState: new promClient.Gauge({
+        name: 'field_elevate_circuit_state',
+        help: 'Circuit breaker state per app method (0=closed, 0.5=half-open, 1=open)',
+        labelNames: ['app_id', 'method']
+      }),
+      throttledCalls: new promClient.Counter({
+        name: 'field_elevate_throttled_calls',
+        help: 'Calls refused by rate limits (limit=rate) or daily quotas (limit=quota)',
+        labelNames: ['caller', 'app_id', 'method', 'limit']
       })
     };
 
@@ -46,6 +58,40 @@ export class HealthMonitor {
     promClient.register.registerMetric(this.metrics.apiLatency);
     promClient.register.registerMetric(this.metrics.contextUpdates);
     promClient.register.registerMetric(this.metrics.errorRate);
+    promClient.register.registerMetric(this.metrics.circuitState);
+    promClient.register.registerMetric(this.metrics.throttledCalls);
+
+    // Every routed call reports its latency and outcome, including health checks
+    this.appRegistry.on('call', (event: CallEvent) => {
+      this.metrics.apiLatency.observe(
+        { app_id: event.appId, method: event.method },
+        event.durationMs
+      );
+
+      if (event.status === 'failed') {
+        this.metrics.errorRate.inc({
+          app_id: event.appId,
+          error_type: event.errorType || 'unknown'
+        });
+      }
+    });
+
+    this.appRegistry.on('circuit', (event: CircuitEvent) => {
+      this.metrics.circuitState.set(
+        { app_id: event.appId, method: event.method },
+        event.state === 'open' ? 1 : event.state === 'half-open' ? 0.5 : 0
+      );
+    });
+
+    // Throttled calls never reach the app, so they aren't counted as errors
+    this.appRegistry.on('throttled', (event: ThrottleEvent) => {
+      this.metrics.throttledCalls.inc({
+        caller: event.caller,
+        app_id: event.appId,
+        method: event.method,
+        limit: event.limit
+      });
+    });
   }
 
   async start() {
@@ -83,14 +129,14 @@ export class HealthMonitor {
         // Update metrics
         this.metrics.appHealth.set(
           { app_id: app.id, app_name: app.name },
-          health.status === 'online' ? 1 : 0
-        );
-        
-        this.metrics.apiLatency.observe(
-          { app_id: app.id, method: 'health_check' },
-          duration
+          health.status === 'online' ? 1 : health.status === 'degraded' ? 0.5 : 0
         );
 
+        // A successful probe proves liveness as well as a heartbeat does
+        if (health.status !== 'offline') {
+          await this.appRegistry.renewLease(app.id);
+        }
+
         // Update app status
         await this.appRegistry.updateAppStatus(app.id, health.status);
         
@@ -123,7 +169,8 @@ export class HealthMonitor {
       const response = await this.appRegistry.callApp(appId, 'health', {});
       
       return {
-        status: 'online' as const,
+        // Reachable, but some of its methods are failing fast behind open breakers
+        status: this.appRegistry.hasOpenCircuits(appId) ? 'degraded' as const : 'online' as const,
         details: response,
         previousStatus: this.appRegistry.getApp(appId)?.status
       };
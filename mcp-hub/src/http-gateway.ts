@@ -0,0 +1,721 @@
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { RedisManager } from './redis-manager.js';
+import { AppRegistry } from './app-registry.js';
+import { ContextManager } from './context-manager.js';
+import { UpdateChannel } from './update-channel.js';
+import { ToolCatalog } from './tool-catalog.js';
+import { StreamConsumer } from './stream-consumer.js';
+import { ApprovalManager } from './approval-manager.js';
+import { StreamWriters } from './stream-writers.js';
+import { logger } from './utils/logger.js';
+import { tracer } from './utils/tracer.js';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  IdempotencyError,
+  RateLimitError,
+  ValidationError
+} from '../../shared/utils/error-handling.js';
+import { SIGNATURE_HEADERS } from '../../shared/utils/request-signing.js';
+import { Span, SpanAttributes, TRACEPARENT_HEADER, parseTraceparent } from '../../shared/utils/tracing.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Body exactly as received, covered by the request signature
+    rawBody?: string;
+    // App that signed the request
+    appId?: string;
+  }
+}
+
+// Request bodies sent by MCPClient (replit-app-template/mcp-client.ts)
+const RegisterSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  url: z.string().url(),
+  type: z.enum(['replit', 'docker', 'external']),
+  capabilities: z.array(z.string()).default([]),
+  version: z.string().default('1.0.0'),
+  // Set by each of several instances of one app, e.g. data-hub-2 runs data-hub
+  service: z.string().min(1).optional()
+});
+
+const HeartbeatSchema = z.object({
+  appId: z.string().min(1),
+  status: z.string().optional(),
+  timestamp: z.string().optional()
+});
+
+const MethodRegisterSchema = z.object({
+  appId: z.string().min(1),
+  method: z.string().min(1),
+  schema: z.any()
+});
+
+const CallSchema = z.object({
+  from: z.string().min(1),
+  // An app or service id, or else a capability any instance can serve
+  to: z.string().min(1).optional(),
+  capability: z.string().min(1).optional(),
+  // Semver range the capability's provider must satisfy
+  version: z.string().min(1).optional(),
+  method: z.string().min(1),
+  params: z.any(),
+  // Dry run: side-effecting methods are simulated and write to shadow contexts
+  simulation: z.boolean().optional(),
+  // Retries with the same key get the stored response instead of running again
+  idempotency_key: z.string().min(1).max(200).optional()
+}).refine(body => Boolean(body.to) !== Boolean(body.capability), {
+  message: 'Expected either to or capability'
+});
+
+const ContextUpdateSchema = z.object({
+  appId: z.string().min(1),
+  type: z.string().min(1),
+  data: z.any(),
+  expectedVersion: z.number().int().nonnegative().optional(),
+  mode: z.enum(['replace', 'merge', 'patch']).default('replace'),
+  ttl: z.number().int().positive().optional()
+}).refine(body => body.mode !== 'patch' || Array.isArray(body.data), {
+  message: 'patch mode expects data to be a list of JSON patch operations',
+  path: ['data']
+});
+
+const HistoryQuerySchema = z.object({
+  type: z.string().min(1),
+  limit: z.coerce.number().int().positive().max(500).default(20)
+});
+
+const AtQuerySchema = z.object({
+  type: z.string().min(1),
+  // ISO date or epoch milliseconds
+  timestamp: z.string().min(1).transform(value => /^\d+$/.test(value) ? Number(value) : value)
+    .refine(value => !isNaN(new Date(value).getTime()), 'Invalid timestamp')
+});
+
+const VersionQuerySchema = z.object({
+  type: z.string().min(1),
+  version: z.coerce.number().int().positive()
+});
+
+const DiffQuerySchema = z.object({
+  type: z.string().min(1),
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive().optional()
+});
+
+const StreamSchema = z.object({
+  appId: z.string().min(1),
+  stream: z.string().min(1),
+  data: z.record(z.any())
+});
+
+// Consumer group reads; group defaults to the caller's service, so its instances split the entries
+const StreamReadSchema = z.object({
+  appId: z.string().min(1),
+  stream: z.string().min(1),
+  group: z.string().min(1).optional(),
+  // Instance name within the group; defaults to the app id
+  consumer: z.string().min(1).optional(),
+  count: z.number().int().positive().max(500).default(10),
+  // Kept well below the client's request timeout; 0 returns at once
+  blockMs: z.number().int().nonnegative().max(10000).default(5000)
+});
+
+const StreamAckSchema = z.object({
+  appId: z.string().min(1),
+  stream: z.string().min(1),
+  group: z.string().min(1).optional(),
+  ids: z.array(z.string().min(1)).default([]),
+  // Entries the app could not process; retried later or dead-lettered
+  failed: z.array(z.object({ id: z.string().min(1), reason: z.string().default('Processing failed') })).default([])
+});
+
+// Actions are namespaced by the requesting app: `<appId>.<action>`
+const ApprovalRequestSchema = z.object({
+  appId: z.string().min(1),
+  action: z.string().min(1),
+  summary: z.string().optional(),
+  details: z.record(z.any()).default({}),
+  idempotency_key: z.string().min(1).optional()
+});
+
+const ApprovalDecisionSchema = z.object({
+  appId: z.string().min(1),
+  decision: z.enum(['approve', 'reject', 'modify']),
+  // The person deciding, not the app relaying the decision
+  decided_by: z.string().min(1),
+  reason: z.string().optional(),
+  modifications: z.record(z.any()).optional()
+}).refine(body => body.decision !== 'modify' || body.modifications, {
+  message: 'modify expects the modified details',
+  path: ['modifications']
+});
+
+const AuditQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(1000).default(100)
+});
+
+const DisconnectSchema = z.object({
+  appId: z.string().min(1)
+});
+
+const RotateSchema = z.object({
+  appId: z.string().min(1).optional(),
+  graceSeconds: z.number().int().nonnegative().default(600),
+  // Drop the credential entirely so the app has to bootstrap again
+  revoke: z.boolean().default(false)
+});
+
+export class HttpGateway {
+  readonly app: FastifyInstance;
+  // Keyed by `<stream>|<group>`, so each group is created once
+  private consumers: Map<string, StreamConsumer> = new Map();
+
+  constructor(
+    private redis: RedisManager,
+    private appRegistry: AppRegistry,
+    private contextManager: ContextManager,
+    private updates: UpdateChannel,
+    private toolCatalog: ToolCatalog,
+    readonly approvals: ApprovalManager = new ApprovalManager(redis, updates),
+    readonly streams: StreamWriters = new StreamWriters()
+  ) {
+    this.app = Fastify({ logger: false });
+
+    // Keep the raw body around; signatures are computed over the exact bytes sent
+    this.app.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+      request.rawBody = body as string;
+      try {
+        done(null, body ? JSON.parse(body as string) : {});
+      } catch (error: any) {
+        error.statusCode = 400;
+        done(error, undefined);
+      }
+    });
+
+    this.app.addHook('preHandler', async (request, reply) => this.authenticate(request, reply));
+    this.app.setErrorHandler((error, request, reply) => {
+      if (error instanceof AuthorizationError) {
+        return reply.status(403).send({ error: error.message, code: error.code });
+      }
+
+      if (error instanceof ConflictError) {
+        return reply.status(409).send({
+          error: error.message,
+          code: error.code,
+          expected_version: error.expectedVersion,
+          current_version: error.currentVersion,
+          current: error.current
+        });
+      }
+
+      if (error instanceof IdempotencyError) {
+        return reply
+          .status(error.reason === 'mismatch' ? 422 : 409)
+          .send({ error: error.message, code: error.code, idempotency_key: error.idempotencyKey });
+      }
+
+      if (error instanceof RateLimitError) {
+        return reply
+          .status(429)
+          .header('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)))
+          .send({ error: error.message, code: error.code, limit: error.limit, retry_after_ms: error.retryAfterMs });
+      }
+
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({ error: error.message, code: error.code, details: error.validationErrors });
+      }
+
+      logger.error(`Gateway request failed: ${request.method} ${request.url}`, error);
+      reply.status(error.statusCode || 500).send({ error: error.message });
+    });
+    this.registerRoutes();
+    this.registerAuthRoutes();
+    this.registerApprovalRoutes();
+  }
+
+  async start(port = Number(process.env.MCP_HUB_PORT) || 8080, host = '0.0.0.0') {
+    await this.updates.start();
+    await this.app.listen({ port, host });
+    logger.info(`MCP Hub HTTP gateway listening on ${host}:${port}`);
+  }
+
+  async stop() {
+    this.updates.stop();
+    await this.app.close();
+  }
+
+  // Every request must be signed with the app's credential, except the first
+  // registration of an app, which presents the shared bootstrap token instead
+  private async authenticate(request: FastifyRequest, reply: FastifyReply) {
+    const credentials = this.appRegistry.credentials;
+    const appId = request.headers[SIGNATURE_HEADERS.appId] as string | undefined;
+    const keyId = request.headers[SIGNATURE_HEADERS.keyId] as string | undefined;
+    const path = request.url.split('?')[0];
+
+    if (!keyId && path === '/register' && request.method === 'POST') {
+      const id = (request.body as any)?.id;
+
+      if (!process.env.MCP_AUTH_TOKEN || request.headers['x-mcp-token'] !== process.env.MCP_AUTH_TOKEN) {
+        return reply.status(401).send({ error: 'Unauthorized' });
+      }
+
+      if (typeof id === 'string' && credentials.has(id)) {
+        return reply.status(401).send({ error: `App ${id} already holds a credential; sign the registration with it` });
+      }
+
+      request.appId = id;
+      return;
+    }
+
+    if (!appId || !keyId) {
+      return reply.status(401).send({ error: 'Unauthorized' });
+    }
+
+    try {
+      await credentials.verify(appId, keyId, request.headers, {
+        method: request.method,
+        path: request.url,
+        body: request.rawBody
+      });
+      request.appId = appId;
+    } catch (error: any) {
+      if (error instanceof AuthenticationError) {
+        logger.warn(`Rejected request from ${appId} to ${path}: ${error.message}`);
+        return reply.status(401).send({ error: error.message });
+      }
+      throw error;
+    }
+  }
+
+  // Apps may only act under their own ID
+  private isCaller(request: FastifyRequest, reply: FastifyReply, appId: string): boolean {
+    if (request.appId !== appId) {
+      reply.status(403).send({ error: `Authenticated as ${request.appId}, not ${appId}` });
+      return false;
+    }
+
+    return true;
+  }
+
+  private registerRoutes() {
+    // App lifecycle
+    this.app.post('/register', async (request, reply) => {
+      const body = this.parse(RegisterSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.id)) return;
+
+      const bootstrap = !this.appRegistry.credentials.has(body.id);
+
+      // Rejects incompatible versions before a key is handed out
+      await this.appRegistry.registerApp({
+        ...body,
+        status: 'online',
+        lastSeen: new Date()
+      });
+
+      // Trust on first use: the bootstrap registration receives the app's key
+      const credential = bootstrap ? await this.appRegistry.credentials.issue(body.id) : undefined;
+
+      return { success: true, app: this.appRegistry.getApp(body.id), credential };
+    });
+
+    this.app.post('/heartbeat', async (request, reply) => {
+      const body = this.parse(HeartbeatSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      const app = await this.appRegistry.renewLease(body.appId);
+      if (!app) {
+        return reply.status(404).send({ error: `App not found: ${body.appId}` });
+      }
+
+      return {
+        success: true,
+        status: app.status,
+        lastSeen: app.lastSeen,
+        // Present after a rotation until the app signs with the new key
+        credential: this.appRegistry.credentials.getPending(body.appId)
+      };
+    });
+
+    this.app.post('/disconnect', async (request, reply) => {
+      const body = this.parse(DisconnectSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      await this.appRegistry.updateAppStatus(body.appId, 'offline');
+
+      return { success: true };
+    });
+
+    // Method exposure and app-to-app calls
+    this.app.post('/methods/register', async (request, reply) => {
+      const body = this.parse(MethodRegisterSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      const service = this.appRegistry.serviceOf(body.appId);
+      const exposed = await this.toolCatalog.registerMethod(service, body.method, body.schema);
+
+      return { success: true, tool: this.toolCatalog.toolName(exposed.appId, exposed.method) };
+    });
+
+    this.app.get('/methods', async (request) => {
+      const { appId } = request.query as { appId?: string };
+      return { methods: this.toolCatalog.getMethods(appId) };
+    });
+
+    this.app.post('/call', async (request, reply) => {
+      const body = this.parse(CallSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.from)) return;
+
+      // Scopes, rate limits and idempotency keys apply to the service, whichever instance calls
+      const caller = this.appRegistry.serviceOf(body.from);
+      const metadata = { simulation: body.simulation, idempotencyKey: body.idempotency_key };
+
+      if (body.to) {
+        // Check scopes first so callers can't probe which apps are registered
+        this.appRegistry.scopes.authorize(caller, this.appRegistry.serviceOf(body.to), body.method);
+
+        if (this.appRegistry.getInstances(body.to).length === 0) {
+          return reply.status(404).send({ error: `App not found: ${body.to}` });
+        }
+      } else if (this.appRegistry.getProviders(body.capability!, { version: body.version }).length === 0) {
+        const range = body.version ? ` ${body.version}` : '';
+        return reply.status(404).send({ error: `No app provides ${body.capability}${range}` });
+      }
+
+      logger.debug(`Routing call ${body.from} -> ${body.to || body.capability}.${body.method}`);
+
+      try {
+        return await this.traced(request, `route ${body.to || body.capability}.${body.method}`, {
+          caller: body.from,
+          'app.method': body.method
+        }, () => body.to
+          ? this.appRegistry.callService(body.to, body.method, body.params ?? {}, caller, metadata)
+          : this.appRegistry.callCapability(body.capability!, body.method, body.params ?? {}, caller, metadata, {
+            version: body.version
+          }));
+      } catch (error: any) {
+        // Relay the target app's own error response, e.g. structured validation errors
+        if (error.response) {
+          return reply.status(error.response.status).send(error.response.data);
+        }
+        throw error;
+      }
+    });
+
+    // Shared context
+    this.app.post('/context/update', async (request, reply) => {
+      const body = this.parse(ContextUpdateSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      const context = await this.traced(request, `update context ${body.type}`, { writer: body.appId }, () =>
+        this.contextManager.updateContext(body.type, body.data, {
+          expectedVersion: body.expectedVersion,
+          mode: body.mode,
+          ttl: body.ttl,
+          // Context types are owned by services, e.g. data-hub-2 writes market_data as data-hub
+          writer: this.appRegistry.serviceOf(body.appId)
+        })
+      );
+
+      return { success: true, type: body.type, version: context.version };
+    });
+
+    this.app.get('/context', async (request) => {
+      const { type } = request.query as { type?: string };
+
+      if (type) {
+        return await this.contextManager.getContext(type);
+      }
+
+      return await this.contextManager.getAllContexts();
+    });
+
+    this.app.get('/context/types', async () => {
+      const types = this.contextManager.types.list().map(({ type, description, owners, ttl, retentionDays }) => ({
+        type,
+        description,
+        owners,
+        ttl,
+        retention_days: retentionDays
+      }));
+
+      return { types };
+    });
+
+    // Context history: payloads of past versions, point-in-time reads and diffs
+    this.app.get('/context/history', async (request, reply) => {
+      const query = this.parse(HistoryQuerySchema, request.query, reply, 'query');
+      if (!query) return;
+
+      return { type: query.type, versions: await this.contextManager.getContextHistory(query.type, query.limit) };
+    });
+
+    this.app.get('/context/at', async (request, reply) => {
+      const query = this.parse(AtQuerySchema, request.query, reply, 'query');
+      if (!query) return;
+
+      const context = await this.contextManager.getContextAt(query.type, query.timestamp);
+      if (!context) {
+        return reply.status(404).send({ error: `No ${query.type} context at ${query.timestamp}` });
+      }
+
+      return context;
+    });
+
+    this.app.get('/context/version', async (request, reply) => {
+      const query = this.parse(VersionQuerySchema, request.query, reply, 'query');
+      if (!query) return;
+
+      const context = await this.contextManager.getContextVersion(query.type, query.version);
+      if (!context) {
+        return reply.status(404).send({ error: `Version ${query.version} of ${query.type} not found` });
+      }
+
+      return context;
+    });
+
+    this.app.get('/context/diff', async (request, reply) => {
+      const query = this.parse(DiffQuerySchema, request.query, reply, 'query');
+      if (!query) return;
+
+      const diff = await this.contextManager.diffContext(query.type, query.from, query.to);
+      if (!diff) {
+        return reply.status(404).send({ error: `Versions not found for ${query.type}` });
+      }
+
+      return diff;
+    });
+
+    // Streams and updates
+    this.app.post('/stream', async (request, reply) => {
+      const body = this.parse(StreamSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      // Hub streams such as hub:updates are replayed as trusted, so apps can't forge entries on them
+      this.streams.authorize(this.appRegistry.serviceOf(body.appId), body.stream);
+
+      // The entry carries this span's context to the stream's consumers
+      const id = await this.traced(request, `stream ${body.stream}`, { source_app: body.appId }, () =>
+        this.redis.addToStream(body.stream, {
+          ...body.data,
+          source_app: body.appId
+        })
+      );
+
+      return { success: true, id };
+    });
+
+    // Consumer groups: instances of an app share a group and split the entries
+    this.app.post('/stream/read', async (request, reply) => {
+      const body = this.parse(StreamReadSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      const consumer = this.getConsumer(body.stream, this.groupFor(body.appId, body.group));
+      const entries = await consumer.poll(body.consumer || body.appId, body.blockMs, body.count);
+
+      return { entries };
+    });
+
+    this.app.post('/stream/ack', async (request, reply) => {
+      const body = this.parse(StreamAckSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      const consumer = this.getConsumer(body.stream, this.groupFor(body.appId, body.group));
+      const acknowledged = await consumer.ack(body.ids);
+      const deadLettered: string[] = [];
+
+      for (const { id, reason } of body.failed) {
+        if (await consumer.fail(id, reason)) {
+          deadLettered.push(id);
+        }
+      }
+
+      return { acknowledged, dead_lettered: deadLettered };
+    });
+
+    // Server-Sent Events push channel; resumes after Last-Event-ID on reconnect
+    this.app.get('/events/:appId', async (request, reply) => {
+      const { appId } = request.params as { appId: string };
+      const { types, last_event_id } = request.query as { types?: string; last_event_id?: string };
+      const lastEventId = (request.headers['last-event-id'] as string | undefined) || last_event_id;
+
+      if (!this.isCaller(request, reply, appId)) return;
+
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+
+      await this.updates.attach(appId, reply.raw, {
+        contextTypes: types ? types.split(',') : undefined,
+        lastEventId
+      });
+    });
+
+    // Catch-up read for apps that cannot hold a stream open
+    this.app.get('/updates/:appId', async (request, reply) => {
+      const { appId } = request.params as { appId: string };
+      const { since, types } = request.query as { since?: string; types?: string };
+
+      if (!this.isCaller(request, reply, appId)) return;
+
+      if (!since) {
+        return { updates: [], last_event_id: await this.updates.getLatestEventId() };
+      }
+
+      const entries = await this.updates.readSince(since);
+      const filter = { contextTypes: types ? new Set(types.split(',')) : null };
+
+      return {
+        updates: entries
+          .filter(entry => this.updates.matches(filter, entry.event))
+          .map(entry => ({ id: entry.id, ...entry.event })),
+        last_event_id: entries.length > 0 ? entries[entries.length - 1].id : since
+      };
+    });
+  }
+
+  private registerAuthRoutes() {
+    // Issues new keys; each app picks its key up from the next heartbeat response
+    this.app.post('/auth/rotate', async (request, reply) => {
+      const body = this.parse(RotateSchema, request.body, reply);
+      if (!body) return;
+
+      const credentials = this.appRegistry.credentials;
+      this.appRegistry.scopes.authorize(this.appRegistry.serviceOf(request.appId!), 'mcp-hub', 'rotate_keys');
+
+      const targets = body.appId ? [body.appId] : credentials.getAppIds();
+      if (body.appId && !credentials.has(body.appId)) {
+        return reply.status(404).send({ error: `No credential for ${body.appId}` });
+      }
+
+      const rotated = [];
+      for (const appId of targets) {
+        if (body.revoke) {
+          await credentials.revoke(appId);
+          rotated.push({ app_id: appId, revoked: true });
+        } else {
+          rotated.push({ app_id: appId, key_id: await credentials.rotate(appId, body.graceSeconds * 1000) });
+        }
+      }
+
+      logger.info(`Credentials ${body.revoke ? 'revoked' : 'rotated'} by ${request.appId} for ${targets.length} apps`);
+
+      return { success: true, rotated, grace_seconds: body.revoke ? 0 : body.graceSeconds };
+    });
+  }
+
+  private registerApprovalRoutes() {
+    this.app.post('/approvals', async (request, reply) => {
+      const body = this.parse(ApprovalRequestSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      // Policies are keyed by service, so every instance's requests fall under them
+      return await this.approvals.request({
+        action: `${this.appRegistry.serviceOf(body.appId)}.${body.action}`,
+        requestedBy: body.appId,
+        summary: body.summary,
+        details: body.details,
+        idempotencyKey: body.idempotency_key
+      });
+    });
+
+    this.app.get('/approvals', async () => {
+      return { approvals: await this.approvals.listPending() };
+    });
+
+    this.app.get('/approvals/audit', async (request, reply) => {
+      const query = this.parse(AuditQuerySchema, request.query, reply, 'query');
+      if (!query) return;
+
+      return { entries: await this.approvals.getAuditTrail(query.limit) };
+    });
+
+    this.app.get('/approvals/:id', async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const approval = await this.approvals.get(id);
+
+      if (!approval) {
+        return reply.status(404).send({ error: `Approval not found: ${id}` });
+      }
+
+      return approval;
+    });
+
+    this.app.post('/approvals/:id/decide', async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const body = this.parse(ApprovalDecisionSchema, request.body, reply);
+      if (!body || !this.isCaller(request, reply, body.appId)) return;
+
+      this.appRegistry.scopes.authorize(this.appRegistry.serviceOf(body.appId), 'mcp-hub', 'decide_approval');
+
+      const approval = await this.approvals.decide(id, {
+        decision: body.decision,
+        decidedBy: body.decided_by,
+        reason: body.reason,
+        modifications: body.modifications
+      });
+
+      if (!approval) {
+        return reply.status(404).send({ error: `Approval not found: ${id}` });
+      }
+
+      return approval;
+    });
+  }
+
+  // Groups belong to the caller's service, so one app can't read or acknowledge another's entries
+  private groupFor(appId: string, group?: string) {
+    const service = this.appRegistry.serviceOf(appId);
+    return `${service}:${group || service}`;
+  }
+
+  private getConsumer(stream: string, group: string) {
+    const key = `${stream}|${group}`;
+
+    if (!this.consumers.has(key)) {
+      this.consumers.set(key, new StreamConsumer(this.redis, { stream, group }));
+    }
+
+    return this.consumers.get(key)!;
+  }
+
+  // Continues the trace the caller sent, or starts one, for the length of fn
+  private async traced<T>(
+    request: FastifyRequest,
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    return await tracer.withSpan(name, {
+      kind: 'server',
+      parent: parseTraceparent(request.headers[TRACEPARENT_HEADER]),
+      attributes
+    }, fn);
+  }
+
+  private parse<T extends z.ZodTypeAny>(
+    schema: T,
+    body: unknown,
+    reply: FastifyReply,
+    source = 'request body'
+  ): z.infer<T> | null {
+    const result = schema.safeParse(body);
+
+    if (!result.success) {
+      reply.status(400).send({
+        error: `Invalid ${source}`,
+        details: result.error.issues
+      });
+      return null;
+    }
+
+    return result.data;
+  }
+}
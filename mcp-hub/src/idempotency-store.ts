@@ -0,0 +1,130 @@
+import { createHash } from 'crypto';
+import { RedisManager } from './redis-manager.js';
+import { logger } from './utils/logger.js';
+import { IdempotencyError } from '../../shared/utils/error-handling.js';
+
+// What a key was first used for; a different request under the same key is refused
+export interface IdempotentRequest {
+  target: string;
+  method: string;
+  params: any;
+  simulation?: boolean;
+}
+
+interface IdempotencyRecord {
+  version: number;
+  status: 'pending' | 'completed' | 'failed';
+  fingerprint: string;
+  response?: any;
+  updated_at: string;
+}
+
+const KEY_PREFIX = 'idempotency:';
+// Held while the first request runs; long enough for the slowest policy with retries,
+// short enough that a hub dying mid-call doesn't lock the key for the whole TTL
+const PENDING_TTL_SECONDS = 300;
+
+/**
+ * Remembers the response to each call made with an idempotency key, so a
+ * retried call returns it instead of running again. Keys are scoped to the
+ * caller and kept for MCP_IDEMPOTENCY_TTL_SECONDS (a day by default). Failed
+ * calls are not remembered: the key can be retried, and the app receives it
+ * as `Idempotency-Key` to guard against a failure that came after the work.
+ */
+export class IdempotencyStore {
+  constructor(
+    private redis: RedisManager,
+    readonly ttlSeconds = Number(process.env.MCP_IDEMPOTENCY_TTL_SECONDS || 86400)
+  ) {}
+
+  async run<T>(caller: string, key: string, request: IdempotentRequest, execute: () => Promise<T>): Promise<T> {
+    const storeKey = `${KEY_PREFIX}${caller}:${key}`;
+    const fingerprint = this.fingerprint(request);
+    let current: IdempotencyRecord | null = await this.redis.get(storeKey);
+
+    // Claim the key, unless an earlier request already holds or answered it
+    for (;;) {
+      if (current && current.fingerprint !== fingerprint) {
+        throw new IdempotencyError(
+          `Idempotency key ${key} was already used for a different request`,
+          key,
+          'mismatch',
+          { caller, target: request.target, method: request.method }
+        );
+      }
+
+      if (current?.status === 'completed') {
+        logger.info(`Returning stored response for ${caller} idempotency key ${key}`);
+        return current.response;
+      }
+
+      if (current?.status === 'pending') {
+        throw new IdempotencyError(
+          `A request with idempotency key ${key} is still in progress`,
+          key,
+          'in_progress',
+          { caller, target: request.target, method: request.method }
+        );
+      }
+
+      const version = current?.version || 0;
+      const claim = await this.redis.compareAndSet(storeKey, {
+        version: version + 1,
+        status: 'pending',
+        fingerprint,
+        updated_at: new Date().toISOString()
+      } as IdempotencyRecord, version, PENDING_TTL_SECONDS);
+
+      if (claim.ok) {
+        current = { version: version + 1, status: 'pending', fingerprint, updated_at: '' };
+        break;
+      }
+
+      current = claim.current;
+    }
+
+    let response: T;
+    try {
+      response = await execute();
+    } catch (error) {
+      await this.finish(storeKey, current.version, { status: 'failed', fingerprint });
+      throw error;
+    }
+
+    await this.finish(storeKey, current.version, { status: 'completed', fingerprint, response });
+    return response;
+  }
+
+  // Only the holder of the claim writes the outcome
+  private async finish(storeKey: string, version: number, record: Omit<IdempotencyRecord, 'version' | 'updated_at'>) {
+    const result = await this.redis.compareAndSet(storeKey, {
+      ...record,
+      version: version + 1,
+      updated_at: new Date().toISOString()
+    }, version, this.ttlSeconds);
+
+    if (!result.ok) {
+      logger.warn(`Lost the claim on ${storeKey} before the call finished; its outcome is not stored`);
+    }
+  }
+
+  private fingerprint(request: IdempotentRequest) {
+    return createHash('sha256').update(canonicalJson({ ...request, simulation: Boolean(request.simulation) })).digest('hex');
+  }
+}
+
+// Key order doesn't change the fingerprint
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    const entries = Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
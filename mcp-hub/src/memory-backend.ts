@@ -0,0 +1,339 @@
+import { EventEmitter } from 'events';
+import type {
+  AutoClaimResult,
+  CompareAndSetResult,
+  PendingEntry,
+  StorageBackend,
+  StreamEntry,
+  StreamReadOptions,
+  StreamTrim
+} from './storage-backend.js';
+
+type StreamId = [number, number];
+
+interface PendingDelivery {
+  consumer: string;
+  deliveredAt: number;
+  deliveries: number;
+}
+
+interface ConsumerGroup {
+  lastDeliveredId: StreamId;
+  // Delivered but not yet acknowledged, keyed by entry ID
+  pending: Map<string, PendingDelivery>;
+}
+
+interface MemoryStream {
+  entries: StreamEntry[];
+  lastId: StreamId;
+  groups: Map<string, ConsumerGroup>;
+}
+
+/**
+ * In-process StorageBackend for local development and tests. Mirrors the
+ * Redis semantics the hub relies on: `<ms>-<seq>` stream IDs, blocking reads,
+ * key expiry, consumer groups with pending lists, and async pub/sub delivery.
+ */
+export class MemoryBackend implements StorageBackend {
+  private values: Map<string, { value: string; expiresAt?: number }> = new Map();
+  private hashes: Map<string, Map<string, string>> = new Map();
+  private streams: Map<string, MemoryStream> = new Map();
+  private channels = new EventEmitter();
+  // Wakes blocked readers when a stream gets a new entry
+  private appends = new EventEmitter();
+
+  constructor() {
+    this.channels.setMaxListeners(0);
+    this.appends.setMaxListeners(0);
+  }
+
+  async connect() {}
+
+  async disconnect() {
+    // Release blocked readers; the data stays for other users of the backend
+    this.appends.emit('disconnect');
+  }
+
+  async get(key: string) {
+    const entry = this.values.get(key);
+
+    if (!entry) return null;
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number) {
+    this.values.set(key, {
+      value,
+      expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined
+    });
+  }
+
+  async compareAndSet(key: string, value: string, expectedVersion: number, ttlSeconds?: number): Promise<CompareAndSetResult> {
+    const current = await this.get(key);
+    const version = current ? Number(JSON.parse(current).version) || 0 : 0;
+
+    if (version !== expectedVersion) {
+      return { ok: false, current };
+    }
+
+    await this.set(key, value, ttlSeconds);
+    return { ok: true };
+  }
+
+  async hSet(key: string, field: string, value: string) {
+    if (!this.hashes.has(key)) {
+      this.hashes.set(key, new Map());
+    }
+    this.hashes.get(key)!.set(field, value);
+  }
+
+  async hGet(key: string, field: string) {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  async hGetAll(key: string) {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  async hDel(key: string, field: string) {
+    const hash = this.hashes.get(key);
+
+    hash?.delete(field);
+    if (hash?.size === 0) {
+      this.hashes.delete(key);
+    }
+  }
+
+  async hLen(key: string) {
+    return this.hashes.get(key)?.size ?? 0;
+  }
+
+  async xAdd(key: string, fields: Record<string, string>, trim?: StreamTrim) {
+    const stream = this.getStream(key, true)!;
+    const now = Date.now();
+    const [lastMs, lastSeq] = stream.lastId;
+
+    // Same rule as Redis: IDs never go backwards, even if the clock does
+    stream.lastId = now > lastMs ? [now, 0] : [lastMs, lastSeq + 1];
+
+    const id = formatId(stream.lastId);
+    stream.entries.push({ id, message: { ...fields } });
+
+    if (trim?.strategy === 'MAXLEN' && stream.entries.length > trim.threshold) {
+      stream.entries.splice(0, stream.entries.length - trim.threshold);
+    }
+    if (trim?.strategy === 'MINID') {
+      const minId: StreamId = [trim.threshold, 0];
+      stream.entries = stream.entries.filter(entry => compareIds(parseId(entry.id), minId) >= 0);
+    }
+
+    this.appends.emit(key);
+    return id;
+  }
+
+  async xRead(key: string, lastId: string, options: StreamReadOptions = {}) {
+    // '$' means entries added after the call, so pin it before blocking
+    const after = lastId === '$' ? this.getStream(key)?.lastId ?? [0, 0] : parseId(lastId);
+
+    return await this.blockUntil(key, options.blockMs, () => {
+      const entries = (this.getStream(key)?.entries ?? [])
+        .filter(entry => compareIds(parseId(entry.id), after) > 0);
+      return limit(entries, options.count);
+    });
+  }
+
+  async xRange(key: string, start: string, end: string, count?: number) {
+    return limit(this.range(key, start, end), count);
+  }
+
+  async xRevRange(key: string, end: string, start: string, count?: number) {
+    return limit(this.range(key, start, end).reverse(), count);
+  }
+
+  async xGroupCreate(key: string, group: string, startId = '$') {
+    const stream = this.getStream(key, true)!;
+
+    if (!stream.groups.has(group)) {
+      stream.groups.set(group, {
+        lastDeliveredId: startId === '$' ? stream.lastId : parseId(startId),
+        pending: new Map()
+      });
+    }
+  }
+
+  async xReadGroup(key: string, group: string, consumer: string, options: StreamReadOptions = {}) {
+    const consumerGroup = this.getGroup(key, group);
+
+    return await this.blockUntil(key, options.blockMs, () => {
+      const entries = limit(
+        this.getStream(key)!.entries.filter(entry => compareIds(parseId(entry.id), consumerGroup.lastDeliveredId) > 0),
+        options.count
+      );
+
+      for (const entry of entries) {
+        consumerGroup.pending.set(entry.id, { consumer, deliveredAt: Date.now(), deliveries: 1 });
+        consumerGroup.lastDeliveredId = parseId(entry.id);
+      }
+
+      return entries;
+    });
+  }
+
+  async xAck(key: string, group: string, ids: string[]) {
+    const consumerGroup = this.getGroup(key, group);
+    return ids.filter(id => consumerGroup.pending.delete(id)).length;
+  }
+
+  async xPending(key: string, group: string, count = 100, start = '-', end = '+'): Promise<PendingEntry[]> {
+    const now = Date.now();
+    const lower = parseBound(start, 0);
+    const upper = parseBound(end, Number.MAX_SAFE_INTEGER);
+    const inRange = this.sortedPending(this.getGroup(key, group)).filter(([id]) =>
+      compareIds(parseId(id), lower.id) >= 0 && compareIds(parseId(id), upper.id) <= 0
+    );
+
+    return limit(inRange, count)
+      .map(([id, delivery]) => ({
+        id,
+        consumer: delivery.consumer,
+        idleMs: now - delivery.deliveredAt,
+        deliveries: delivery.deliveries
+      }));
+  }
+
+  async xAutoClaim(key: string, group: string, consumer: string, minIdleMs: number, start = '0-0', count = 100): Promise<AutoClaimResult> {
+    const consumerGroup = this.getGroup(key, group);
+    const entries = new Map(this.getStream(key)!.entries.map(entry => [entry.id, entry]));
+    const from = parseId(start);
+    const now = Date.now();
+    const claimed: StreamEntry[] = [];
+
+    const candidates = this.sortedPending(consumerGroup)
+      .filter(([id]) => compareIds(parseId(id), from) >= 0);
+
+    for (let i = 0; i < candidates.length; i++) {
+      if (claimed.length === count) {
+        return { nextId: candidates[i][0], entries: claimed };
+      }
+
+      const [id, delivery] = candidates[i];
+      if (now - delivery.deliveredAt < minIdleMs) continue;
+
+      const entry = entries.get(id);
+      if (!entry) {
+        // Trimmed or deleted entries can never be processed, so drop them like Redis 7
+        consumerGroup.pending.delete(id);
+        continue;
+      }
+
+      delivery.consumer = consumer;
+      delivery.deliveredAt = now;
+      delivery.deliveries++;
+      claimed.push(entry);
+    }
+
+    return { nextId: '0-0', entries: claimed };
+  }
+
+  async publish(channel: string, message: string) {
+    // Deliver asynchronously, as a Redis subscriber would see it
+    setImmediate(() => this.channels.emit(channel, message));
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void) {
+    this.channels.on(channel, listener);
+  }
+
+  private getStream(key: string, create = false): MemoryStream | undefined {
+    if (!this.streams.has(key) && create) {
+      this.streams.set(key, { entries: [], lastId: [0, 0], groups: new Map() });
+    }
+    return this.streams.get(key);
+  }
+
+  private getGroup(key: string, group: string): ConsumerGroup {
+    const consumerGroup = this.getStream(key)?.groups.get(group);
+
+    if (!consumerGroup) {
+      throw new Error(`NOGROUP No such key '${key}' or consumer group '${group}'`);
+    }
+
+    return consumerGroup;
+  }
+
+  private sortedPending(group: ConsumerGroup) {
+    return Array.from(group.pending.entries())
+      .sort(([a], [b]) => compareIds(parseId(a), parseId(b)));
+  }
+
+  // Inclusive unless a bound is prefixed with '('; bare timestamps cover the whole millisecond
+  private range(key: string, start: string, end: string) {
+    const lower = parseBound(start, 0);
+    const upper = parseBound(end, Number.MAX_SAFE_INTEGER);
+
+    return (this.getStream(key)?.entries ?? []).filter(entry => {
+      const id = parseId(entry.id);
+      const aboveLower = lower.exclusive ? compareIds(id, lower.id) > 0 : compareIds(id, lower.id) >= 0;
+      const belowUpper = upper.exclusive ? compareIds(id, upper.id) < 0 : compareIds(id, upper.id) <= 0;
+      return aboveLower && belowUpper;
+    });
+  }
+
+  // Runs read now; if it finds nothing and blockMs is set, retries on each append until the timeout
+  private async blockUntil(key: string, blockMs: number | undefined, read: () => StreamEntry[]) {
+    const entries = read();
+
+    if (entries.length || blockMs === undefined) {
+      return entries;
+    }
+
+    return await new Promise<StreamEntry[]>(resolve => {
+      const finish = (result: StreamEntry[]) => {
+        if (timer) clearTimeout(timer);
+        this.appends.off(key, onAppend);
+        this.appends.off('disconnect', onDisconnect);
+        resolve(result);
+      };
+      const onAppend = () => {
+        const result = read();
+        if (result.length) finish(result);
+      };
+      const onDisconnect = () => finish([]);
+      const timer = blockMs > 0 ? setTimeout(() => finish([]), blockMs) : null;
+
+      this.appends.on(key, onAppend);
+      this.appends.on('disconnect', onDisconnect);
+    });
+  }
+}
+
+function parseId(id: string, defaultSeq = 0): StreamId {
+  const [ms, seq] = id.split('-');
+  return [Number(ms), seq === undefined ? defaultSeq : Number(seq)];
+}
+
+function parseBound(bound: string, defaultSeq: number) {
+  if (bound === '-') return { id: [0, 0] as StreamId, exclusive: false };
+  if (bound === '+') return { id: [Infinity, Infinity] as StreamId, exclusive: false };
+
+  const exclusive = bound.startsWith('(');
+  return { id: parseId(exclusive ? bound.slice(1) : bound, defaultSeq), exclusive };
+}
+
+function formatId([ms, seq]: StreamId) {
+  return `${ms}-${seq}`;
+}
+
+function compareIds(a: StreamId, b: StreamId) {
+  return a[0] - b[0] || a[1] - b[1];
+}
+
+function limit<T>(items: T[], count?: number) {
+  return count === undefined ? items : items.slice(0, count);
+}
@@ -0,0 +1,51 @@
+import { logger } from './utils/logger.js';
+import { PatternRules, loadJsonEnv } from './pattern-rules.js';
+import { AuthorizationError } from '../../shared/utils/error-handling.js';
+
+const DEFAULT_SCOPES: Array<[string, string[] | null]> = [
+  // Anything that moves money or halts trading; reads stay open
+  ['trade-runner.*', ['ai-coo', 'ops-console']],
+  ['trade-runner.get_*', null],
+  ['trade-runner.health', null],
+  ['*.update_config', ['ops-console']],
+  // ops-console validates config changes before applying them to the target app
+  ['ops-console.update_config', ['ai-coo']],
+  // The hub's execute_strategy tool trades only after its own approval and risk checks
+  ['trade-runner.execute', ['ai-coo', 'mcp-hub']],
+  ['trade-runner.executeRebalance', ['ai-coo']],
+  ['trade-runner.emergency_stop', ['ai-coo', 'ops-console']],
+  // Hub administration
+  ['mcp-hub.rotate_keys', ['ops-console']],
+  // Approvals are decided by people working in the ops console
+  ['mcp-hub.decide_approval', ['ops-console']]
+];
+
+/**
+ * Which callers may invoke which `<appId>.<method>` scopes. Methods without a
+ * matching pattern, or whose last match is null, are open to every
+ * authenticated app. Extra rules can be supplied as JSON in
+ * MCP_METHOD_SCOPES, e.g. {"signal-forge.*": ["ai-coo"]}.
+ */
+export class MethodScopes {
+  private rules = new PatternRules<string[] | null>(DEFAULT_SCOPES);
+
+  constructor() {
+    loadJsonEnv('MCP_METHOD_SCOPES', (pattern, callers) => this.set(pattern, callers));
+  }
+
+  set(pattern: string, callers: string[] | null) {
+    this.rules.set(pattern, callers);
+  }
+
+  isAllowed(caller: string, appId: string, method: string): boolean {
+    const allowed = this.rules.resolve(`${appId}.${method}`);
+    return !allowed || allowed.includes(caller);
+  }
+
+  authorize(caller: string, appId: string, method: string) {
+    if (!this.isAllowed(caller, appId, method)) {
+      logger.warn(`Denied ${caller} -> ${appId}.${method}`);
+      throw new AuthorizationError(caller, `${appId}.${method}`);
+    }
+  }
+}
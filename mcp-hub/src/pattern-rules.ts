@@ -0,0 +1,49 @@
+import { logger } from './utils/logger.js';
+
+/**
+ * Values addressed by patterns such as `trade-runner.*`, where `*` matches
+ * any run of characters. Rules are kept in the order they are set, general
+ * ones first, so a later, more specific pattern overrides an earlier one.
+ */
+export class PatternRules<T> {
+  private rules: Array<[RegExp, T]> = [];
+
+  constructor(defaults: Array<[string, T]> = []) {
+    for (const [pattern, value] of defaults) {
+      this.set(pattern, value);
+    }
+  }
+
+  set(pattern: string, value: T) {
+    this.rules.push([compile(pattern), value]);
+  }
+
+  // Values of every matching rule, in the order they were set
+  matches(target: string): T[] {
+    return this.rules.filter(([matcher]) => matcher.test(target)).map(([, value]) => value);
+  }
+
+  // Value of the last matching rule
+  resolve(target: string): T | undefined {
+    return this.matches(target).pop();
+  }
+}
+
+// Passes each entry of a JSON object in the environment variable to `apply`;
+// a malformed value is logged and ignored rather than stopping the hub
+export function loadJsonEnv(name: string, apply: (key: string, value: any) => void) {
+  if (!process.env[name]) return;
+
+  try {
+    for (const [key, value] of Object.entries(JSON.parse(process.env[name]!))) {
+      apply(key, value);
+    }
+  } catch (error) {
+    logger.error(`Ignoring invalid ${name}`, error);
+  }
+}
+
+function compile(pattern: string) {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
@@ -0,0 +1,185 @@
+import { RedisManager } from './redis-manager.js';
+import { PatternRules, loadJsonEnv } from './pattern-rules.js';
+import { logger } from './utils/logger.js';
+import { RateLimitError } from '../../shared/utils/error-handling.js';
+
+export interface RateLimit {
+  // Sustained rate the bucket refills at
+  perMinute: number;
+  // Calls allowed back to back after a quiet spell; defaults to perMinute
+  burst?: number;
+  // Calls allowed per UTC day
+  perDay?: number;
+}
+
+// Stored per caller, target and method, shared by every hub instance
+interface BucketState {
+  version: number;
+  tokens: number;
+  refilled_at: number;
+  day: string;
+  used_today: number;
+}
+
+export interface RateLimitStatus {
+  remaining: number;
+  // Absent when the method has no daily quota
+  remainingToday?: number;
+}
+
+// Patterns may be prefixed with `<caller>:` to limit one caller only
+const DEFAULT_LIMITS: Array<[string, RateLimit | null]> = [
+  ['*', { perMinute: 600, burst: 100 }],
+  // Health probes come from the hub itself and must never be throttled
+  ['*.health', null],
+  ['signal-forge.rank_strategies', { perMinute: 30, burst: 10, perDay: 5000 }]
+];
+
+const KEY_PREFIX = 'ratelimit:';
+// Outlives a full day of quota, and lets idle buckets expire
+const BUCKET_TTL_SECONDS = 2 * 24 * 60 * 60;
+// Writes lost to other hub instances before giving up on a call
+const MAX_ATTEMPTS = 10;
+const CONTENDED_RETRY_MS = 100;
+
+/**
+ * Token-bucket rate limits and daily quotas for calls through the hub, keyed by
+ * caller, target service and method. Rules address `<appId>.<method>` patterns
+ * where `*` matches any run of characters; a null rule exempts the method.
+ * Extra rules can be supplied as JSON in MCP_RATE_LIMITS, e.g.
+ * {"ai-coo:signal-forge.*": {"perMinute": 120, "perDay": 20000}}.
+ */
+export class RateLimiter {
+  private rules = new PatternRules<RateLimit | null>();
+  // Keeps this instance's own calls from racing each other for the same bucket
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private redis: RedisManager) {
+    for (const [pattern, limit] of DEFAULT_LIMITS) {
+      this.set(pattern, limit);
+    }
+
+    loadJsonEnv('MCP_RATE_LIMITS', (pattern, limit) => this.set(pattern, limit));
+  }
+
+  set(pattern: string, limit: RateLimit | null) {
+    this.rules.set(pattern.includes(':') ? pattern : `*:${pattern}`, limit);
+  }
+
+  resolve(caller: string, appId: string, method: string): RateLimit | null {
+    return this.rules.resolve(`${caller}:${appId}.${method}`) ?? null;
+  }
+
+  // Takes one call from the bucket, or throws RateLimitError saying when to try again.
+  // Returns null for exempt methods.
+  async acquire(caller: string, appId: string, method: string): Promise<RateLimitStatus | null> {
+    const limit = this.resolve(caller, appId, method);
+    if (!limit) return null;
+
+    const key = `${KEY_PREFIX}${caller}:${appId}.${method}`;
+    return await this.queued(key, () => this.take(key, limit, caller, appId, method));
+  }
+
+  // Gives a failed call's share of the daily quota back. Its token stays spent:
+  // the rate protects the app, which handled the call either way.
+  async refund(caller: string, appId: string, method: string) {
+    const limit = this.resolve(caller, appId, method);
+    if (limit?.perDay === undefined) return;
+
+    const key = `${KEY_PREFIX}${caller}:${appId}.${method}`;
+    await this.queued(key, () => this.giveBack(key));
+  }
+
+  private async queued<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    const attempt = previous.catch(() => {}).then(fn);
+
+    this.queues.set(key, attempt);
+    try {
+      return await attempt;
+    } finally {
+      if (this.queues.get(key) === attempt) {
+        this.queues.delete(key);
+      }
+    }
+  }
+
+  private async take(key: string, limit: RateLimit, caller: string, appId: string, method: string): Promise<RateLimitStatus> {
+    const burst = limit.burst ?? limit.perMinute;
+    const refillPerMs = limit.perMinute / 60000;
+    let stored: BucketState | null = await this.redis.get(key);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const day = new Date(now).toISOString().slice(0, 10);
+      const state = stored || { version: 0, tokens: burst, refilled_at: now, day, used_today: 0 };
+
+      const tokens = Math.min(burst, state.tokens + Math.max(0, now - state.refilled_at) * refillPerMs);
+      const usedToday = state.day === day ? state.used_today : 0;
+      const scope = `${appId}.${method}`;
+
+      if (limit.perDay !== undefined && usedToday >= limit.perDay) {
+        const midnight = Date.parse(`${day}T00:00:00.000Z`) + 24 * 60 * 60 * 1000;
+        throw new RateLimitError(
+          `${caller} has used its daily quota of ${limit.perDay} calls to ${scope}`,
+          'quota',
+          midnight - now,
+          { caller, appId, method }
+        );
+      }
+
+      if (tokens < 1) {
+        throw new RateLimitError(
+          `${caller} is calling ${scope} faster than ${limit.perMinute} per minute`,
+          'rate',
+          Math.ceil((1 - tokens) / refillPerMs),
+          { caller, appId, method }
+        );
+      }
+
+      const next: BucketState = {
+        version: state.version + 1,
+        tokens: tokens - 1,
+        refilled_at: now,
+        day,
+        used_today: usedToday + 1
+      };
+
+      const result = await this.redis.compareAndSet(key, next, state.version, BUCKET_TTL_SECONDS);
+
+      if (result.ok) {
+        return {
+          remaining: Math.floor(next.tokens),
+          remainingToday: limit.perDay === undefined ? undefined : limit.perDay - next.used_today
+        };
+      }
+
+      // Another hub instance took a token first; start again from its write
+      stored = result.current;
+    }
+
+    throw new RateLimitError(
+      `Rate limit for ${caller} calling ${appId}.${method} is too contended`,
+      'rate',
+      CONTENDED_RETRY_MS,
+      { caller, appId, method }
+    );
+  }
+
+  private async giveBack(key: string) {
+    let stored: BucketState | null = await this.redis.get(key);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      // Nothing to give back once the day the call was counted on is over
+      if (!stored || stored.day !== new Date().toISOString().slice(0, 10) || stored.used_today === 0) return;
+
+      const next = { ...stored, version: stored.version + 1, used_today: stored.used_today - 1 };
+      const result = await this.redis.compareAndSet(key, next, stored.version, BUCKET_TTL_SECONDS);
+      if (result.ok) return;
+
+      stored = result.current;
+    }
+
+    logger.warn(`Could not refund ${key}: too contended`);
+  }
+}
@@ -0,0 +1,191 @@
+import { commandOptions, createClient, RedisClientType } from 'redis';
+import { logger } from './utils/logger.js';
+import type {
+  AutoClaimResult,
+  CompareAndSetResult,
+  PendingEntry,
+  StorageBackend,
+  StreamEntry,
+  StreamReadOptions,
+  StreamTrim
+} from './storage-backend.js';
+
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local version = 0
+if current then
+  version = tonumber(cjson.decode(current).version) or 0
+end
+if version ~= tonumber(ARGV[1]) then
+  return {0, current}
+end
+if tonumber(ARGV[3]) > 0 then
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+else
+  redis.call('SET', KEYS[1], ARGV[2])
+end
+return {1}
+`;
+
+export class RedisBackend implements StorageBackend {
+  private client: RedisClientType;
+  private subscriber: RedisClientType;
+  private publisher: RedisClientType;
+
+  constructor(url: string) {
+    this.client = createClient({ url });
+    this.subscriber = this.client.duplicate();
+    this.publisher = this.client.duplicate();
+
+    // Error handling
+    this.client.on('error', (err) => logger.error('Redis Client Error', err));
+    this.subscriber.on('error', (err) => logger.error('Redis Subscriber Error', err));
+    this.publisher.on('error', (err) => logger.error('Redis Publisher Error', err));
+  }
+
+  async connect() {
+    await Promise.all([
+      this.client.connect(),
+      this.subscriber.connect(),
+      this.publisher.connect()
+    ]);
+    logger.info('Redis connections established');
+  }
+
+  async disconnect() {
+    await Promise.all([
+      this.client.quit(),
+      this.subscriber.quit(),
+      this.publisher.quit()
+    ]);
+  }
+
+  async get(key: string) {
+    return await this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number) {
+    if (ttlSeconds) {
+      await this.client.setEx(key, ttlSeconds, value);
+    } else {
+      await this.client.set(key, value);
+    }
+  }
+
+  async compareAndSet(key: string, value: string, expectedVersion: number, ttlSeconds?: number): Promise<CompareAndSetResult> {
+    const result = await this.client.eval(COMPARE_AND_SET_SCRIPT, {
+      keys: [key],
+      arguments: [String(expectedVersion), value, String(ttlSeconds || 0)]
+    }) as [number, string | null];
+
+    return result[0] === 1 ? { ok: true } : { ok: false, current: result[1] ?? null };
+  }
+
+  async hSet(key: string, field: string, value: string) {
+    await this.client.hSet(key, field, value);
+  }
+
+  async hGet(key: string, field: string) {
+    return (await this.client.hGet(key, field)) ?? null;
+  }
+
+  async hGetAll(key: string) {
+    return await this.client.hGetAll(key);
+  }
+
+  async hDel(key: string, field: string) {
+    await this.client.hDel(key, field);
+  }
+
+  async hLen(key: string) {
+    return await this.client.hLen(key);
+  }
+
+  async xAdd(key: string, fields: Record<string, string>, trim?: StreamTrim) {
+    if (!trim) {
+      return await this.client.xAdd(key, '*', fields);
+    }
+
+    return await this.client.xAdd(key, '*', fields, {
+      TRIM: {
+        strategy: trim.strategy,
+        strategyModifier: trim.approximate ? '~' : '=',
+        threshold: trim.threshold
+      }
+    });
+  }
+
+  async xRead(key: string, lastId: string, options: StreamReadOptions = {}) {
+    // Blocking reads get their own connection so they don't stall other commands
+    const results = await this.client.xRead(
+      commandOptions({ isolated: options.blockMs !== undefined }),
+      [{ key, id: lastId }],
+      { COUNT: options.count, BLOCK: options.blockMs }
+    );
+
+    return results?.[0]?.messages || [];
+  }
+
+  async xRange(key: string, start: string, end: string, count?: number) {
+    return await this.client.xRange(key, start, end, { COUNT: count });
+  }
+
+  async xRevRange(key: string, end: string, start: string, count?: number) {
+    return await this.client.xRevRange(key, end, start, { COUNT: count });
+  }
+
+  async xGroupCreate(key: string, group: string, startId = '$') {
+    try {
+      await this.client.xGroupCreate(key, group, startId, { MKSTREAM: true });
+    } catch (error: any) {
+      if (!String(error?.message).startsWith('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  async xReadGroup(key: string, group: string, consumer: string, options: StreamReadOptions = {}) {
+    const results = await this.client.xReadGroup(
+      commandOptions({ isolated: options.blockMs !== undefined }),
+      group,
+      consumer,
+      { key, id: '>' },
+      { COUNT: options.count, BLOCK: options.blockMs }
+    );
+
+    return results?.[0]?.messages || [];
+  }
+
+  async xAck(key: string, group: string, ids: string[]) {
+    return ids.length ? await this.client.xAck(key, group, ids) : 0;
+  }
+
+  async xPending(key: string, group: string, count = 100, start = '-', end = '+'): Promise<PendingEntry[]> {
+    const pending = await this.client.xPendingRange(key, group, start, end, count);
+
+    return pending.map(entry => ({
+      id: String(entry.id),
+      consumer: String(entry.owner),
+      idleMs: entry.millisecondsSinceLastDelivery,
+      deliveries: entry.deliveriesCounter
+    }));
+  }
+
+  async xAutoClaim(key: string, group: string, consumer: string, minIdleMs: number, start = '0-0', count = 100): Promise<AutoClaimResult> {
+    const result = await this.client.xAutoClaim(key, group, consumer, minIdleMs, start, { COUNT: count });
+
+    return {
+      nextId: String(result.nextId),
+      // Entries deleted from the stream come back as null
+      entries: result.messages.filter((entry): entry is StreamEntry => entry !== null)
+    };
+  }
+
+  async publish(channel: string, message: string) {
+    await this.publisher.publish(channel, message);
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void) {
+    await this.subscriber.subscribe(channel, listener);
+  }
+}
@@ -1,55 +1,122 @@
-import { createClient, RedisClientType } from 'redis';
+import { StorageBackend, StreamEntry, createStorageBackend } from './storage-backend.js';
+import { StreamCodec } from './stream-codec.js';
 import { logger } from './utils/logger.js';
-
+import { activeTraceparent } from '../../shared/utils/tracing.js';
+import { parseTagged, stringifyTagged } from '../../shared/utils/tagged-json.js';
+
+// Cap for streams written without an explicit retention
+const DEFAULT_STREAM_MAX_LEN = Number(process.env.STREAM_MAX_LEN || 100000);
+export const DEAD_LETTER_SUFFIX = ':dlq';
+
+/**
+ * JSON storage, streams and pub/sub for the hub. The storage itself comes
+ * from a StorageBackend: Redis by default, or in-process memory when
+ * STORAGE_BACKEND=memory.
+ */
 export class RedisManager {
-  private client: RedisClientType;
-  private subscriber: RedisClientType;
-  private publisher: RedisClientType;
+  constructor(
+    private backend: StorageBackend = createStorageBackend(),
+    readonly codec = new StreamCodec()
+  ) {}
+
+  async connect() {
+    await this.backend.connect();
+  }
 
-  constructor() {
-    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
-    
-    this.client = createClient({ url: redisUrl });
-    this.subscriber = this.client.duplicate();
-    this.publisher = this.client.duplicate();
+  // Stream operations for real-time data. Entries written inside a traced
+  // call carry its trace context on to whoever reads them.
+  async addToStream(
+    streamKey: string,
+    data: any,
+    options: { maxLen?: number; minTime?: number; traceparent?: string } = {}
+  ) {
+    const fields = this.codec.encode(streamKey, data, options.traceparent ?? activeTraceparent());
+
+    if (options.minTime && !options.maxLen) {
+      // Time-based retention: IDs start with their ms timestamp, so MINID drops older entries
+      return await this.backend.xAdd(streamKey, fields, {
+        strategy: 'MINID', threshold: options.minTime, approximate: true
+      });
+    }
 
-    // Error handling
-    this.client.on('error', (err) => logger.error('Redis Client Error', err));
-    this.subscriber.on('error', (err) => logger.error('Redis Subscriber Error', err));
-    this.publisher.on('error', (err) => logger.error('Redis Publisher Error', err));
+    // Everything else is capped by length; approximate trimming keeps XADD O(1)
+    return await this.backend.xAdd(streamKey, fields, {
+      strategy: 'MAXLEN', threshold: options.maxLen || DEFAULT_STREAM_MAX_LEN, approximate: true
+    });
   }
 
-  async connect() {
-    await Promise.all([
-      this.client.connect(),
-      this.subscriber.connect(),
-      this.publisher.connect()
-    ]);
-    logger.info('Redis connections established');
+  async readStream(streamKey: string, lastId = '0', count = 100) {
+    return await this.backend.xRead(streamKey, lastId, { count, blockMs: 1000 });
   }
 
-  // Stream operations for real-time data
-  async addToStream(streamKey: string, data: any) {
-    const id = '*'; // Auto-generate ID
-    const fields = this.flattenObject(data);
-    return await this.client.xAdd(streamKey, id, fields);
+  // Non-blocking read of a stream ID range (inclusive on both ends)
+  async readStreamRange(streamKey: string, start = '-', end = '+', count = 100) {
+    return await this.backend.xRange(streamKey, start, end, count);
   }
 
-  async readStream(streamKey: string, lastId = '0', count = 100) {
-    const results = await this.client.xRead([
-      { key: streamKey, id: lastId }
-    ], { COUNT: count, BLOCK: 1000 });
-    
-    return results?.[0]?.messages || [];
+  async readStreamReverse(streamKey: string, end = '+', start = '-', count = 100) {
+    return await this.backend.xRevRange(streamKey, end, start, count);
+  }
+
+  // Consumer groups: each entry goes to one consumer of the group and stays
+  // pending until acknowledged, so a crashed consumer's entries can be claimed
+  async createConsumerGroup(streamKey: string, group: string, startId = '$') {
+    await this.backend.xGroupCreate(streamKey, group, startId);
+  }
+
+  async readGroup(streamKey: string, group: string, consumer: string, count = 10, blockMs?: number) {
+    return await this.backend.xReadGroup(streamKey, group, consumer, { count, blockMs });
+  }
+
+  async ack(streamKey: string, group: string, ids: string[]) {
+    return await this.backend.xAck(streamKey, group, ids);
+  }
+
+  async getPending(streamKey: string, group: string, count = 100, start = '-', end = '+') {
+    return await this.backend.xPending(streamKey, group, count, start, end);
+  }
+
+  // Takes over entries another consumer has held for at least minIdleMs
+  async claimIdle(streamKey: string, group: string, consumer: string, minIdleMs: number, count = 10, start = '0-0') {
+    return await this.backend.xAutoClaim(streamKey, group, consumer, minIdleMs, start, count);
+  }
+
+  // Parks an entry that keeps failing on `<stream>:dlq` and acknowledges it
+  async deadLetter(streamKey: string, group: string, entry: StreamEntry, reason: string, deliveries: number) {
+    // Keep the entry's encoded fields as they are and add the failure details alongside
+    const id = await this.backend.xAdd(`${streamKey}${DEAD_LETTER_SUFFIX}`, {
+      ...entry.message,
+      dlq: this.codec.encodeValue({
+        original_id: entry.id,
+        group,
+        reason,
+        deliveries,
+        failed_at: new Date()
+      })
+    }, { strategy: 'MAXLEN', threshold: DEFAULT_STREAM_MAX_LEN, approximate: true });
+
+    await this.backend.xAck(streamKey, group, [entry.id]);
+    logger.warn(`Dead-lettered ${streamKey} ${entry.id} for ${group}: ${reason}`);
+
+    return id;
+  }
+
+  parseStreamMessage(message: Record<string, string>) {
+    return this.codec.decode(message).data;
+  }
+
+  // Like parseStreamMessage, plus the schema tag the entry was written under
+  decodeStreamMessage(message: Record<string, string>) {
+    return this.codec.decode(message);
   }
 
   // Pub/Sub for events
   async publish(channel: string, message: any) {
-    await this.publisher.publish(channel, JSON.stringify(message));
+    await this.backend.publish(channel, JSON.stringify(message));
   }
 
   async subscribe(channel: string, callback: (message: any) => void) {
-    await this.subscriber.subscribe(channel, (message) => {
+    await this.backend.subscribe(channel, (message) => {
       try {
         const parsed = JSON.parse(message);
         callback(parsed);
@@ -59,70 +126,55 @@ export class RedisManager {
     });
   }
 
-  // Key-value operations
+  // Key-value operations. Values are stored as tagged JSON, so dates, bigints
+  // and decimals read back as they were written.
   async get(key: string) {
-    const value = await this.client.get(key);
-    return value ? JSON.parse(value) : null;
+    const value = await this.backend.get(key);
+    return value ? parseTagged(value) : null;
   }
 
   async set(key: string, value: any, ttlSeconds?: number) {
-    const serialized = JSON.stringify(value);
-    if (ttlSeconds) {
-      await this.client.setEx(key, ttlSeconds, serialized);
-    } else {
-      await this.client.set(key, serialized);
-    }
+    await this.backend.set(key, stringifyTagged(value), ttlSeconds);
+  }
+
+  // Atomically writes a versioned JSON value if the stored version still matches.
+  // Missing keys count as version 0. Returns the stored value on a mismatch.
+  async compareAndSet(key: string, value: any, expectedVersion: number, ttlSeconds?: number) {
+    const result = await this.backend.compareAndSet(key, stringifyTagged(value), expectedVersion, ttlSeconds);
+
+    return result.ok
+      ? { ok: true as const }
+      : { ok: false as const, current: result.current ? parseTagged(result.current) : null };
   }
 
   // Hash operations for complex state
   async hSet(key: string, field: string, value: any) {
-    await this.client.hSet(key, field, JSON.stringify(value));
+    await this.backend.hSet(key, field, stringifyTagged(value));
   }
 
   async hGet(key: string, field: string) {
-    const value = await this.client.hGet(key, field);
-    return value ? JSON.parse(value) : null;
+    const value = await this.backend.hGet(key, field);
+    return value ? parseTagged(value) : null;
   }
 
   async hGetAll(key: string) {
-    const hash = await this.client.hGetAll(key);
+    const hash = await this.backend.hGetAll(key);
     const result: any = {};
     for (const [field, value] of Object.entries(hash)) {
-      result[field] = JSON.parse(value);
+      result[field] = parseTagged(value);
     }
     return result;
   }
 
   async hDel(key: string, field: string) {
-    await this.client.hDel(key, field);
+    await this.backend.hDel(key, field);
   }
 
   async hLen(key: string) {
-    return await this.client.hLen(key);
-  }
-
-  // Helper to flatten objects for Redis streams
-  private flattenObject(obj: any, prefix = ''): Record<string, string> {
-    const flattened: Record<string, string> = {};
-    
-    for (const [key, value] of Object.entries(obj)) {
-      const newKey = prefix ? `${prefix}.${key}` : key;
-      
-      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-        Object.assign(flattened, this.flattenObject(value, newKey));
-      } else {
-        flattened[newKey] = JSON.stringify(value);
-      }
-    }
-    
-    return flattened;
+    return await this.backend.hLen(key);
   }
 
   async disconnect() {
-    await Promise.all([
-      this.client.quit(),
-      this.subscriber.quit(),
-      this.publisher.quit()
-    ]);
+    await this.backend.disconnect();
   }
 }
@@ -0,0 +1,172 @@
+import { EventEmitter } from 'events';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { RedisManager } from './redis-manager.js';
+import { ContextManager } from './context-manager.js';
+import { logger } from './utils/logger.js';
+
+const CONTEXT_SCHEME = 'context://';
+const STREAM_SCHEME = 'stream://';
+const STREAM_READ_LIMIT = 100;
+const STREAM_POLL_INTERVAL = 2000;
+
+// Hub streams published as resources
+const STREAMS: Record<string, string> = {
+  'context:history': 'Version history of shared context updates',
+  'app:calls': 'Calls routed from the hub to registered apps',
+  'health:checks': 'Periodic health check results for registered apps',
+  'alerts:system': 'System alerts raised by the hub',
+  'trades:executed': 'Trades executed by the trade runner'
+};
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * Exposes shared contexts (`context://<type>`) and hub streams (`stream://<key>`)
+ * as MCP resources. Emits `updated` with the URI of any subscribed resource that
+ * changes, and `list_changed` when a new context type appears.
+ */
+export class ResourceProvider extends EventEmitter {
+  private subscriptions: Set<string> = new Set();
+  private streamCursors: Map<string, string> = new Map();
+  private pollInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private redis: RedisManager,
+    private contextManager: ContextManager
+  ) {
+    super();
+  }
+
+  async start() {
+    await this.redis.subscribe('context:updated', (message) => {
+      const uri = `${CONTEXT_SCHEME}${message.type}`;
+
+      if (message.version === 1) {
+        this.emit('list_changed');
+      }
+
+      if (this.subscriptions.has(uri)) {
+        this.emit('updated', { uri });
+      }
+    });
+
+    // Streams have no change events, so watch the tail of subscribed ones
+    this.pollInterval = setInterval(() => {
+      this.pollStreams().catch(err =>
+        logger.error('Stream resource poll failed', err)
+      );
+    }, STREAM_POLL_INTERVAL);
+  }
+
+  stop() {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+    }
+  }
+
+  async listResources(): Promise<ResourceDescriptor[]> {
+    const contexts = await this.contextManager.getAllContexts();
+
+    const contextResources = Object.entries(contexts).map(([type, context]) => ({
+      uri: `${CONTEXT_SCHEME}${type}`,
+      name: `${type} context`,
+      description: `${this.contextManager.types.get(type)?.description || `Shared ${type} context`} ` +
+        `(v${context.version}, updated ${new Date(context.timestamp).toISOString()})`,
+      mimeType: 'application/json'
+    }));
+
+    const streamResources = Object.entries(STREAMS).map(([key, description]) => ({
+      uri: `${STREAM_SCHEME}${key}`,
+      name: `${key} stream`,
+      description: `${description} (latest ${STREAM_READ_LIMIT} entries)`,
+      mimeType: 'application/json'
+    }));
+
+    return [...contextResources, ...streamResources];
+  }
+
+  listTemplates() {
+    return [{
+      uriTemplate: `${CONTEXT_SCHEME}{type}`,
+      name: 'Shared context',
+      description: 'Any shared context layer by type, e.g. context://portfolio',
+      mimeType: 'application/json'
+    }];
+  }
+
+  async read(uri: string) {
+    let payload: any;
+
+    if (uri.startsWith(CONTEXT_SCHEME)) {
+      const type = uri.slice(CONTEXT_SCHEME.length);
+      payload = await this.contextManager.getContext(type);
+
+      if (!payload) {
+        throw new McpError(ErrorCode.InvalidParams, `No context found for ${uri}`);
+      }
+    } else if (uri.startsWith(STREAM_SCHEME)) {
+      const key = this.resolveStream(uri);
+      const entries = await this.redis.readStreamReverse(key, '+', '-', STREAM_READ_LIMIT);
+
+      payload = entries.map(entry => ({
+        id: entry.id,
+        ...this.redis.parseStreamMessage(entry.message)
+      }));
+    } else {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    return [{
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(payload, null, 2)
+    }];
+  }
+
+  async subscribe(uri: string) {
+    if (uri.startsWith(STREAM_SCHEME)) {
+      const key = this.resolveStream(uri);
+      const [latest] = await this.redis.readStreamReverse(key, '+', '-', 1);
+      this.streamCursors.set(key, latest?.id || '0-0');
+    } else if (!uri.startsWith(CONTEXT_SCHEME)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    this.subscriptions.add(uri);
+    logger.info(`Resource subscribed: ${uri}`);
+  }
+
+  async unsubscribe(uri: string) {
+    this.subscriptions.delete(uri);
+
+    if (uri.startsWith(STREAM_SCHEME)) {
+      this.streamCursors.delete(uri.slice(STREAM_SCHEME.length));
+    }
+  }
+
+  private async pollStreams() {
+    for (const [key, cursor] of this.streamCursors) {
+      const [latest] = await this.redis.readStreamReverse(key, '+', '-', 1);
+
+      if (latest && latest.id !== cursor) {
+        this.streamCursors.set(key, latest.id);
+        this.emit('updated', { uri: `${STREAM_SCHEME}${key}` });
+      }
+    }
+  }
+
+  private resolveStream(uri: string) {
+    const key = uri.slice(STREAM_SCHEME.length);
+
+    if (!STREAMS[key]) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown stream resource: ${uri}`);
+    }
+
+    return key;
+  }
+}
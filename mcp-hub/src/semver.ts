@@ -0,0 +1,144 @@
+import { ValidationError } from '../../shared/utils/error-handling.js';
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+const VERSION = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+// Missing or wildcard parts are allowed in ranges: 1, 1.2, 1.x, *
+const PARTIAL = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const COMPARATOR = /^(<=|>=|<|>|=|\^|~)?(.*)$/;
+
+export function parseVersion(text: string): SemVer | null {
+  const match = VERSION.exec(text.trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+export function compareVersions(a: SemVer, b: SemVer): number {
+  for (const part of ['major', 'minor', 'patch'] as const) {
+    if (a[part] !== b[part]) return a[part] < b[part] ? -1 : 1;
+  }
+
+  // A prerelease sorts before its release
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+
+    const numeric = [/^\d+$/.test(left), /^\d+$/.test(right)];
+    if (numeric[0] && numeric[1]) return Number(left) < Number(right) ? -1 : 1;
+    if (numeric[0] !== numeric[1]) return numeric[0] ? -1 : 1;
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * npm-style ranges: comparators (>=1.2.0, <2, =1.4.1), caret and tilde
+ * ranges, x-ranges and `||` alternatives. Hyphen ranges are not supported.
+ */
+export function parseRange(range: string): Comparator[][] {
+  return range.split('||').map(alternative => {
+    const tokens = alternative.trim().split(/\s+/).filter(Boolean);
+    return tokens.flatMap(token => expand(token, range));
+  });
+}
+
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  return parseRange(range).some(comparators =>
+    comparators.every(comparator => test(parsed, comparator))
+  );
+}
+
+function test(version: SemVer, { operator, version: bound }: Comparator): boolean {
+  const order = compareVersions(version, bound);
+
+  switch (operator) {
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    default: return order === 0;
+  }
+}
+
+// Rewrites one range token as plain comparators
+function expand(token: string, range: string): Comparator[] {
+  const [, operator = '', partial] = COMPARATOR.exec(token)!;
+  const match = PARTIAL.exec(partial);
+
+  if (!match) {
+    throw new ValidationError(`Invalid version range: ${range}`, [{ range, token }]);
+  }
+
+  const [major, minor, patch] = [match[1], match[2], match[3]].map(part =>
+    part === undefined || /^[xX*]$/.test(part) ? null : Number(part)
+  );
+  const prerelease = match[4] ? match[4].split('.') : [];
+
+  if (major === null) {
+    // `*` matches everything, `<*` and `>*` nothing
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: version(0, 0, 0, ['0']) }] : [];
+  }
+
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+  // First version past the given parts, e.g. 1.3.0-0 for 1.2
+  const next = minor === null ? version(major + 1, 0, 0, ['0']) : version(major, minor + 1, 0, ['0']);
+
+  switch (operator) {
+    case '^': {
+      const upper = major > 0 || minor === null
+        ? version(major + 1, 0, 0, ['0'])
+        : minor > 0 || patch === null
+          ? version(0, minor + 1, 0, ['0'])
+          : version(0, 0, patch + 1, ['0']);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~':
+      return [{ operator: '>=', version: lower }, { operator: '<', version: next }];
+    case '>':
+      return patch === null ? [{ operator: '>=', version: next }] : [{ operator: '>', version: lower }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: patch === null ? version(lower.major, lower.minor, 0, ['0']) : lower }];
+    case '<=':
+      return patch === null ? [{ operator: '<', version: next }] : [{ operator: '<=', version: lower }];
+    default:
+      return patch === null
+        ? [{ operator: '>=', version: lower }, { operator: '<', version: next }]
+        : [{ operator: '=', version: lower }];
+  }
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
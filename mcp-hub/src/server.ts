@@ -1,11 +1,35 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
 import { RedisManager } from './redis-manager.js';
 import { AppRegistry } from './app-registry.js';
+import { CallPolicies } from './call-policy.js';
+import { CredentialStore } from './credential-store.js';
+import { MethodScopes } from './method-scopes.js';
+import { SimulatedExecutor } from './simulated-executor.js';
 import { ContextManager } from './context-manager.js';
 import { HealthMonitor } from './health-monitor.js';
+import { HttpGateway } from './http-gateway.js';
+import { UpdateChannel } from './update-channel.js';
+import { ToolCatalog, ToolDefinition } from './tool-catalog.js';
+import { ResourceProvider } from './resource-provider.js';
+import { ApprovalManager } from './approval-manager.js';
+import { StrategyExecutor } from './strategy-executor.js';
 import { logger } from './utils/logger.js';
+import { tracer } from './utils/tracer.js';
+
+interface BuiltinTool {
+  definition: ToolDefinition;
+  handler: (args: any) => Promise<any>;
+}
 
 class FieldElevateMCPHub {
   private server: Server;
@@ -13,6 +37,13 @@ class FieldElevateMCPHub {
   private appRegistry: AppRegistry;
   private contextManager: ContextManager;
   private healthMonitor: HealthMonitor;
+  private updates: UpdateChannel;
+  private toolCatalog: ToolCatalog;
+  private resources: ResourceProvider;
+  private approvals: ApprovalManager;
+  private gateway: HttpGateway;
+  private strategies: StrategyExecutor;
+  private builtinTools: Map<string, BuiltinTool> = new Map();
 
   constructor() {
     this.server = new Server(
@@ -22,45 +53,179 @@ class FieldElevateMCPHub {
       },
       {
         capabilities: {
-          tools: {},
-          resources: {},
+          tools: { listChanged: true },
+          resources: { subscribe: true, listChanged: true },
         },
       }
     );
 
     this.redis = new RedisManager();
-    this.appRegistry = new AppRegistry(this.redis);
-    this.contextManager = new ContextManager(this.redis);
+    this.updates = new UpdateChannel(this.redis);
+    this.contextManager = new ContextManager(this.redis, this.updates);
+    this.appRegistry = new AppRegistry(
+      this.redis,
+      this.updates,
+      new CallPolicies(),
+      new CredentialStore(this.redis),
+      new MethodScopes(),
+      new SimulatedExecutor(this.contextManager)
+    );
     this.healthMonitor = new HealthMonitor(this.redis, this.appRegistry);
+    this.toolCatalog = new ToolCatalog(this.redis, this.appRegistry);
+    this.resources = new ResourceProvider(this.redis, this.contextManager);
+    this.approvals = new ApprovalManager(this.redis, this.updates);
+    this.strategies = new StrategyExecutor(this.appRegistry, this.contextManager, this.approvals);
+    this.gateway = new HttpGateway(
+      this.redis,
+      this.appRegistry,
+      this.contextManager,
+      this.updates,
+      this.toolCatalog,
+      this.approvals
+    );
   }
 
   async initialize() {
     await this.redis.connect();
     await this.appRegistry.loadRegisteredApps();
+    await this.toolCatalog.load();
     await this.setupHandlers();
+    await this.resources.start();
     await this.healthMonitor.start();
+    this.appRegistry.startLeaseSweep();
+    this.approvals.start();
     
     logger.info('Field Elevate MCP Hub initialized');
   }
 
   private async setupHandlers() {
-    // List available tools from all connected apps
+    this.registerBuiltinTools();
+
+    // List hub tools plus every method exposed by connected apps
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
-        {
+        ...Array.from(this.builtinTools.values()).map(tool => tool.definition),
+        ...this.toolCatalog.listTools()
+      ],
+    }));
+
+    // Handle tool execution
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      
+      // Each tool call starts a trace that follows it through every app it reaches
+      return await tracer.withSpan(`tool ${name}`, { kind: 'server', parent: null }, async span => {
+        try {
+          const builtin = this.builtinTools.get(name);
+          if (builtin) {
+            return await builtin.handler(args);
+          }
+
+          const exposed = this.toolCatalog.resolve(name);
+          if (!exposed) {
+            throw new Error(`Unknown tool: ${name}`);
+          }
+
+          const result = await this.appRegistry.callService(exposed.appId, exposed.method, args || {});
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error: any) {
+          span.recordError(error);
+          logger.error(`Tool execution failed: ${name}`, error);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error executing ${name}: ${error.message}`,
+              },
+            ],
+            isError: true
+          };
+        }
+      });
+    });
+
+    // Let MCP clients know when apps expose new methods
+    this.toolCatalog.on('changed', () => {
+      this.server.sendToolListChanged().catch(err =>
+        logger.debug('Tool list notification skipped', err)
+      );
+    });
+
+    // Shared contexts and hub streams as resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await this.resources.listResources()
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resources.listTemplates()
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+      contents: await this.resources.read(request.params.uri)
+    }));
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.resources.subscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      await this.resources.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    this.resources.on('updated', ({ uri }) => {
+      this.server.sendResourceUpdated({ uri }).catch(err =>
+        logger.debug(`Resource update notification skipped for ${uri}`, err)
+      );
+    });
+
+    this.resources.on('list_changed', () => {
+      this.server.sendResourceListChanged().catch(err =>
+        logger.debug('Resource list notification skipped', err)
+      );
+    });
+  }
+
+  // Tools implemented by the hub itself, composed from several app calls
+  private registerBuiltinTools() {
+    const tools: BuiltinTool[] = [
+      {
+        definition: {
           name: 'execute_strategy',
-          description: 'Execute a trading strategy with risk checks',
+          description: 'Execute a trading strategy with risk checks. Large allocations need human approval first.',
           inputSchema: {
             type: 'object',
             properties: {
               strategy_id: { type: 'string' },
               allocation: { type: 'number' },
-              risk_params: { type: 'object' }
+              risk_params: { type: 'object' },
+              approval_id: {
+                type: 'string',
+                description: 'Approval returned by an earlier call, once it has been approved'
+              },
+              simulation: {
+                type: 'boolean',
+                description: 'Dry run: fill against market_data history and write to shadow contexts only'
+              },
+              idempotency_key: {
+                type: 'string',
+                description: 'Repeating a call with the same key returns its first result instead of trading again'
+              }
             },
             required: ['strategy_id', 'allocation']
           }
         },
-        {
+        handler: (args) => this.strategies.execute(args)
+      },
+      {
+        definition: {
           name: 'get_market_snapshot',
           description: 'Get current market data and indicators',
           inputSchema: {
@@ -71,7 +236,10 @@ class FieldElevateMCPHub {
             }
           }
         },
-        {
+        handler: (args) => this.getMarketSnapshot(args)
+      },
+      {
+        definition: {
           name: 'rank_strategies',
           description: 'Rank all strategies by performance metrics',
           inputSchema: {
@@ -83,19 +251,33 @@ class FieldElevateMCPHub {
             }
           }
         },
-        {
+        handler: (args) => this.rankStrategies(args)
+      },
+      {
+        definition: {
           name: 'update_context',
           description: 'Update shared context for all agents',
           inputSchema: {
             type: 'object',
             properties: {
               context_type: { type: 'string' },
-              data: { type: 'object' }
+              data: {
+                type: ['object', 'array'],
+                description: 'New value, a merge patch, or a list of JSON patch operations depending on mode'
+              },
+              mode: { type: 'string', enum: ['replace', 'merge', 'patch'] },
+              expected_version: {
+                type: 'number',
+                description: 'Reject the write unless the context is still at this version'
+              }
             },
             required: ['context_type', 'data']
           }
         },
-        {
+        handler: (args) => this.updateContext(args)
+      },
+      {
+        definition: {
           name: 'generate_report',
           description: 'Generate trading report',
           inputSchema: {
@@ -105,90 +287,23 @@ class FieldElevateMCPHub {
               include_sections: { type: 'array', items: { type: 'string' } }
             }
           }
-        }
-      ],
-    }));
-
-    // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      
-      try {
-        switch (name) {
-          case 'execute_strategy':
-            return await this.executeStrategy(args);
-          
-          case 'get_market_snapshot':
-            return await this.getMarketSnapshot(args);
-          
-          case 'rank_strategies':
-            return await this.rankStrategies(args);
-          
-          case 'update_context':
-            return await this.updateContext(args);
-          
-          case 'generate_report':
-            return await this.generateReport(args);
-          
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
-      } catch (error: any) {
-        logger.error(`Tool execution failed: ${name}`, error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error executing ${name}: ${error.message}`,
-            },
-          ],
-        };
+        },
+        handler: (args) => this.generateReport(args)
       }
-    });
-  }
-
-  private async executeStrategy(args: any) {
-    // First, get risk approval
-    const riskCheck = await this.appRegistry.callApp('risk-analyzer', 'check_risk', {
-      strategy_id: args.strategy_id,
-      allocation: args.allocation,
-      current_portfolio: await this.contextManager.getPortfolioState()
-    });
+    ];
 
-    if (!riskCheck.approved) {
-      return {
-        content: [{
-          type: 'text',
-          text: `Risk check failed: ${riskCheck.reason}. Suggested allocation: ${riskCheck.suggested_allocation}`
-        }]
-      };
+    for (const tool of tools) {
+      this.builtinTools.set(tool.definition.name, tool);
     }
-
-    // Execute through trade runner
-    const execution = await this.appRegistry.callApp('trade-runner', 'execute', {
-      strategy_id: args.strategy_id,
-      allocation: riskCheck.approved_allocation || args.allocation,
-      risk_params: args.risk_params
-    });
-
-    // Update context
-    await this.contextManager.updateContext('trade_execution', execution);
-
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify(execution, null, 2)
-      }]
-    };
   }
 
   private async getMarketSnapshot(args: any) {
-    const marketData = await this.appRegistry.callApp('data-hub', 'get_market_data', {
+    const marketData = await this.appRegistry.callCapability('market_data', 'get_market_data', {
       assets: args.assets || ['BTC', 'ETH', 'SOL'],
       indicators: args.indicators || ['RSI', 'MACD', 'volume']
     });
 
-    const analysis = await this.appRegistry.callApp('signal-forge', 'analyze_market', marketData);
+    const analysis = await this.appRegistry.callService('signal-forge', 'analyze_market', marketData);
 
     return {
       content: [{
@@ -199,11 +314,11 @@ class FieldElevateMCPHub {
   }
 
   private async rankStrategies(args: any) {
-    const strategies = await this.appRegistry.callApp('signal-forge', 'get_strategies', {
+    const strategies = await this.appRegistry.callCapability('strategy_creation', 'get_strategies', {
       active_only: true
     });
 
-    const rankings = await this.appRegistry.callApp('signal-forge', 'rank_strategies', {
+    const rankings = await this.appRegistry.callCapability('ranking', 'rank_strategies', {
       strategies,
       timeframe: args.timeframe || '7d',
       min_sharpe: args.min_sharpe || 1.5
@@ -221,19 +336,16 @@ class FieldElevateMCPHub {
   }
 
   private async updateContext(args: any) {
-    await this.contextManager.updateContext(args.context_type, args.data);
-    
-    // Broadcast to all connected apps
-    await this.appRegistry.broadcastUpdate({
-      type: 'context_update',
-      context_type: args.context_type,
-      timestamp: new Date().toISOString()
+    // ContextManager pushes the change to subscribed apps
+    const context = await this.contextManager.updateContext(args.context_type, args.data, {
+      mode: args.mode,
+      expectedVersion: args.expected_version
     });
 
     return {
       content: [{
         type: 'text',
-        text: `Context updated: ${args.context_type}`
+        text: `Context updated: ${args.context_type} v${context.version}`
       }]
     };
   }
@@ -241,7 +353,7 @@ class FieldElevateMCPHub {
   private async generateReport(args: any) {
     const reportData = await this.contextManager.gatherReportData(args.report_type);
     
-    const report = await this.appRegistry.callApp('investor-portal', 'generate_report', {
+    const report = await this.appRegistry.callCapability('reporting', 'generate_report', {
       type: args.report_type,
       data: reportData,
       sections: args.include_sections
@@ -267,6 +379,9 @@ class FieldElevateMCPHub {
     
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
+
+    // HTTP transport for apps using MCPClient
+    await this.gateway.start();
     
     logger.info('MCP Hub server started');
   }
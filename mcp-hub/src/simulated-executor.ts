@@ -0,0 +1,175 @@
+import { ContextManager } from './context-manager.js';
+import { SHADOW_PREFIX } from './context-types.js';
+import { logger } from './utils/logger.js';
+
+const DEFAULT_SLIPPAGE_BPS = 5;
+// Symbols trade-runner's execute invests in when the call names none
+const DEFAULT_STRATEGY_SYMBOLS = ['BTC', 'ETH', 'SOL'];
+
+export interface SimulatedOrder {
+  asset: string;
+  side: 'buy' | 'sell';
+  // Notional at the market price
+  value: number;
+}
+
+export interface SimulatedFill extends SimulatedOrder {
+  status: 'filled' | 'rejected';
+  market_price?: number;
+  fill_price?: number;
+  quantity?: number;
+  reason?: string;
+}
+
+export interface SimulatedExecution {
+  simulated: true;
+  app: string;
+  method: string;
+  params: any;
+  // When the market_data prices used were recorded; null if there were none
+  priced_at: Date | null;
+  orders: SimulatedOrder[];
+  fills: SimulatedFill[];
+  portfolio: any;
+  timestamp: Date;
+}
+
+/**
+ * Stands in for side-effecting app methods on calls made in simulation.
+ * Orders are taken from the call parameters: explicit `orders`, target
+ * `allocations` (weights of total value), or a strategy `allocation` bought
+ * evenly across its `symbols` as trade-runner's execute does. They are filled
+ * at the `market_data` prices current at `asOf` plus a fixed slippage. Results go to
+ * `shadow:portfolio` and `shadow:trade_execution`; the real layers are only read.
+ */
+export class SimulatedExecutor {
+  constructor(
+    private contextManager: ContextManager,
+    private slippageBps = Number(process.env.SIMULATION_SLIPPAGE_BPS || DEFAULT_SLIPPAGE_BPS)
+  ) {}
+
+  async execute(appId: string, method: string, params: any, asOf: Date | string | number = Date.now()): Promise<SimulatedExecution> {
+    const portfolio = await this.getPortfolio();
+    const market = await this.contextManager.getContextAt('market_data', asOf);
+    const prices: Record<string, number> = market?.data.prices || {};
+
+    const orders = this.ordersFor(params, portfolio);
+    const fills = orders.map(order => this.fill(order, prices[order.asset]));
+
+    const execution: SimulatedExecution = {
+      simulated: true,
+      app: appId,
+      method,
+      params,
+      priced_at: market?.timestamp ?? null,
+      orders,
+      fills,
+      portfolio: this.applyFills(portfolio, fills),
+      timestamp: new Date()
+    };
+
+    await this.contextManager.updateContext(`${SHADOW_PREFIX}portfolio`, execution.portfolio);
+    await this.contextManager.updateContext(`${SHADOW_PREFIX}trade_execution`, execution);
+
+    const filled = fills.filter(fill => fill.status === 'filled').length;
+    logger.info(`Simulated ${appId}.${method}: ${filled}/${fills.length} orders filled`);
+
+    return execution;
+  }
+
+  // The shadow portfolio carries earlier simulated fills; a fresh simulation starts from the real one
+  async getPortfolio() {
+    const shadow = await this.contextManager.getContext(`${SHADOW_PREFIX}portfolio`);
+    return shadow ? shadow.data : await this.contextManager.getPortfolioState();
+  }
+
+  private ordersFor(params: any, portfolio: any): SimulatedOrder[] {
+    if (Array.isArray(params?.orders)) {
+      return params.orders
+        .filter((order: any) => order?.asset && Number(order.value) > 0)
+        .map((order: any) => ({ asset: order.asset, side: order.side === 'sell' ? 'sell' : 'buy', value: Number(order.value) }));
+    }
+
+    if (params?.allocations && typeof params.allocations === 'object') {
+      const positions = portfolio.positions || {};
+      const orders: SimulatedOrder[] = [];
+
+      for (const asset of new Set([...Object.keys(positions), ...Object.keys(params.allocations)])) {
+        const target = Number(params.allocations[asset] || 0) * portfolio.total_value;
+        const delta = target - (positions[asset]?.value || 0);
+
+        if (Math.abs(delta) >= 0.01) {
+          orders.push({ asset, side: delta > 0 ? 'buy' : 'sell', value: Math.abs(delta) });
+        }
+      }
+
+      return orders;
+    }
+
+    if (Number(params?.allocation) > 0) {
+      const symbols: string[] = params.symbols?.length ? params.symbols : DEFAULT_STRATEGY_SYMBOLS;
+      const value = Number(params.allocation) * portfolio.total_value / symbols.length;
+
+      return symbols.map(asset => ({ asset, side: 'buy' as const, value }));
+    }
+
+    return [];
+  }
+
+  private fill(order: SimulatedOrder, marketPrice: number | undefined): SimulatedFill {
+    if (!marketPrice) {
+      return { ...order, status: 'rejected', reason: `No market_data price for ${order.asset}` };
+    }
+
+    const slippageBps = order.side === 'buy' ? this.slippageBps : -this.slippageBps;
+    const fillPrice = marketPrice * (10000 + slippageBps) / 10000;
+
+    return {
+      ...order,
+      status: 'filled',
+      market_price: marketPrice,
+      fill_price: fillPrice,
+      quantity: order.side === 'buy' ? order.value / fillPrice : order.value / marketPrice
+    };
+  }
+
+  // Positions are marked at the market price, so slippage shows up as lost value
+  private applyFills(portfolio: any, fills: SimulatedFill[]) {
+    const positions: Record<string, any> = JSON.parse(JSON.stringify(portfolio.positions || {}));
+    let cash = Number(portfolio.cash || 0);
+
+    for (const fill of fills) {
+      if (fill.status !== 'filled') continue;
+
+      const position = positions[fill.asset] || { value: 0 };
+      const marketValue = fill.quantity! * fill.market_price!;
+
+      if (fill.side === 'buy') {
+        position.value += marketValue;
+        cash -= fill.value;
+      } else {
+        position.value -= marketValue;
+        cash += fill.quantity! * fill.fill_price!;
+      }
+
+      positions[fill.asset] = position;
+    }
+
+    for (const [asset, position] of Object.entries(positions)) {
+      if (position.value <= 0.01) delete positions[asset];
+    }
+
+    const totalValue = cash + Object.values(positions).reduce((sum, position) => sum + position.value, 0);
+    for (const position of Object.values(positions)) {
+      position.percentage = totalValue > 0 ? position.value / totalValue * 100 : 0;
+    }
+
+    return {
+      ...portfolio,
+      positions,
+      cash,
+      total_value: Math.max(totalValue, 0),
+      last_updated: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { RedisBackend } from './redis-backend.js';
+import { MemoryBackend } from './memory-backend.js';
+
+export interface StreamEntry {
+  id: string;
+  message: Record<string, string>;
+}
+
+export interface StreamTrim {
+  strategy: 'MAXLEN' | 'MINID';
+  threshold: number;
+  // Let Redis trim lazily ('~'); the memory backend always trims exactly
+  approximate?: boolean;
+}
+
+export interface StreamReadOptions {
+  count?: number;
+  // Wait up to this long for new entries when there are none; 0 waits forever
+  blockMs?: number;
+}
+
+export interface PendingEntry {
+  id: string;
+  consumer: string;
+  idleMs: number;
+  deliveries: number;
+}
+
+export interface AutoClaimResult {
+  // Where to resume the scan; '0-0' once the whole pending list was covered
+  nextId: string;
+  entries: StreamEntry[];
+}
+
+export type CompareAndSetResult = { ok: true } | { ok: false; current: string | null };
+
+/**
+ * Storage primitives RedisManager is built on. Values are plain strings;
+ * serialization stays in RedisManager so every backend stores the same bytes.
+ */
+export interface StorageBackend {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+
+  // Key-value
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  // Writes only if the stored JSON value's `version` (0 when missing) matches
+  compareAndSet(key: string, value: string, expectedVersion: number, ttlSeconds?: number): Promise<CompareAndSetResult>;
+
+  // Hashes
+  hSet(key: string, field: string, value: string): Promise<void>;
+  hGet(key: string, field: string): Promise<string | null>;
+  hGetAll(key: string): Promise<Record<string, string>>;
+  hDel(key: string, field: string): Promise<void>;
+  hLen(key: string): Promise<number>;
+
+  // Streams
+  xAdd(key: string, fields: Record<string, string>, trim?: StreamTrim): Promise<string>;
+  // Entries after lastId ('$' = only entries added from now on)
+  xRead(key: string, lastId: string, options?: StreamReadOptions): Promise<StreamEntry[]>;
+  xRange(key: string, start: string, end: string, count?: number): Promise<StreamEntry[]>;
+  xRevRange(key: string, end: string, start: string, count?: number): Promise<StreamEntry[]>;
+
+  // Consumer groups
+  // Creates the stream if needed; a no-op when the group already exists
+  xGroupCreate(key: string, group: string, startId?: string): Promise<void>;
+  // Entries never delivered to the group; each is pending until acknowledged
+  xReadGroup(key: string, group: string, consumer: string, options?: StreamReadOptions): Promise<StreamEntry[]>;
+  xAck(key: string, group: string, ids: string[]): Promise<number>;
+  // Pending entries with IDs between start and end (inclusive), oldest first
+  xPending(key: string, group: string, count?: number, start?: string, end?: string): Promise<PendingEntry[]>;
+  // Moves pending entries idle for at least minIdleMs to the given consumer
+  xAutoClaim(key: string, group: string, consumer: string, minIdleMs: number, start?: string, count?: number): Promise<AutoClaimResult>;
+
+  // Pub/sub
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, listener: (message: string) => void): Promise<void>;
+}
+
+export type StorageBackendKind = 'redis' | 'memory';
+
+// The memory backend is shared within the process, like a single Redis server
+let sharedMemoryBackend: MemoryBackend | null = null;
+
+export function createStorageBackend(
+  kind = (process.env.STORAGE_BACKEND || 'redis') as StorageBackendKind
+): StorageBackend {
+  switch (kind) {
+    case 'redis':
+      return new RedisBackend(process.env.REDIS_URL || 'redis://localhost:6379');
+    case 'memory':
+      sharedMemoryBackend ??= new MemoryBackend();
+      return sharedMemoryBackend;
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${kind}`);
+  }
+}
@@ -0,0 +1,127 @@
+import { AppRegistry } from './app-registry.js';
+import { ContextManager } from './context-manager.js';
+import { ApprovalManager, ApprovalRecord } from './approval-manager.js';
+
+const ACTION = 'mcp-hub.execute_strategy';
+
+export interface ExecuteStrategyArgs {
+  strategy_id: string;
+  allocation: number;
+  risk_params?: any;
+  approval_id?: string;
+  simulation?: boolean;
+  idempotency_key?: string;
+}
+
+/**
+ * The hub's `execute_strategy` tool: human sign-off where the approval policy
+ * asks for it, a risk check, then execution through whichever app provides
+ * the `execution` capability. Calls are made as the hub itself ('mcp-hub').
+ */
+export class StrategyExecutor {
+  constructor(
+    private appRegistry: AppRegistry,
+    private contextManager: ContextManager,
+    private approvals: ApprovalManager
+  ) {}
+
+  async execute(args: ExecuteStrategyArgs): Promise<any> {
+    const { idempotency_key: key, ...request } = args;
+    const simulation = request.simulation === true;
+
+    // Human sign-off where the approval policy asks for it. Dry runs trade nothing, so they skip it.
+    const approval = simulation ? null : request.approval_id
+      ? await this.approvals.get(request.approval_id)
+      : await this.approvals.request({
+        action: ACTION,
+        requestedBy: 'mcp-hub',
+        summary: `Execute strategy ${request.strategy_id} with allocation ${request.allocation}`,
+        details: {
+          strategy_id: request.strategy_id,
+          allocation: request.allocation,
+          risk_params: request.risk_params
+        },
+        idempotencyKey: key && `${key}:approval`
+      });
+
+    if (!simulation && !approval) {
+      throw new Error(`Approval not found: ${request.approval_id}`);
+    }
+
+    // Answered before the idempotency key is claimed: the caller comes back with the
+    // same key once it is approved, and that call is the one whose outcome is kept
+    if (approval?.status === 'pending') {
+      return {
+        content: [{
+          type: 'text',
+          text: `Awaiting approval ${approval.id} until ${approval.expires_at}. Call again with approval_id once it is approved.`
+        }]
+      };
+    }
+
+    if (!key) {
+      return await this.trade(request, approval);
+    }
+
+    // The approval id isn't part of the request: a retry of the call that asked for it is the same trade
+    const { strategy_id, allocation, risk_params } = request;
+    return await this.appRegistry.idempotency.run('mcp-hub', key, {
+      target: 'mcp-hub',
+      method: 'execute_strategy',
+      params: { strategy_id, allocation, risk_params },
+      simulation
+    }, () => this.trade(request, approval, key));
+  }
+
+  private async trade(args: ExecuteStrategyArgs, approval: ApprovalRecord | null, idempotencyKey?: string) {
+    const simulation = args.simulation === true;
+
+    // An approval is used up by one execution, but only once the risk check has passed
+    if (approval?.required) {
+      await this.approvals.check(approval.id, ACTION);
+    }
+
+    // Approvers may have modified the request
+    const { strategy_id, allocation, risk_params } = approval ? approval.approved_details : args;
+
+    const riskCheck = await this.appRegistry.callCapability('risk_assessment', 'check_risk', {
+      strategy_id,
+      allocation,
+      current_portfolio: await this.contextManager.getPortfolioState()
+    }, 'mcp-hub', { simulation });
+
+    if (!riskCheck.approved) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Risk check failed: ${riskCheck.reason}. Suggested allocation: ${riskCheck.suggested_allocation}`
+        }]
+      };
+    }
+
+    if (approval?.required) {
+      await this.approvals.consume(approval.id, ACTION);
+    }
+
+    // Execute through trade runner, in the assets the risk check covered; a dry
+    // run is filled by the simulator instead
+    const execution = await this.appRegistry.callCapability('execution', 'execute', {
+      strategy_id,
+      allocation: riskCheck.approved_allocation || allocation,
+      symbols: riskCheck.metrics?.assets,
+      risk_params
+    }, 'mcp-hub', { simulation, idempotencyKey: idempotencyKey && `${idempotencyKey}:execute` });
+
+    // Update context; the simulator keeps its result in shadow:trade_execution
+    if (!simulation) {
+      await this.contextManager.updateContext('trade_execution', execution);
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify(execution, null, 2)
+      }]
+    };
+  }
+}
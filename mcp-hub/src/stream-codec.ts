@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { ValidationError } from '../../shared/utils/error-handling.js';
+import { parseTagged, stringifyTagged } from '../../shared/utils/tagged-json.js';
+
+// Reserved fields on every encoded entry
+export const CODEC_FIELD = '$codec';
+export const SCHEMA_FIELD = '$schema';
+// W3C traceparent of the span that wrote the entry
+export const TRACE_FIELD = '$trace';
+const RESERVED_FIELDS = [CODEC_FIELD, SCHEMA_FIELD, TRACE_FIELD];
+const CODEC_VERSION = '1';
+
+export interface StreamSchema {
+  name: string;
+  version?: number;
+  // Entries are validated before they are written
+  schema?: z.ZodTypeAny;
+}
+
+export interface DecodedStreamMessage {
+  data: any;
+  // `<name>@<version>` of the schema the entry was written under
+  schema?: string;
+  traceparent?: string;
+}
+
+// Streams the hub writes itself
+const DEFAULT_SCHEMAS: Record<string, StreamSchema> = {
+  'health:checks': {
+    name: 'health_check',
+    schema: z.object({
+      appId: z.string(),
+      status: z.string(),
+      duration: z.number(),
+      details: z.any().optional(),
+      timestamp: z.string()
+    }).passthrough()
+  },
+  'alerts:system': {
+    name: 'system_alert',
+    schema: z.object({
+      severity: z.string(),
+      message: z.string(),
+      timestamp: z.string()
+    }).passthrough()
+  },
+  'approvals:audit': {
+    name: 'approval_audit',
+    schema: z.object({
+      approval_id: z.string(),
+      action: z.string(),
+      event: z.string(),
+      actor: z.string(),
+      timestamp: z.string()
+    }).passthrough()
+  },
+  'app:calls': {
+    name: 'app_call',
+    schema: z.object({
+      appId: z.string(),
+      method: z.string(),
+      // Throttled calls were refused by the hub and never reached the app
+      status: z.enum(['success', 'failed', 'throttled']),
+      duration: z.number(),
+      attempts: z.number()
+    }).passthrough()
+  }
+};
+
+/**
+ * Encodes stream entries as one field per top-level key, each holding tagged
+ * JSON (see shared/utils/tagged-json.ts), so nested objects, dates, bigints
+ * and decimals read back exactly as written. Streams with a registered schema
+ * are validated on write and tagged with the schema name.
+ */
+export class StreamCodec {
+  private schemas: Map<string, StreamSchema>;
+
+  constructor(schemas: Record<string, StreamSchema> = DEFAULT_SCHEMAS) {
+    this.schemas = new Map(Object.entries(schemas));
+  }
+
+  registerSchema(stream: string, schema: StreamSchema) {
+    this.schemas.set(stream, schema);
+  }
+
+  getSchema(stream: string): StreamSchema | undefined {
+    return this.schemas.get(stream);
+  }
+
+  encode(stream: string, data: Record<string, any>, traceparent?: string): Record<string, string> {
+    const definition = this.schemas.get(stream);
+
+    if (definition?.schema) {
+      const result = definition.schema.safeParse(data);
+      if (!result.success) {
+        throw new ValidationError(`Invalid ${stream} entry`, result.error.issues);
+      }
+    }
+
+    const fields: Record<string, string> = { [CODEC_FIELD]: CODEC_VERSION };
+
+    if (definition) {
+      fields[SCHEMA_FIELD] = `${definition.name}@${definition.version ?? 1}`;
+    }
+
+    if (traceparent) {
+      fields[TRACE_FIELD] = traceparent;
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      if (RESERVED_FIELDS.includes(key)) {
+        throw new ValidationError(`Reserved stream field: ${key}`, [{ path: [key], message: 'Reserved by the stream codec' }]);
+      }
+      if (value !== undefined) {
+        fields[key] = stringifyTagged(value);
+      }
+    }
+
+    return fields;
+  }
+
+  encodeValue(value: any): string {
+    return stringifyTagged(value);
+  }
+
+  decode(message: Record<string, string>): DecodedStreamMessage {
+    if (!(CODEC_FIELD in message)) {
+      return { data: decodeLegacy(message) };
+    }
+
+    const data: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(message)) {
+      if (!RESERVED_FIELDS.includes(key)) {
+        data[key] = parseTagged(value);
+      }
+    }
+
+    return { data, schema: message[SCHEMA_FIELD], traceparent: message[TRACE_FIELD] };
+  }
+}
+
+// Entries written before the codec: nested objects were flattened into dotted keys with JSON leaves
+function decodeLegacy(message: Record<string, string>) {
+  const data: Record<string, any> = {};
+
+  for (const [key, raw] of Object.entries(message)) {
+    let value: any;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      value = raw;
+    }
+
+    const path = key.split('.');
+    let target = data;
+
+    for (const segment of path.slice(0, -1)) {
+      if (typeof target[segment] !== 'object' || target[segment] === null) {
+        target[segment] = {};
+      }
+      target = target[segment];
+    }
+
+    target[path[path.length - 1]] = value;
+  }
+
+  return data;
+}
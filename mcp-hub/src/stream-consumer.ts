@@ -0,0 +1,201 @@
+import { EventEmitter } from 'events';
+import { hostname } from 'os';
+import { RedisManager } from './redis-manager.js';
+import { StreamEntry } from './storage-backend.js';
+import { logger } from './utils/logger.js';
+import { tracer } from './utils/tracer.js';
+import { parseTraceparent } from '../../shared/utils/tracing.js';
+
+const ERROR_BACKOFF_MS = 1000;
+
+export interface StreamConsumerOptions {
+  stream: string;
+  group: string;
+  // Unique per process, so a restarted instance doesn't inherit its old pending entries
+  consumer?: string;
+  // Where a new group starts: '$' for entries added from now on, '0' for the whole stream
+  startId?: string;
+  batchSize?: number;
+  blockMs?: number;
+  // Entries pending this long are assumed lost with their consumer and delivered again
+  claimIdleMs?: number;
+  // Failed deliveries before an entry is moved to `<stream>:dlq`
+  maxDeliveries?: number;
+}
+
+export interface StreamDelivery {
+  id: string;
+  data: any;
+  // Schema tag the entry was written under, if its stream has one
+  schema?: string;
+  // Trace context of the writer, so handling can join its trace
+  traceparent?: string;
+  // 1 on first delivery; higher when the entry was reclaimed
+  deliveries: number;
+}
+
+export type StreamHandler = (data: any, delivery: StreamDelivery) => Promise<void>;
+
+/**
+ * At-least-once processing of a hub stream through a consumer group. Entries
+ * are acknowledged only after the handler succeeds; failed entries stay
+ * pending and are reclaimed after `claimIdleMs`, by this or any other member
+ * of the group, until they run out of deliveries and are dead-lettered.
+ *
+ * Emits `processed` and `failed` for each delivery.
+ */
+export class StreamConsumer extends EventEmitter {
+  private readonly options: Required<StreamConsumerOptions>;
+  private groupReady = false;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(private redis: RedisManager, options: StreamConsumerOptions) {
+    super();
+    this.options = {
+      consumer: `${hostname()}-${process.pid}`,
+      startId: '$',
+      batchSize: 10,
+      blockMs: 5000,
+      claimIdleMs: 60000,
+      maxDeliveries: 5,
+      ...options
+    };
+  }
+
+  async start(handler: StreamHandler) {
+    if (this.running) return;
+
+    await this.ensureGroup();
+    this.running = true;
+    this.loop = this.run(handler);
+
+    logger.info(`Consuming ${this.options.stream} as ${this.options.group}/${this.options.consumer}`);
+  }
+
+  // Waits for the current batch to finish
+  async stop() {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+  }
+
+  // Next batch for a consumer: reclaimed entries first, then new ones.
+  // A blockMs of 0 returns at once when there is nothing new.
+  async poll(
+    consumer = this.options.consumer,
+    blockMs: number | undefined = this.options.blockMs,
+    count = this.options.batchSize
+  ): Promise<StreamDelivery[]> {
+    await this.ensureGroup();
+
+    const reclaimed = await this.reclaim(consumer, count);
+    if (reclaimed.length) {
+      return reclaimed;
+    }
+
+    const entries = await this.redis.readGroup(
+      this.options.stream,
+      this.options.group,
+      consumer,
+      count,
+      blockMs || undefined
+    );
+
+    return entries.map(entry => this.toDelivery(entry, 1));
+  }
+
+  async ack(ids: string[]) {
+    return await this.redis.ack(this.options.stream, this.options.group, ids);
+  }
+
+  // Leaves the entry pending for another attempt, or dead-letters it on its last delivery.
+  // Returns true if it was dead-lettered.
+  async fail(id: string, reason: string) {
+    const { stream, group, maxDeliveries } = this.options;
+    const [pending] = await this.redis.getPending(stream, group, 1, id, id);
+
+    if (!pending || pending.deliveries < maxDeliveries) {
+      return false;
+    }
+
+    const [entry] = await this.redis.readStreamRange(stream, id, id, 1);
+    if (entry) {
+      await this.redis.deadLetter(stream, group, entry, reason, pending.deliveries);
+    } else {
+      // Trimmed before it could be processed; nothing left to park
+      await this.ack([id]);
+    }
+
+    return true;
+  }
+
+  private async run(handler: StreamHandler) {
+    while (this.running) {
+      try {
+        const batch = await this.poll();
+
+        for (const delivery of batch) {
+          await this.handle(handler, delivery);
+        }
+      } catch (error) {
+        logger.error(`Stream consumer ${this.options.stream}/${this.options.group} failed`, error);
+        await new Promise(resolve => setTimeout(resolve, ERROR_BACKOFF_MS));
+      }
+    }
+  }
+
+  private async handle(handler: StreamHandler, delivery: StreamDelivery) {
+    try {
+      await tracer.withSpan(`consume ${this.options.stream}`, {
+        kind: 'consumer',
+        parent: parseTraceparent(delivery.traceparent),
+        attributes: { 'stream.group': this.options.group, 'stream.entry_id': delivery.id, deliveries: delivery.deliveries }
+      }, () => handler(delivery.data, delivery));
+      await this.ack([delivery.id]);
+      this.emit('processed', delivery);
+    } catch (error) {
+      this.emit('failed', delivery, error);
+      await this.fail(delivery.id, (error as Error).message);
+    }
+  }
+
+  private async reclaim(consumer: string, count: number): Promise<StreamDelivery[]> {
+    const { stream, group, claimIdleMs, maxDeliveries } = this.options;
+    const { entries } = await this.redis.claimIdle(stream, group, consumer, claimIdleMs, count);
+
+    if (!entries.length) {
+      return [];
+    }
+
+    const pending = await this.redis.getPending(stream, group, count * 10, entries[0].id, entries[entries.length - 1].id);
+    const deliveries = new Map(pending.map(p => [p.id, p.deliveries]));
+    const result: StreamDelivery[] = [];
+
+    for (const entry of entries) {
+      const attempts = deliveries.get(entry.id) ?? 1;
+
+      // Consumers that die mid-handler never call fail(), so enforce the limit here too
+      if (attempts > maxDeliveries) {
+        await this.redis.deadLetter(stream, group, entry, 'Exceeded max deliveries', attempts - 1);
+        continue;
+      }
+
+      result.push(this.toDelivery(entry, attempts));
+    }
+
+    return result;
+  }
+
+  private async ensureGroup() {
+    if (this.groupReady) return;
+
+    await this.redis.createConsumerGroup(this.options.stream, this.options.group, this.options.startId);
+    this.groupReady = true;
+  }
+
+  private toDelivery(entry: StreamEntry, deliveries: number): StreamDelivery {
+    const { data, schema, traceparent } = this.redis.decodeStreamMessage(entry.message);
+    return { id: entry.id, data, schema, traceparent, deliveries };
+  }
+}
@@ -0,0 +1,45 @@
+import { logger } from './utils/logger.js';
+import { PatternRules, loadJsonEnv } from './pattern-rules.js';
+import { AuthorizationError } from '../../shared/utils/error-handling.js';
+
+const DEFAULT_WRITERS: Array<[string, string[]]> = [
+  // Written by the hub itself; apps read them, e.g. updates replayed to clients
+  ['hub:updates', []],
+  ['approvals:audit', []],
+  ['app:calls', []],
+  ['context:*', []],
+  ['health:checks', []],
+  ['alerts:system', []],
+  // Filled by the hub as consumers give up on entries
+  ['*:dlq', []],
+  ['trades:executed', ['trade-runner']]
+];
+
+/**
+ * Which services may append to which streams through the gateway. Streams
+ * without a matching pattern are open to every authenticated app. Extra rules
+ * can be supplied as JSON in MCP_STREAM_WRITERS, e.g. {"signals:*": ["signal-forge"]}.
+ */
+export class StreamWriters {
+  private rules = new PatternRules<string[]>(DEFAULT_WRITERS);
+
+  constructor() {
+    loadJsonEnv('MCP_STREAM_WRITERS', (pattern, writers) => this.set(pattern, writers));
+  }
+
+  set(pattern: string, writers: string[]) {
+    this.rules.set(pattern, writers);
+  }
+
+  isAllowed(writer: string, stream: string): boolean {
+    const allowed = this.rules.resolve(stream);
+    return !allowed || allowed.includes(writer);
+  }
+
+  authorize(writer: string, stream: string) {
+    if (!this.isAllowed(writer, stream)) {
+      logger.warn(`Denied ${writer} writing to ${stream}`);
+      throw new AuthorizationError(writer, `stream ${stream}`);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { EventEmitter } from 'events';
+import { RedisManager } from './redis-manager.js';
+import { AppRegistry } from './app-registry.js';
+import { logger } from './utils/logger.js';
+
+export interface ExposedMethod {
+  appId: string;
+  method: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+  outputSchema?: Record<string, any>;
+  registeredAt: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+}
+
+// Methods every app exposes for the hub itself rather than for LLM clients
+const INFRASTRUCTURE_METHODS = ['health'];
+
+const GENERIC_INPUT_SCHEMA = { type: 'object', additionalProperties: true };
+
+/**
+ * Registry of the methods apps expose through MCPClient.exposeMethod.
+ * Each method is published to MCP clients as a tool named `<appId>.<method>`,
+ * where instances of one service publish under the service's id.
+ */
+export class ToolCatalog extends EventEmitter {
+  private catalogKey = 'app:methods';
+  private methods: Map<string, ExposedMethod> = new Map();
+
+  constructor(
+    private redis: RedisManager,
+    private appRegistry: AppRegistry
+  ) {
+    super();
+  }
+
+  async load() {
+    const saved: Record<string, ExposedMethod> = await this.redis.hGetAll(this.catalogKey);
+
+    for (const [name, method] of Object.entries(saved)) {
+      this.methods.set(name, method);
+    }
+
+    logger.info(`Loaded ${this.methods.size} exposed methods into the tool catalog`);
+  }
+
+  async registerMethod(appId: string, method: string, schema: any = {}) {
+    const name = this.toolName(appId, method);
+    const exposed: ExposedMethod = {
+      appId,
+      method,
+      description: schema.description,
+      inputSchema: this.normalizeSchema(schema.inputSchema),
+      outputSchema: schema.outputSchema,
+      registeredAt: new Date().toISOString()
+    };
+
+    this.methods.set(name, exposed);
+    await this.redis.hSet(this.catalogKey, name, exposed);
+
+    this.emit('changed', { tool: name });
+    logger.info(`Method registered: ${name}`);
+
+    return exposed;
+  }
+
+  async removeApp(appId: string) {
+    for (const [name, method] of this.methods) {
+      if (method.appId === appId) {
+        this.methods.delete(name);
+        await this.redis.hDel(this.catalogKey, name);
+      }
+    }
+
+    this.emit('changed', { app: appId });
+  }
+
+  resolve(toolName: string): ExposedMethod | undefined {
+    const method = this.methods.get(toolName);
+
+    if (!method || !this.isAvailable(method.appId)) {
+      return undefined;
+    }
+
+    return method;
+  }
+
+  getMethods(appId?: string): ExposedMethod[] {
+    return Array.from(this.methods.values())
+      .filter(method => !appId || method.appId === appId);
+  }
+
+  // Tools for every method exposed by an app that is not offline
+  listTools(): ToolDefinition[] {
+    return this.getMethods()
+      .filter(method => !INFRASTRUCTURE_METHODS.includes(method.method))
+      .filter(method => this.isAvailable(method.appId))
+      .map(method => ({
+        name: this.toolName(method.appId, method.method),
+        description: method.description ||
+          `${method.method} on ${this.appRegistry.getInstances(method.appId)[0]?.name || method.appId}`,
+        inputSchema: method.inputSchema
+      }));
+  }
+
+  toolName(appId: string, method: string) {
+    return `${appId}.${method}`;
+  }
+
+  // Available while any instance is, since calls are routed to one that is up
+  private isAvailable(appId: string) {
+    return this.appRegistry.getInstances(appId).some(app => app.status !== 'offline');
+  }
+
+  // MCP requires an object schema at the top level of a tool's input
+  private normalizeSchema(schema: any): Record<string, any> {
+    if (!schema || typeof schema !== 'object' || schema.type !== 'object') {
+      return GENERIC_INPUT_SCHEMA;
+    }
+
+    return schema;
+  }
+}
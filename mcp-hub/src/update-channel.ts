@@ -0,0 +1,186 @@
+import { ServerResponse } from 'http';
+import { RedisManager } from './redis-manager.js';
+import { logger } from './utils/logger.js';
+
+export const UPDATES_STREAM = 'hub:updates';
+const UPDATES_CHANNEL = 'hub:updates';
+const MAX_STREAM_LENGTH = 10000;
+const REPLAY_BATCH_SIZE = 500;
+const KEEPALIVE_INTERVAL = 15000;
+
+export interface HubUpdate {
+  type: string;
+  context_type?: string;
+  timestamp?: string;
+  [key: string]: any;
+}
+
+export interface UpdateEntry {
+  id: string;
+  event: HubUpdate;
+}
+
+interface Subscriber {
+  appId: string;
+  contextTypes: Set<string> | null;
+  response: ServerResponse;
+  lastEventId: string;
+  // Live events that arrive while the backlog is being replayed
+  pending: UpdateEntry[] | null;
+}
+
+/**
+ * Push channel from the hub to connected apps over Server-Sent Events.
+ * Every update is appended to a capped Redis stream, so the stream ID doubles
+ * as the SSE event ID and a reconnecting app can resume with Last-Event-ID.
+ * Live delivery fans out from a single Redis pub/sub subscription.
+ */
+export class UpdateChannel {
+  private subscribers: Set<Subscriber> = new Set();
+  private keepAliveInterval: NodeJS.Timeout | null = null;
+
+  constructor(private redis: RedisManager) {}
+
+  async start() {
+    await this.redis.subscribe(UPDATES_CHANNEL, (entry: UpdateEntry) => this.dispatch(entry));
+
+    // Comment lines keep proxies from closing idle connections
+    this.keepAliveInterval = setInterval(() => {
+      for (const subscriber of this.subscribers) {
+        subscriber.response.write(': keep-alive\n\n');
+      }
+    }, KEEPALIVE_INTERVAL);
+  }
+
+  stop() {
+    if (this.keepAliveInterval) {
+      clearInterval(this.keepAliveInterval);
+    }
+
+    for (const subscriber of this.subscribers) {
+      subscriber.response.end();
+    }
+    this.subscribers.clear();
+  }
+
+  async publish(update: HubUpdate): Promise<string> {
+    const event = { ...update, timestamp: update.timestamp || new Date().toISOString() };
+    const id = await this.redis.addToStream(UPDATES_STREAM, event, { maxLen: MAX_STREAM_LENGTH });
+
+    await this.redis.publish(UPDATES_CHANNEL, { id, event });
+    return id;
+  }
+
+  async readSince(lastEventId: string, count = REPLAY_BATCH_SIZE): Promise<UpdateEntry[]> {
+    const entries = await this.redis.readStreamRange(UPDATES_STREAM, nextStreamId(lastEventId), '+', count);
+
+    return entries.map(entry => ({
+      id: entry.id,
+      event: this.redis.parseStreamMessage(entry.message)
+    }));
+  }
+
+  async getLatestEventId(): Promise<string> {
+    const [latest] = await this.redis.readStreamReverse(UPDATES_STREAM, '+', '-', 1);
+    return latest?.id || '0-0';
+  }
+
+  async attach(
+    appId: string,
+    response: ServerResponse,
+    options: { contextTypes?: string[]; lastEventId?: string } = {}
+  ) {
+    const subscriber: Subscriber = {
+      appId,
+      contextTypes: options.contextTypes?.length ? new Set(options.contextTypes) : null,
+      response,
+      lastEventId: options.lastEventId || '0-0',
+      pending: []
+    };
+
+    this.subscribers.add(subscriber);
+    response.on('close', () => {
+      this.subscribers.delete(subscriber);
+      logger.debug(`Update stream closed for ${appId}`);
+    });
+
+    response.write('retry: 3000\n\n');
+
+    if (options.lastEventId) {
+      await this.replay(subscriber);
+    }
+
+    // Flush live events received during replay; duplicates are skipped by ID
+    const pending = subscriber.pending || [];
+    subscriber.pending = null;
+    pending.forEach(entry => this.send(subscriber, entry));
+
+    logger.info(`Update stream opened for ${appId} from ${subscriber.lastEventId}`);
+  }
+
+  private async replay(subscriber: Subscriber) {
+    // The stream is capped, so tell the app when its position has been trimmed away
+    const [oldest] = await this.redis.readStreamRange(UPDATES_STREAM, '-', '+', 1);
+    if (oldest && compareStreamIds(oldest.id, nextStreamId(subscriber.lastEventId)) > 0) {
+      subscriber.response.write(`event: resync\ndata: ${JSON.stringify({ oldest_id: oldest.id })}\n\n`);
+    }
+
+    let batch: UpdateEntry[];
+    do {
+      batch = await this.readSince(subscriber.lastEventId);
+      batch.forEach(entry => this.send(subscriber, entry));
+    } while (batch.length === REPLAY_BATCH_SIZE);
+  }
+
+  private dispatch(entry: UpdateEntry) {
+    for (const subscriber of this.subscribers) {
+      if (subscriber.pending) {
+        subscriber.pending.push(entry);
+      } else {
+        this.send(subscriber, entry);
+      }
+    }
+  }
+
+  private send(subscriber: Subscriber, entry: UpdateEntry) {
+    if (compareStreamIds(entry.id, subscriber.lastEventId) <= 0) {
+      return;
+    }
+
+    subscriber.lastEventId = entry.id;
+
+    if (!this.matches(subscriber, entry.event)) {
+      return;
+    }
+
+    subscriber.response.write(
+      `id: ${entry.id}\nevent: ${entry.event.type}\ndata: ${JSON.stringify(entry.event)}\n\n`
+    );
+  }
+
+  matches(subscriber: { contextTypes: Set<string> | null }, event: HubUpdate): boolean {
+    // Subscriptions filter context updates only; system events go to every app
+    if (!subscriber.contextTypes || event.type !== 'context_update') {
+      return true;
+    }
+
+    return subscriber.contextTypes.has(event.context_type || '');
+  }
+}
+
+function parseStreamId(id: string): [number, number] {
+  const [ms, seq = '0'] = id.split('-');
+  return [Number(ms), Number(seq)];
+}
+
+function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq] = parseStreamId(a);
+  const [bMs, bSeq] = parseStreamId(b);
+  return aMs !== bMs ? aMs - bMs : aSeq - bSeq;
+}
+
+// XRANGE is inclusive, so resume from the ID right after the last one seen
+function nextStreamId(id: string): string {
+  const [ms, seq] = parseStreamId(id);
+  return `${ms}-${seq + 1}`;
+}
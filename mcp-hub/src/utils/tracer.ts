@@ -0,0 +1,4 @@
+import { Tracer } from '../../../shared/utils/tracing.js';
+
+// Exported according to TRACE_EXPORTER, see shared/utils/tracing.ts
+export const tracer = new Tracer('mcp-hub');
@@ -0,0 +1,44 @@
+import { loadJsonEnv } from './pattern-rules.js';
+import { parseRange, parseVersion, satisfies } from './semver.js';
+import { ValidationError } from '../../shared/utils/error-handling.js';
+
+/**
+ * Version ranges the hub can work with, per service. Checked when an instance
+ * registers; services without a range accept any valid version. Ranges can be
+ * supplied as JSON in MCP_VERSION_REQUIREMENTS, e.g. {"risk-analyzer": ">=1.2.0 <3"}.
+ */
+export class VersionRequirements {
+  private ranges: Map<string, string> = new Map();
+
+  constructor() {
+    loadJsonEnv('MCP_VERSION_REQUIREMENTS', (service, range) => this.set(service, range));
+  }
+
+  set(service: string, range: string) {
+    // Fail on a bad range here rather than on every registration
+    parseRange(range);
+    this.ranges.set(service, range);
+  }
+
+  get(service: string): string | undefined {
+    return this.ranges.get(service);
+  }
+
+  check(service: string, version: string) {
+    if (!parseVersion(version)) {
+      throw new ValidationError(`Invalid version for ${service}: ${version}`, [{
+        path: ['version'],
+        message: 'Expected a semantic version such as 1.2.3'
+      }]);
+    }
+
+    const range = this.ranges.get(service);
+
+    if (range && !satisfies(version, range)) {
+      throw new ValidationError(`${service} ${version} is not compatible with this hub`, [{
+        path: ['version'],
+        message: `Expected a version satisfying ${range}`
+      }]);
+    }
+  }
+}
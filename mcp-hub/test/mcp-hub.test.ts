@@ -1,18 +1,48 @@
 import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
 import { RedisManager } from '../src/redis-manager';
+import { MemoryBackend } from '../src/memory-backend';
 import { ContextManager } from '../src/context-manager';
-import { AppRegistry } from '../src/app-registry';
+import { AppRegistry, ThrottleEvent } from '../src/app-registry';
+import { HttpGateway } from '../src/http-gateway';
+import { UpdateChannel, UPDATES_STREAM } from '../src/update-channel';
+import { ToolCatalog } from '../src/tool-catalog';
+import { ResourceProvider } from '../src/resource-provider';
+import { StreamConsumer } from '../src/stream-consumer';
+import { SimulatedExecutor } from '../src/simulated-executor';
+import { VersionRequirements } from '../src/version-requirements';
+import { ApprovalManager } from '../src/approval-manager';
+import { StrategyExecutor } from '../src/strategy-executor';
+import { satisfies } from '../src/semver';
+import { tracer } from '../src/utils/tracer';
+import { MemorySpanExporter, parseTraceparent } from '../../shared/utils/tracing';
+import { AppCredential, createSignatureHeaders } from '../../shared/utils/request-signing';
+import { Decimal } from '../../shared/utils/tagged-json';
+import { ValidationError } from '../../shared/utils/error-handling';
+import { z } from 'zod';
+import http from 'http';
 
 describe('MCP Hub Tests', () => {
   let redis: RedisManager;
   let contextManager: ContextManager;
   let appRegistry: AppRegistry;
+  let updates: UpdateChannel;
+  let toolCatalog: ToolCatalog;
+  let gateway: HttpGateway;
 
   beforeAll(async () => {
-    redis = new RedisManager();
+    // Runs offline; the Redis backend implements the same interface
+    redis = new RedisManager(new MemoryBackend());
     await redis.connect();
-    contextManager = new ContextManager(redis);
-    appRegistry = new AppRegistry(redis);
+    updates = new UpdateChannel(redis);
+    contextManager = new ContextManager(redis, updates);
+    for (const type of ['test', 'history_test', 'gateway_test']) {
+      contextManager.types.register({ type, description: 'Test context', schema: z.any(), owners: ['gateway-app'] });
+    }
+    appRegistry = new AppRegistry(redis, updates);
+    appRegistry.grants.set('test-app', { capabilities: ['test'] });
+    appRegistry.grants.set('gateway-app', { capabilities: ['test'] });
+    toolCatalog = new ToolCatalog(redis, appRegistry);
+    gateway = new HttpGateway(redis, appRegistry, contextManager, updates, toolCatalog);
   });
 
   afterAll(async () => {
@@ -45,6 +75,75 @@ describe('MCP Hub Tests', () => {
       expect(v2?.version).toBe(v1!.version + 1);
     });
 
+    it('should reject writes against a stale version', async () => {
+      const current = await contextManager.getContext('test');
+
+      await contextManager.updateContext('test', { value: 3 }, { expectedVersion: current!.version });
+
+      await expect(
+        contextManager.updateContext('test', { value: 4 }, { expectedVersion: current!.version })
+      ).rejects.toMatchObject({
+        code: 'VERSION_CONFLICT',
+        currentVersion: current!.version + 1,
+        current: expect.objectContaining({ data: { value: 3 } })
+      });
+    });
+
+    it('should apply merge and JSON patch writes to the latest value', async () => {
+      await contextManager.updateContext('test', { value: 5, tags: ['a'] });
+      await contextManager.updateContext('test', { owner: 'ai-coo' }, { mode: 'merge' });
+      const patched = await contextManager.updateContext('test', [
+        { op: 'add', path: '/tags/-', value: 'b' },
+        { op: 'remove', path: '/value' }
+      ], { mode: 'patch' });
+
+      expect(patched.data).toEqual({ tags: ['a', 'b'], owner: 'ai-coo' });
+    });
+
+    it('should keep every version for point-in-time reads and diffs', async () => {
+      const first = await contextManager.updateContext('history_test', { price: 100, symbols: ['BTC'] });
+      const between = new Date();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const second = await contextManager.updateContext('history_test', { price: 101, symbols: ['BTC', 'ETH'] });
+
+      expect((await contextManager.getContextVersion('history_test', first.version))?.data.price).toBe(100);
+      expect((await contextManager.getContextAt('history_test', between))?.version).toBe(first.version);
+
+      const diff = await contextManager.diffContext('history_test', first.version, second.version);
+
+      expect(diff?.patch).toEqual([
+        { op: 'replace', path: '/price', value: 101 },
+        { op: 'add', path: '/symbols/1', value: 'ETH' }
+      ]);
+    });
+
+    it('should find versions appended out of order and keep dates in history', async () => {
+      const layer = (version: number) => ({
+        id: `ctx_${version}`, type: 'history_test', data: { at: new Date(1700000000000 + version) }, timestamp: new Date(), version
+      });
+      // Two writers whose history appends landed in the opposite order to their versions
+      await redis.addToStream('context:history:reorder_test', { version: 3, context: layer(3) });
+      await redis.addToStream('context:history:reorder_test', { version: 2, context: layer(2) });
+
+      const found = await contextManager.getContextVersion('reorder_test', 3);
+      expect(found?.data.at).toEqual(new Date(1700000000003));
+      expect((await contextManager.getContextAt('reorder_test', Date.now()))?.version).toBe(3);
+
+      const written = await contextManager.updateContext('history_test', { at: new Date(1700000000000) });
+      expect((await contextManager.getContextVersion('history_test', written.version))?.timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should reject unregistered types and data that fails the schema', async () => {
+      await expect(contextManager.updateContext('unknown_type', { value: 1 }))
+        .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+      await expect(contextManager.updateContext('portfolio', { positions: {}, total_value: 'lots' }))
+        .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+      await expect(contextManager.updateContext('portfolio', { cash: 0, total_value: 0 }, { writer: 'bot-concierge' }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
     it('should gather report data correctly', async () => {
       // Set up test data
       await contextManager.updateContext('portfolio', {
@@ -85,12 +184,437 @@ describe('MCP Hub Tests', () => {
       expect(retrieved).toEqual(testApp);
     });
 
+    it('should refuse capabilities and services an app was not granted', async () => {
+      const app = {
+        name: 'Rogue App',
+        url: 'http://127.0.0.1:1',
+        type: 'external' as const,
+        status: 'online' as const,
+        lastSeen: new Date(),
+        version: '1.0.0'
+      };
+
+      await expect(appRegistry.registerApp({ ...app, id: 'data-hub', capabilities: ['market_data', 'execution'] }))
+        .rejects.toThrow('data-hub may not provide execution');
+      await expect(appRegistry.registerApp({ ...app, id: 'rogue-app', capabilities: ['risk_assessment'] }))
+        .rejects.toThrow(ValidationError);
+      await expect(appRegistry.registerApp({ ...app, id: 'rogue-app', service: 'trade-runner', capabilities: [] }))
+        .rejects.toThrow('rogue-app may not register as an instance of trade-runner');
+
+      expect(appRegistry.getApp('rogue-app')).toBeUndefined();
+      expect(appRegistry.grants.resolve('trade-runner-2')).toMatchObject({ services: ['trade-runner'] });
+    });
+
     it('should filter online apps', async () => {
       const apps = appRegistry.getOnlineApps();
       const onlineCount = apps.filter(a => a.status === 'online').length;
       
       expect(apps).toHaveLength(onlineCount);
     });
+
+    it('should only retry idempotent methods', () => {
+      expect(appRegistry.policies.resolve('data-hub', 'get_market_data')).toMatchObject({ idempotent: true, retries: 2 });
+      expect(appRegistry.policies.resolve('trade-runner', 'execute')).toMatchObject({ idempotent: false, retries: 0 });
+    });
+
+    it('should report failed calls and mark unreachable apps offline', async () => {
+      await appRegistry.registerApp({
+        id: 'unreachable-app',
+        name: 'Unreachable App',
+        url: 'http://127.0.0.1:1',
+        type: 'external',
+        capabilities: [],
+        status: 'online',
+        lastSeen: new Date(),
+        version: '1.0.0'
+      });
+
+      const calls: any[] = [];
+      appRegistry.on('call', event => calls.push(event));
+
+      await expect(appRegistry.callApp('unreachable-app', 'do_work', {})).rejects.toThrow();
+
+      expect(calls).toEqual([expect.objectContaining({
+        appId: 'unreachable-app',
+        method: 'do_work',
+        status: 'failed',
+        errorType: 'connection',
+        attempts: 1
+      })]);
+      expect(appRegistry.getApp('unreachable-app')?.status).toBe('offline');
+      expect(appRegistry.getCircuitState('unreachable-app', 'do_work')).toBe('closed');
+    });
+
+    it('should fill simulated calls to side-effecting methods from market_data history', async () => {
+      const simulating = new AppRegistry(redis, updates, undefined, undefined, undefined, new SimulatedExecutor(contextManager, 10));
+      await simulating.registerApp({
+        id: 'trade-runner',
+        name: 'Trade Runner',
+        url: 'http://127.0.0.1:1',
+        type: 'replit',
+        capabilities: ['execution'],
+        status: 'offline',
+        lastSeen: new Date(),
+        version: '1.0.0'
+      });
+      await contextManager.updateContext('market_data', { prices: { BTC: 50000 } });
+      const { cash } = await contextManager.getPortfolioState();
+
+      const execution = await simulating.callApp('trade-runner', 'executeRebalance', {
+        orders: [{ asset: 'BTC', side: 'buy', value: 5000 }, { asset: 'ETH', side: 'buy', value: 1000 }]
+      }, 'ai-coo', { simulation: true });
+
+      expect(execution.fills).toEqual([
+        expect.objectContaining({ asset: 'BTC', status: 'filled', fill_price: 50050 }),
+        expect.objectContaining({ asset: 'ETH', status: 'rejected' })
+      ]);
+      expect((await contextManager.getContext('shadow:portfolio'))?.data.cash).toBe(cash - 5000);
+      expect((await contextManager.getPortfolioState()).cash).toBe(cash);
+
+      // Reads still go to the app
+      await expect(simulating.callApp('trade-runner', 'get_positions', {}, 'ai-coo', { simulation: true }))
+        .rejects.toThrow('App offline');
+    });
+
+    it('should simulate a strategy execution as buys split evenly over its symbols', async () => {
+      const simulator = new SimulatedExecutor(contextManager, 10);
+      await contextManager.updateContext('market_data', { prices: { BTC: 50000, ETH: 2500, SOL: 100 } });
+      const { total_value } = await simulator.getPortfolio();
+
+      const execution = await simulator.execute('trade-runner', 'execute', {
+        strategy_id: 'momentum_1', allocation: 0.1, symbols: ['BTC', 'ETH']
+      });
+
+      expect(execution.orders).toEqual([
+        { asset: 'BTC', side: 'buy', value: total_value * 0.05 },
+        { asset: 'ETH', side: 'buy', value: total_value * 0.05 }
+      ]);
+      expect(execution.fills.map(fill => fill.status)).toEqual(['filled', 'filled']);
+
+      // Like trade-runner, no symbols means its default basket
+      const defaults = await simulator.execute('trade-runner', 'execute', { strategy_id: 'momentum_1', allocation: 0.1 });
+      expect(defaults.orders.map(order => order.asset)).toEqual(['BTC', 'ETH', 'SOL']);
+    });
+
+    it('should degrade and then take offline apps whose lease lapses, until they heartbeat again', async () => {
+      // Own registry, so the sweeps below don't lapse the leases of the shared one
+      const leasing = new AppRegistry(redis, updates);
+      await leasing.registerApp({
+        id: 'lease-app',
+        name: 'Lease App',
+        url: 'http://127.0.0.1:1',
+        type: 'external',
+        capabilities: [],
+        status: 'online',
+        lastSeen: new Date(),
+        version: '1.0.0'
+      });
+      const registeredAt = Date.now();
+      const statuses: string[] = [];
+      await redis.subscribe('app:status_change', message => {
+        if (message.appId === 'lease-app') statuses.push(message.status);
+      });
+
+      await leasing.sweepLeases(new Date(registeredAt + 60000));
+      expect(leasing.getApp('lease-app')?.status).toBe('online');
+
+      await leasing.sweepLeases(new Date(registeredAt + 90000));
+      expect(leasing.getApp('lease-app')?.status).toBe('degraded');
+
+      await leasing.sweepLeases(new Date(registeredAt + 160000));
+      expect(leasing.getApp('lease-app')?.status).toBe('offline');
+
+      const renewedAt = new Date(registeredAt + 170000);
+      await leasing.renewLease('lease-app', renewedAt);
+      expect(leasing.getApp('lease-app')?.status).toBe('online');
+      expect((await leasing.getLease('lease-app'))?.expires_at).toBe(new Date(renewedAt.getTime() + 75000).toISOString());
+      await new Promise(resolve => setImmediate(resolve));
+      expect(statuses).toEqual(['degraded', 'offline', 'online']);
+    });
+
+    it('should match versions against npm-style ranges', () => {
+      expect(satisfies('1.4.2', '^1.2.0')).toBe(true);
+      expect(satisfies('2.0.0-beta.1', '^1.2.0')).toBe(false);
+      expect(satisfies('0.2.9', '^0.2.3')).toBe(true);
+      expect(satisfies('0.3.0', '^0.2.3')).toBe(false);
+      expect(satisfies('1.2.9', '~1.2')).toBe(true);
+      expect(satisfies('2.1.0', '>=1.2.0 <2 || 2.1.x')).toBe(true);
+      expect(satisfies('1.0.0-rc.2', '>1.0.0-rc.10')).toBe(false);
+      expect(satisfies('latest', '*')).toBe(false);
+      expect(() => satisfies('1.0.0', '>=one')).toThrow(ValidationError);
+    });
+
+    it('should refuse to register instances outside the required version range', async () => {
+      const versions = new VersionRequirements();
+      versions.set('risk-analyzer', '>=1.2.0 <3');
+      const registry = new AppRegistry(redis, updates, undefined, undefined, undefined, null, versions);
+      const instance = {
+        id: 'risk-analyzer-2',
+        service: 'risk-analyzer',
+        name: 'Risk Analyzer',
+        url: 'http://127.0.0.1:1',
+        type: 'replit' as const,
+        capabilities: ['risk_assessment'],
+        status: 'online' as const,
+        lastSeen: new Date(),
+        version: '1.1.9'
+      };
+
+      await expect(registry.registerApp(instance)).rejects.toThrow('not compatible');
+      await expect(registry.registerApp({ ...instance, version: 'latest' })).rejects.toThrow(ValidationError);
+      expect(registry.getApp('risk-analyzer-2')).toBeUndefined();
+
+      await registry.registerApp({ ...instance, version: '2.1.0' });
+      expect(registry.getInstances('risk-analyzer').map(app => app.id)).toEqual(['risk-analyzer-2']);
+      expect(registry.policies.resolve(registry.serviceOf('risk-analyzer-2'), 'check_risk'))
+        .toEqual(registry.policies.resolve('risk-analyzer', 'check_risk'));
+    });
+
+    it('should balance capability calls between instances and fail over from unreachable ones', async () => {
+      const served: string[] = [];
+      const servers = await Promise.all(['a', 'b'].map(name => new Promise<http.Server>(resolve => {
+        const server = http.createServer((request, response) => {
+          served.push(name);
+          response.setHeader('Content-Type', 'application/json');
+          response.end(JSON.stringify({ result: { instance: name } }));
+        });
+        server.listen(0, '127.0.0.1', () => resolve(server));
+      })));
+      const urlOf = (server: http.Server) => `http://127.0.0.1:${(server.address() as any).port}`;
+
+      const registry = new AppRegistry(redis, updates);
+      const instance = (id: string, url: string, version: string) => registry.registerApp({
+        id,
+        service: 'data-hub',
+        name: 'Data Hub',
+        url,
+        type: 'replit',
+        capabilities: ['market_data'],
+        status: 'online',
+        lastSeen: new Date(),
+        version
+      });
+      await instance('data-hub-a', urlOf(servers[0]), '1.0.0');
+      await instance('data-hub-b', urlOf(servers[1]), '2.0.0');
+      await instance('data-hub-down', 'http://127.0.0.1:1', '1.0.0');
+
+      try {
+        for (let i = 0; i < 4; i++) {
+          await registry.callCapability('market_data', 'refresh_cache', {});
+        }
+
+        // The third call went to the unreachable instance first, then on to a
+        expect(served).toEqual(['a', 'b', 'a', 'b']);
+        expect(registry.getApp('data-hub-down')?.status).toBe('offline');
+
+        await expect(registry.callCapability('market_data', 'refresh_cache', {}, 'mcp-hub', {}, { version: '^2.0.0' }))
+          .resolves.toEqual({ instance: 'b' });
+        await expect(registry.callService('data-hub', 'refresh_cache', {})).resolves.toHaveProperty('instance');
+        await expect(registry.callCapability('market_data', 'refresh_cache', {}, 'mcp-hub', {}, { version: '^3.0.0' }))
+          .rejects.toThrow('No app provides market_data ^3.0.0');
+      } finally {
+        await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+      }
+    });
+
+    it('should charge a daily quota once per call, however many instances it tries, and not for failures', async () => {
+      let requests = 0;
+      const server = await new Promise<http.Server>(resolve => {
+        const target = http.createServer((request, response) => {
+          response.statusCode = ++requests === 1 ? 500 : 200;
+          response.setHeader('Content-Type', 'application/json');
+          response.end(JSON.stringify(requests === 1 ? { error: 'Cache unavailable' } : { result: { ok: true } }));
+        });
+        target.listen(0, '127.0.0.1', () => resolve(target));
+      });
+
+      const registry = new AppRegistry(redis, updates);
+      registry.limits.set('quota-caller:data-hub.refresh_cache', { perMinute: 600, perDay: 2 });
+      for (const [id, url] of [['data-hub-gone', 'http://127.0.0.1:1'], ['data-hub-up', `http://127.0.0.1:${(server.address() as any).port}`]]) {
+        await registry.registerApp({
+          id,
+          service: 'data-hub',
+          name: 'Data Hub',
+          url,
+          type: 'replit',
+          capabilities: ['market_data'],
+          status: 'online',
+          lastSeen: new Date(),
+          version: '1.0.0'
+        });
+      }
+
+      try {
+        const call = () => registry.callCapability('market_data', 'refresh_cache', {}, 'quota-caller');
+
+        // Fails over from the unreachable instance, then fails on the other one
+        await expect(call()).rejects.toThrow();
+        await expect(call()).resolves.toEqual({ ok: true });
+        await expect(call()).resolves.toEqual({ ok: true });
+        await expect(call()).rejects.toMatchObject({ limit: 'quota' });
+        expect(requests).toBe(3);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+
+  describe('Strategy Execution', () => {
+    const calls: Array<{ path: string; body: any }> = [];
+    let servers: http.Server[] = [];
+    let registry: AppRegistry;
+    let approvals: ApprovalManager;
+    let strategies: StrategyExecutor;
+    const risk = { approved: true, approved_allocation: 0.01, metrics: { assets: ['BTC', 'AVAX'] } };
+
+    // Answers every method with the given result
+    const serve = (result: any) => new Promise<http.Server>(resolve => {
+      const server = http.createServer((request, response) => {
+        let body = '';
+        request.on('data', chunk => body += chunk);
+        request.on('end', () => {
+          calls.push({ path: request.url!, body: JSON.parse(body || '{}') });
+          response.setHeader('Content-Type', 'application/json');
+          response.end(JSON.stringify({ result }));
+        });
+      });
+      server.listen(0, '127.0.0.1', () => resolve(server));
+    });
+
+    beforeAll(async () => {
+      servers = await Promise.all([
+        serve(risk),
+        serve({ order_id: 'order-1', status: 'filled' })
+      ]);
+      // Default scopes, as the hub runs them
+      registry = new AppRegistry(redis, updates);
+      approvals = new ApprovalManager(redis, updates);
+      strategies = new StrategyExecutor(registry, contextManager, approvals);
+
+      for (const [index, [id, capability]] of [['risk-analyzer', 'risk_assessment'], ['trade-runner', 'execution']].entries()) {
+        await registry.registerApp({
+          id,
+          name: id,
+          url: `http://127.0.0.1:${(servers[index].address() as any).port}`,
+          type: 'external',
+          capabilities: [capability],
+          status: 'online',
+          lastSeen: new Date(),
+          version: '1.0.0'
+        });
+      }
+    });
+
+    afterAll(async () => {
+      await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+    });
+
+    it('should check risk and execute as the hub under the default scopes', async () => {
+      const result = await strategies.execute({ strategy_id: 'momentum_1', allocation: 0.02 });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({ order_id: 'order-1', status: 'filled' });
+      expect(calls.map(call => call.path)).toEqual(['/api/check_risk', '/api/execute']);
+      // Trades the assets the risk check covered, not trade-runner's default basket
+      expect(calls[1].body).toMatchObject({ strategy_id: 'momentum_1', allocation: 0.01, symbols: ['BTC', 'AVAX'] });
+      expect((await contextManager.getContext('trade_execution'))?.data.order_id).toBe('order-1');
+    });
+
+    it('should keep an approval for a trade the risk check turns down', async () => {
+      const args = { strategy_id: 'momentum_2', allocation: 0.2 };
+      const pending = await strategies.execute(args);
+      const approvalId = pending.content[0].text.match(/approval_\S+/)[0];
+      await approvals.decide(approvalId, { decision: 'approve', decidedBy: 'risk-officer' });
+
+      calls.length = 0;
+      risk.approved = false;
+      try {
+        const declined = await strategies.execute({ ...args, approval_id: approvalId });
+        expect(declined.content[0].text).toContain('Risk check failed');
+      } finally {
+        risk.approved = true;
+      }
+
+      expect((await approvals.get(approvalId))?.consumed_at).toBeUndefined();
+
+      await strategies.execute({ ...args, approval_id: approvalId });
+      expect(calls.map(call => call.path)).toEqual(['/api/check_risk', '/api/check_risk', '/api/execute']);
+      expect((await approvals.get(approvalId))?.consumed_at).toBeDefined();
+    });
+
+    it('should only keep the outcome of an idempotent execution once it is approved', async () => {
+      const args = { strategy_id: 'momentum_3', allocation: 0.2, idempotency_key: `strategy-${Date.now()}` };
+      const pending = await strategies.execute(args);
+      const approvalId = pending.content[0].text.match(/approval_\S+/)[0];
+
+      // A retry while waiting is still waiting on the same approval
+      expect((await strategies.execute(args)).content[0].text).toContain(approvalId);
+
+      await approvals.decide(approvalId, { decision: 'approve', decidedBy: 'risk-officer' });
+      calls.length = 0;
+
+      const executed = await strategies.execute({ ...args, approval_id: approvalId });
+      const replayed = await strategies.execute(args);
+
+      expect(JSON.parse(executed.content[0].text)).toEqual({ order_id: 'order-1', status: 'filled' });
+      expect(replayed).toEqual(executed);
+      expect(calls.map(call => call.path)).toEqual(['/api/check_risk', '/api/execute']);
+    });
+
+    it('should reject de-risking approvals nobody answers by default', () => {
+      expect(approvals.policies.resolve('ai-coo.reduce_positions')?.onTimeout).toBe('reject');
+      expect(approvals.policies.resolve('ai-coo.increase_cash')?.onTimeout).toBe('reject');
+    });
+  });
+
+  describe('Memory Backend', () => {
+    let backend: MemoryBackend;
+
+    beforeAll(() => {
+      backend = new MemoryBackend();
+    });
+
+    it('should expire keys after their TTL', async () => {
+      await backend.set('ttl:key', 'value', 0.01);
+
+      expect(await backend.get('ttl:key')).toBe('value');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(await backend.get('ttl:key')).toBeNull();
+    });
+
+    it('should generate increasing stream IDs and honour exclusive ranges', async () => {
+      const first = await backend.xAdd('ids:stream', { n: '1' });
+      const second = await backend.xAdd('ids:stream', { n: '2' });
+
+      expect(second).not.toBe(first);
+      expect((await backend.xRange('ids:stream', `(${first}`, '+')).map(e => e.id)).toEqual([second]);
+      expect((await backend.xRevRange('ids:stream', '+', '-', 1))[0].id).toBe(second);
+    });
+
+    it('should wake blocked readers when an entry arrives', async () => {
+      const read = backend.xRead('block:stream', '$', { blockMs: 1000 });
+      await backend.xAdd('block:stream', { n: '1' });
+
+      expect((await read).map(e => e.message)).toEqual([{ n: '1' }]);
+      expect(await backend.xRead('block:stream', '$', { blockMs: 10 })).toEqual([]);
+    });
+
+    it('should track pending entries per consumer group and reclaim idle ones', async () => {
+      await backend.xGroupCreate('group:stream', 'workers', '0');
+      await backend.xAdd('group:stream', { n: '1' });
+      await backend.xAdd('group:stream', { n: '2' });
+
+      const delivered = await backend.xReadGroup('group:stream', 'workers', 'a');
+      expect(delivered).toHaveLength(2);
+      expect(await backend.xReadGroup('group:stream', 'workers', 'b')).toEqual([]);
+
+      await backend.xAck('group:stream', 'workers', [delivered[0].id]);
+
+      const claimed = await backend.xAutoClaim('group:stream', 'workers', 'b', 0);
+      expect(claimed.entries.map(e => e.id)).toEqual([delivered[1].id]);
+      expect(await backend.xPending('group:stream', 'workers')).toEqual([
+        expect.objectContaining({ id: delivered[1].id, consumer: 'b', deliveries: 2 })
+      ]);
+    });
   });
 
   describe('Redis Streams', () => {
@@ -107,5 +631,600 @@ describe('MCP Hub Tests', () => {
       expect(messages).toHaveLength(1);
       expect(messages[0].message['event']).toBe('"test"');
     });
+
+    it('should round-trip nested objects, dates, bigints and decimals', async () => {
+      const entry = {
+        trade: { symbol: 'BTC', fills: [{ qty: new Decimal('0.10'), at: new Date('2024-01-02T03:04:05.000Z') }] },
+        notional: 12345678901234567890n,
+        '$date': 'not a tag'
+      };
+
+      const id = await redis.addToStream('codec:stream', entry);
+      const [stored] = await redis.readStreamRange('codec:stream', id, id);
+
+      expect(redis.parseStreamMessage(stored.message)).toEqual(entry);
+    });
+
+    it('should validate and tag entries of streams with a schema', async () => {
+      redis.codec.registerSchema('tagged:stream', { name: 'tagged', version: 2, schema: z.object({ n: z.number() }) });
+
+      const id = await redis.addToStream('tagged:stream', { n: 1 });
+      const [stored] = await redis.readStreamRange('tagged:stream', id, id);
+
+      expect(redis.decodeStreamMessage(stored.message)).toEqual({ data: { n: 1 }, schema: 'tagged@2' });
+      await expect(redis.addToStream('tagged:stream', { n: 'one' })).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+
+    it('should retry failed entries and dead-letter them after max deliveries', async () => {
+      const consumer = new StreamConsumer(redis, {
+        stream: 'jobs:stream',
+        group: 'workers',
+        startId: '0',
+        blockMs: 10,
+        claimIdleMs: 0,
+        maxDeliveries: 2
+      });
+      const seen: string[] = [];
+
+      await redis.addToStream('jobs:stream', { job: 'ok' });
+      await redis.addToStream('jobs:stream', { job: 'poison' });
+
+      await consumer.start(async (data, delivery) => {
+        seen.push(`${data.job}#${delivery.deliveries}`);
+        if (data.job === 'poison') throw new Error('cannot process');
+      });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await consumer.stop();
+
+      expect(seen).toEqual(['ok#1', 'poison#1', 'poison#2']);
+      expect(await redis.getPending('jobs:stream', 'workers')).toEqual([]);
+
+      const [dead] = await redis.readStreamRange('jobs:stream:dlq');
+      expect(redis.parseStreamMessage(dead.message)).toMatchObject({ job: 'poison', dlq: { reason: 'cannot process', deliveries: 2 } });
+    });
+  });
+
+  describe('Tool Catalog', () => {
+    it('should publish exposed methods as namespaced tools', async () => {
+      await toolCatalog.registerMethod('test-app', 'get_alerts', {
+        description: 'List active alerts',
+        inputSchema: {
+          type: 'object',
+          properties: { status: { type: 'string' } }
+        }
+      });
+
+      const tool = toolCatalog.listTools().find(t => t.name === 'test-app.get_alerts');
+
+      expect(tool?.description).toBe('List active alerts');
+      expect(tool?.inputSchema.properties.status).toEqual({ type: 'string' });
+      expect(toolCatalog.resolve('test-app.get_alerts')?.method).toBe('get_alerts');
+    });
+
+    it('should hide tools of offline apps', async () => {
+      await appRegistry.updateAppStatus('test-app', 'offline');
+
+      expect(toolCatalog.resolve('test-app.get_alerts')).toBeUndefined();
+      expect(toolCatalog.listTools().map(t => t.name)).not.toContain('test-app.get_alerts');
+
+      await appRegistry.updateAppStatus('test-app', 'online');
+    });
+  });
+
+  describe('Resources', () => {
+    let resources: ResourceProvider;
+
+    beforeAll(() => {
+      resources = new ResourceProvider(redis, contextManager);
+    });
+
+    it('should list context layers and hub streams', async () => {
+      const uris = (await resources.listResources()).map(r => r.uri);
+
+      expect(uris).toContain('context://portfolio');
+      expect(uris).toContain('stream://trades:executed');
+    });
+
+    it('should read a context layer as JSON', async () => {
+      const [content] = await resources.read('context://portfolio');
+
+      expect(content.mimeType).toBe('application/json');
+      expect(JSON.parse(content.text).data.total_value).toBe(150000);
+    });
+
+    it('should reject unknown resources', async () => {
+      await expect(resources.read('stream://not-a-stream')).rejects.toThrow('Unknown stream resource');
+    });
+  });
+
+  describe('HTTP Gateway', () => {
+    const bootstrap = { 'x-mcp-token': 'test-token' };
+    let credential: AppCredential;
+
+    // Requests after registration are signed with the credential the hub issued
+    const sendAs = (appId: string, appCredential: AppCredential) =>
+      (method: 'GET' | 'POST', url: string, body?: any, headers: Record<string, string> = {}) => {
+        const payload = body === undefined ? undefined : JSON.stringify(body);
+
+        return gateway.app.inject({
+          method,
+          url,
+          payload,
+          headers: {
+            ...headers,
+            ...(payload ? { 'content-type': 'application/json' } : {}),
+            ...createSignatureHeaders(appId, appCredential, {
+              method,
+              path: url,
+              body: payload
+            })
+          }
+        });
+      };
+    const send: ReturnType<typeof sendAs> = (...args) => sendAs('gateway-app', credential)(...args);
+    // A second instance of gateway-app, registered below
+    let sendAsSecond: ReturnType<typeof sendAs>;
+
+    beforeAll(async () => {
+      process.env.MCP_AUTH_TOKEN = 'test-token';
+      await appRegistry.credentials.revoke('gateway-app');
+    });
+
+    it('should reject requests without the hub token', async () => {
+      const response = await gateway.app.inject({ method: 'GET', url: '/context' });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should issue a credential on first registration and accept signed heartbeats', async () => {
+      const register = await gateway.app.inject({
+        method: 'POST',
+        url: '/register',
+        headers: bootstrap,
+        payload: {
+          id: 'gateway-app',
+          name: 'Gateway App',
+          url: 'http://localhost:3100',
+          type: 'replit',
+          capabilities: ['test'],
+          version: '1.0.0'
+        }
+      });
+
+      expect(register.statusCode).toBe(200);
+      expect(appRegistry.getApp('gateway-app')?.status).toBe('online');
+
+      credential = register.json().credential;
+      expect(credential.keyId).toBeDefined();
+
+      const heartbeat = await send('POST', '/heartbeat', { appId: 'gateway-app', status: 'online' });
+
+      expect(heartbeat.statusCode).toBe(200);
+    });
+
+    it('should not issue a credential for a registration claiming capabilities it was not granted', async () => {
+      const register = await gateway.app.inject({
+        method: 'POST',
+        url: '/register',
+        headers: bootstrap,
+        payload: {
+          id: 'impostor-app',
+          name: 'Impostor App',
+          url: 'http://localhost:3101',
+          type: 'replit',
+          capabilities: ['execution'],
+          version: '1.0.0'
+        }
+      });
+
+      expect(register.statusCode).toBe(400);
+      expect(register.json().credential).toBeUndefined();
+      expect(appRegistry.credentials.has('impostor-app')).toBe(false);
+    });
+
+    it('should not let the bootstrap token re-register an app that holds a credential', async () => {
+      const response = await gateway.app.inject({
+        method: 'GET',
+        url: '/context',
+        headers: bootstrap
+      });
+      const register = await gateway.app.inject({
+        method: 'POST',
+        url: '/register',
+        headers: bootstrap,
+        payload: { id: 'gateway-app', name: 'Impostor', url: 'http://evil.example', type: 'external' }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(register.statusCode).toBe(401);
+    });
+
+    it('should reject tampered bodies or queries and calls made under another app id', async () => {
+      const signedFor = JSON.stringify({ appId: 'gateway-app', type: 'gateway_test', data: { value: 1 } });
+      const tampered = await gateway.app.inject({
+        method: 'POST',
+        url: '/context/update',
+        payload: JSON.stringify({ appId: 'gateway-app', type: 'gateway_test', data: { value: 999 } }),
+        headers: {
+          'content-type': 'application/json',
+          ...createSignatureHeaders('gateway-app', credential, { method: 'POST', path: '/context/update', body: signedFor })
+        }
+      });
+      const requery = await gateway.app.inject({
+        method: 'GET',
+        url: '/context?type=portfolio',
+        headers: createSignatureHeaders('gateway-app', credential, { method: 'GET', path: '/context?type=gateway_test' })
+      });
+      const impersonated = await send('POST', '/call', { from: 'ai-coo', to: 'trade-runner', method: 'execute', params: {} });
+
+      expect(tampered.statusCode).toBe(401);
+      expect(requery.statusCode).toBe(401);
+      expect(impersonated.statusCode).toBe(403);
+    });
+
+    it('should enforce method scopes on routed calls', async () => {
+      const response = await send('POST', '/call', { from: 'gateway-app', to: 'trade-runner', method: 'execute', params: {} });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().code).toBe('FORBIDDEN');
+
+      // Every trade-runner method that acts is restricted, its reads are not
+      for (const method of ['place_order', 'cancel_order', 'cancelRebalance', 'resume_trading']) {
+        expect(appRegistry.scopes.isAllowed('bot-concierge', 'trade-runner', method)).toBe(false);
+        expect(appRegistry.scopes.isAllowed('ops-console', 'trade-runner', method)).toBe(true);
+        expect(appRegistry.policies.resolve('trade-runner', method).sideEffects).toBe(true);
+      }
+      expect(appRegistry.scopes.isAllowed('bot-concierge', 'trade-runner', 'get_positions')).toBe(true);
+      expect(appRegistry.scopes.isAllowed('mcp-hub', 'trade-runner', 'health')).toBe(true);
+    });
+
+    it('should continue the caller\'s trace through routed calls and stream entries', async () => {
+      const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+      const traceparent = `00-${traceId}-00f067aa0ba902b7-01`;
+      const exporter = new MemorySpanExporter();
+      const received: http.IncomingHttpHeaders[] = [];
+      const target = await new Promise<http.Server>(resolve => {
+        const server = http.createServer((request, response) => {
+          received.push(request.headers);
+          response.setHeader('Content-Type', 'application/json');
+          response.end(JSON.stringify({ result: { ok: true } }));
+        });
+        server.listen(0, '127.0.0.1', () => resolve(server));
+      });
+      tracer.setExporter(exporter);
+
+      try {
+        await appRegistry.registerApp({
+          id: 'traced-app',
+          name: 'Traced App',
+          url: `http://127.0.0.1:${(target.address() as any).port}`,
+          type: 'external',
+          capabilities: [],
+          status: 'online',
+          lastSeen: new Date(),
+          version: '1.0.0'
+        });
+
+        const call = await send('POST', '/call', {
+          from: 'gateway-app', to: 'traced-app', method: 'get_status', params: {}
+        }, { traceparent });
+        const stream = await send('POST', '/stream', {
+          appId: 'gateway-app', stream: 'trace_test', data: { value: 1 }
+        }, { traceparent });
+
+        expect(call.json()).toEqual({ ok: true });
+        expect(stream.statusCode).toBe(200);
+        await tracer.flush();
+
+        const route = exporter.spans.find(span => span.name === 'route traced-app.get_status')!;
+        const outbound = exporter.spans.find(span => span.name === 'traced-app.get_status')!;
+        expect(route).toMatchObject({ trace_id: traceId, parent_span_id: '00f067aa0ba902b7', kind: 'server' });
+        expect(outbound).toMatchObject({ trace_id: traceId, parent_span_id: route.span_id, kind: 'client', status: 'ok' });
+        expect(parseTraceparent(received[0].traceparent)).toEqual({ traceId, spanId: outbound.span_id, sampled: true });
+
+        const [entry] = await redis.readStreamReverse('trace_test', '+', '-', 1);
+        const written = exporter.spans.find(span => span.name === 'stream trace_test')!;
+        expect(redis.decodeStreamMessage(entry.message).traceparent).toBe(`00-${traceId}-${written.span_id}-01`);
+      } finally {
+        tracer.setExporter(null);
+        await new Promise(resolve => target.close(resolve));
+      }
+    });
+
+    it('should throttle routed calls past their rate limit or daily quota with 429', async () => {
+      const throttled: ThrottleEvent[] = [];
+      const target = await new Promise<http.Server>(resolve => {
+        const server = http.createServer((request, response) => {
+          response.setHeader('Content-Type', 'application/json');
+          response.end(JSON.stringify({ result: { ok: true } }));
+        });
+        server.listen(0, '127.0.0.1', () => resolve(server));
+      });
+      appRegistry.limits.set('gateway-app:throttled-app.get_*', { perMinute: 60, burst: 2 });
+      appRegistry.limits.set('gateway-app:throttled-app.get_daily', { perMinute: 600, perDay: 1 });
+      appRegistry.on('throttled', event => throttled.push(event));
+
+      try {
+        await appRegistry.registerApp({
+          id: 'throttled-app',
+          name: 'Throttled App',
+          url: `http://127.0.0.1:${(target.address() as any).port}`,
+          type: 'external',
+          capabilities: [],
+          status: 'online',
+          lastSeen: new Date(),
+          version: '1.0.0'
+        });
+        const call = (method: string) => send('POST', '/call', { from: 'gateway-app', to: 'throttled-app', method, params: {} });
+
+        expect((await call('get_quote')).statusCode).toBe(200);
+        expect((await call('get_quote')).statusCode).toBe(200);
+        const limited = await call('get_quote');
+        expect(limited.statusCode).toBe(429);
+        expect(limited.headers['retry-after']).toBe('1');
+        expect(limited.json()).toMatchObject({ code: 'RATE_LIMITED', limit: 'rate' });
+        expect(limited.json().retry_after_ms).toBeGreaterThan(0);
+        expect(limited.json().retry_after_ms).toBeLessThanOrEqual(1000);
+
+        // Buckets are per method
+        expect((await call('get_daily')).statusCode).toBe(200);
+        const exhausted = await call('get_daily');
+        expect(exhausted.statusCode).toBe(429);
+        expect(exhausted.json().limit).toBe('quota');
+        expect(Number(exhausted.headers['retry-after'])).toBeLessThanOrEqual(24 * 60 * 60);
+
+        // Health probes are exempt
+        await expect(appRegistry.callApp('throttled-app', 'health', {}, 'gateway-app')).resolves.toEqual({ ok: true });
+        expect(throttled.map(event => [event.caller, event.method, event.limit])).toEqual([
+          ['gateway-app', 'get_quote', 'rate'],
+          ['gateway-app', 'get_daily', 'quota']
+        ]);
+      } finally {
+        appRegistry.removeAllListeners('throttled');
+        await new Promise(resolve => target.close(resolve));
+      }
+    });
+
+    it('should answer repeated idempotency keys from the store and refuse reuse with other params', async () => {
+      const received: http.IncomingHttpHeaders[] = [];
+      const target = await new Promise<http.Server>(resolve => {
+        const server = http.createServer((request, response) => {
+          received.push(request.headers);
+          setTimeout(() => {
+            response.setHeader('Content-Type', 'application/json');
+            response.end(JSON.stringify({ result: { order: received.length } }));
+          }, 50);
+        });
+        server.listen(0, '127.0.0.1', () => resolve(server));
+      });
+
+      try {
+        await appRegistry.registerApp({
+          id: 'order-app',
+          name: 'Order App',
+          url: `http://127.0.0.1:${(target.address() as any).port}`,
+          type: 'external',
+          capabilities: [],
+          status: 'online',
+          lastSeen: new Date(),
+          version: '1.0.0'
+        });
+        const call = (params: any, key = 'order-1') => send('POST', '/call', {
+          from: 'gateway-app', to: 'order-app', method: 'place_order', params, idempotency_key: key
+        });
+
+        const [first, concurrent] = await Promise.all([call({ qty: 1, symbol: 'BTC' }), call({ qty: 1, symbol: 'BTC' })]);
+        expect(first.json()).toEqual({ order: 1 });
+        expect(concurrent.statusCode).toBe(409);
+        expect(concurrent.json().code).toBe('IDEMPOTENCY_IN_PROGRESS');
+
+        // Key order doesn't matter, and the app isn't called again
+        const repeat = await call({ symbol: 'BTC', qty: 1 });
+        expect(repeat.json()).toEqual({ order: 1 });
+        expect(received).toHaveLength(1);
+        expect(received[0]['idempotency-key']).toBe('order-1');
+
+        const reused = await call({ qty: 2, symbol: 'BTC' });
+        expect(reused.statusCode).toBe(422);
+        expect(reused.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED', idempotency_key: 'order-1' });
+
+        expect((await call({ qty: 2, symbol: 'BTC' }, 'order-2')).json()).toEqual({ order: 2 });
+      } finally {
+        await new Promise(resolve => target.close(resolve));
+      }
+    });
+
+    it('should hand out rotated keys on heartbeat and keep the old key during the grace period', async () => {
+      const oldCredential = credential;
+      await appRegistry.credentials.rotate('gateway-app', 60000);
+
+      const heartbeat = await send('POST', '/heartbeat', { appId: 'gateway-app' });
+      const rotated = heartbeat.json().credential;
+
+      expect(heartbeat.statusCode).toBe(200);
+      expect(rotated.keyId).not.toBe(oldCredential.keyId);
+
+      credential = rotated;
+      const confirmed = await send('POST', '/heartbeat', { appId: 'gateway-app' });
+
+      expect(confirmed.json().credential).toBeUndefined();
+
+      credential = oldCredential;
+      const stillValid = await send('GET', '/context?type=gateway_test');
+      credential = rotated;
+
+      expect(stillValid.statusCode).toBe(200);
+    });
+
+    it('should update and read context over HTTP', async () => {
+      const update = await send('POST', '/context/update', { appId: 'gateway-app', type: 'gateway_test', data: { value: 42 } });
+
+      expect(update.statusCode).toBe(200);
+
+      const read = await send('GET', '/context?type=gateway_test');
+
+      expect(read.json().data).toEqual({ value: 42 });
+    });
+
+    it('should return 409 with the current value on a version conflict', async () => {
+      const { version } = (await send('GET', '/context?type=gateway_test')).json();
+
+      const response = await send('POST', '/context/update', {
+        appId: 'gateway-app',
+        type: 'gateway_test',
+        data: { value: 0 },
+        expectedVersion: version - 1
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json()).toMatchObject({ current_version: version, current: { data: { value: 42 } } });
+    });
+
+    it('should return updates published after a given event id', async () => {
+      const since = await updates.getLatestEventId();
+
+      await contextManager.updateContext('gateway_test', { value: 43 });
+      await appRegistry.broadcastUpdate({ type: 'maintenance_window', starts_in: 300 });
+
+      const response = await send('GET', `/updates/gateway-app?since=${since}&types=gateway_test`);
+      const body = response.json();
+
+      expect(body.updates.map((u: any) => u.type)).toEqual(['context_update', 'maintenance_window']);
+      expect(body.updates[0].version).toBe(2);
+      expect(body.last_event_id).toBe(body.updates[1].id);
+    });
+
+    it('should split stream entries between instances of a service', async () => {
+      appRegistry.grants.set('gateway-app-2', { capabilities: ['test'], services: ['gateway-app'] });
+      const register = await gateway.app.inject({
+        method: 'POST',
+        url: '/register',
+        headers: bootstrap,
+        payload: {
+          id: 'gateway-app-2',
+          name: 'Gateway App',
+          url: 'http://localhost:3102',
+          type: 'replit',
+          capabilities: ['test'],
+          service: 'gateway-app'
+        }
+      });
+      sendAsSecond = sendAs('gateway-app-2', register.json().credential);
+
+      const start = Date.now();
+      await send('POST', '/stream/read', { appId: 'gateway-app', stream: 'gateway:jobs', blockMs: 0 });
+      // blockMs: 0 doesn't wait for new entries
+      expect(Date.now() - start).toBeLessThan(1000);
+      await redis.addToStream('gateway:jobs', { n: 1 });
+      await redis.addToStream('gateway:jobs', { n: 2 });
+
+      const first = (await send('POST', '/stream/read', { appId: 'gateway-app', stream: 'gateway:jobs', consumer: 'a', count: 1, blockMs: 0 })).json();
+      const second = (await sendAsSecond('POST', '/stream/read', { appId: 'gateway-app-2', stream: 'gateway:jobs', blockMs: 0 })).json();
+
+      expect(first.entries.map((e: any) => e.data.n)).toEqual([1]);
+      expect(second.entries.map((e: any) => e.data.n)).toEqual([2]);
+      // Both default to the group named after their service
+      expect(await redis.getPending('gateway:jobs', 'gateway-app:gateway-app')).toHaveLength(2);
+
+      const ack = await sendAsSecond('POST', '/stream/ack', { appId: 'gateway-app-2', stream: 'gateway:jobs', ids: [first.entries[0].id, second.entries[0].id] });
+      expect(ack.json().acknowledged).toBe(2);
+    });
+
+    it('should check every instance of a service as that service', async () => {
+      appRegistry.scopes.set('scoped-app.run', ['gateway-app']);
+      gateway.approvals.policies.set('gateway-app.instance_transfer', { timeoutMs: 60000, onTimeout: 'reject' });
+
+      // Past the scope check, to the missing target
+      const call = await sendAsSecond('POST', '/call', { from: 'gateway-app-2', to: 'scoped-app', method: 'run', params: {} });
+      expect(call.statusCode).toBe(404);
+
+      const context = await sendAsSecond('POST', '/context/update', { appId: 'gateway-app-2', type: 'gateway_test', data: { instance: 2 } });
+      expect(context.statusCode).toBe(200);
+
+      const approval = await sendAsSecond('POST', '/approvals', { appId: 'gateway-app-2', action: 'instance_transfer', details: {} });
+      expect(approval.json()).toMatchObject({ action: 'gateway-app.instance_transfer', requested_by: 'gateway-app-2', status: 'pending' });
+    });
+
+    it('should refuse writes to streams the hub keeps for itself', async () => {
+      const since = (await redis.readStreamReverse(UPDATES_STREAM, '+', '-', 1))[0]?.id || '0-0';
+      const forged = { type: 'approval_decided', approval: { id: 'approval_forged', status: 'approved' } };
+
+      for (const stream of [UPDATES_STREAM, 'approvals:audit', 'trades:executed', 'gateway:jobs:dlq']) {
+        const response = await send('POST', '/stream', { appId: 'gateway-app', stream, data: forged });
+        expect(response.statusCode).toBe(403);
+      }
+
+      expect(await redis.readStreamRange(UPDATES_STREAM, `(${since}`, '+')).toEqual([]);
+    });
+
+    it('should reject malformed bodies', async () => {
+      const response = await send('POST', '/call', { to: 'data-hub' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    describe('Approvals', () => {
+      beforeAll(() => {
+        gateway.approvals.policies.set('gateway-app.transfer', { field: 'amount', threshold: 1000, timeoutMs: 60000, onTimeout: 'reject' });
+        gateway.approvals.policies.set('gateway-app.quick_transfer', { timeoutMs: 1, onTimeout: 'approve' });
+      });
+
+      it('should approve requests below the policy threshold without asking', async () => {
+        const response = await send('POST', '/approvals', { appId: 'gateway-app', action: 'transfer', details: { amount: 10 } });
+
+        expect(response.json()).toMatchObject({ status: 'approved', required: false, decided_by: 'policy' });
+      });
+
+      it('should require the decide scope and apply modifications once', async () => {
+        const requested = (await send('POST', '/approvals', {
+          appId: 'gateway-app',
+          action: 'transfer',
+          details: { amount: 5000, to: 'acct-1' },
+          idempotency_key: 'transfer-1'
+        })).json();
+        const repeated = (await send('POST', '/approvals', {
+          appId: 'gateway-app',
+          action: 'transfer',
+          details: { amount: 5000, to: 'acct-1' },
+          idempotency_key: 'transfer-1'
+        })).json();
+        const pending = (await send('GET', '/approvals')).json().approvals;
+
+        expect(requested.status).toBe('pending');
+        expect(repeated.id).toBe(requested.id);
+        expect(pending.map((a: any) => a.id)).toContain(requested.id);
+
+        const decision = { appId: 'gateway-app', decision: 'modify', decided_by: 'alice', modifications: { amount: 2500 } };
+        const forbidden = await send('POST', `/approvals/${requested.id}/decide`, decision);
+
+        expect(forbidden.statusCode).toBe(403);
+
+        appRegistry.scopes.set('mcp-hub.decide_approval', ['ops-console', 'gateway-app']);
+        const decided = await send('POST', `/approvals/${requested.id}/decide`, decision);
+        const again = await send('POST', `/approvals/${requested.id}/decide`, { ...decision, decision: 'reject' });
+
+        expect(decided.json()).toMatchObject({ status: 'modified', approved_details: { amount: 2500, to: 'acct-1' } });
+        expect(again.statusCode).toBe(409);
+
+        const consumed = await gateway.approvals.consume(requested.id, 'gateway-app.transfer');
+
+        expect(consumed?.consumed_at).toBeDefined();
+        await expect(gateway.approvals.consume(requested.id, 'gateway-app.transfer')).rejects.toThrow('already used');
+
+        const audit = (await send('GET', '/approvals/audit?limit=10')).json().entries;
+
+        expect(audit.filter((e: any) => e.approval_id === requested.id).map((e: any) => e.event))
+          .toEqual(['consumed', 'modified', 'requested']);
+      });
+
+      it('should resolve approvals nobody decides with the policy default', async () => {
+        const requested = (await send('POST', '/approvals', { appId: 'gateway-app', action: 'quick_transfer', details: {} })).json();
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        const expired = (await send('GET', `/approvals/${requested.id}`)).json();
+
+        expect(expired).toMatchObject({ status: 'approved', decided_by: 'timeout' });
+      });
+    });
   });
 });
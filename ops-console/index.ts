@@ -1,4 +1,5 @@
 import express from 'express';
+import { z } from 'zod';
 import { setupMCPClient, createMCPHandler } from '../replit-app-template/mcp-client';
 import { SystemMonitor } from './utils/system-monitor';
 import { AlertManager } from './utils/alert-manager';
@@ -20,6 +21,74 @@ const mcpClient = setupMCPClient({
   capabilities: ['monitoring', 'alerting', 'agent_management', 'system_control']
 });
 
+// Method schemas
+const ControlAgentParams = z.object({
+  agent_id: z.string().min(1),
+  action: z.enum(['pause', 'resume', 'restart'])
+});
+
+const GetAlertsParams = z.object({
+  status: z.enum(['active', 'acknowledged', 'resolved', 'all']).default('active'),
+  severity: z.enum(['low', 'medium', 'high', 'critical', 'warning']).optional(),
+  limit: z.number().int().positive().max(500).default(50)
+});
+
+const AcknowledgeAlertParams = z.object({
+  alert_id: z.string().min(1),
+  acknowledged_by: z.string().min(1),
+  notes: z.string().optional()
+});
+
+const GetMetricsParams = z.object({
+  timeframe: z.string().default('1h'),
+  metrics: z.array(z.string()).default([])
+});
+
+const ExecuteCommandParams = z.object({
+  command: z.enum(['emergency_stop', 'clear_cache', 'rotate_keys', 'backup_data']),
+  authorized_by: z.string().min(1, 'Authorization required for system commands'),
+  // rotate_keys only: limit rotation to one app, or revoke instead of rotating
+  app_id: z.string().min(1).optional(),
+  revoke: z.boolean().optional()
+});
+
+const GetLogsParams = z.object({
+  app_id: z.string().optional(),
+  level: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+  timeframe: z.string().default('1h'),
+  limit: z.number().int().positive().max(1000).default(100)
+});
+
+const GetApprovalsParams = z.object({
+  // Pending approvals, or a single approval in any state
+  approval_id: z.string().min(1).optional()
+});
+
+const DecideApprovalParams = z.object({
+  approval_id: z.string().min(1),
+  decision: z.enum(['approve', 'reject', 'modify']),
+  decided_by: z.string().min(1, 'Approver required'),
+  reason: z.string().optional(),
+  modifications: z.record(z.any()).optional()
+}).refine(params => params.decision !== 'modify' || params.modifications, {
+  message: 'Modifications are required to modify an approval',
+  path: ['modifications']
+});
+
+const GetApprovalAuditParams = z.object({
+  limit: z.number().int().positive().max(1000).default(100)
+});
+
+const GetConfigParams = z.object({
+  app_id: z.string().min(1)
+});
+
+const UpdateConfigParams = z.object({
+  app_id: z.string().min(1),
+  config: z.record(z.any()),
+  updated_by: z.string().min(1)
+});
+
 // Connect to hub and expose methods
 mcpClient.connect().then(() => {
   // Get system status
@@ -92,7 +161,7 @@ mcpClient.connect().then(() => {
   });
 
   // Pause/resume agent
-  mcpClient.exposeMethod('control_agent', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('control_agent', async (params: z.infer<typeof ControlAgentParams>, callback: Function) => {
     try {
       const { agent_id, action } = params;
       
@@ -115,10 +184,13 @@ mcpClient.connect().then(() => {
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Pause, resume or restart an AI agent',
+    params: ControlAgentParams
   });
 
   // Get alerts
-  mcpClient.exposeMethod('get_alerts', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('get_alerts', async (params: z.infer<typeof GetAlertsParams>, callback: Function) => {
     try {
       const { status = 'active', severity, limit = 50 } = params;
       
@@ -136,10 +208,13 @@ mcpClient.connect().then(() => {
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'List system alerts by status and severity',
+    params: GetAlertsParams
   });
 
   // Acknowledge alert
-  mcpClient.exposeMethod('acknowledge_alert', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('acknowledge_alert', async (params: z.infer<typeof AcknowledgeAlertParams>, callback: Function) => {
     try {
       const { alert_id, acknowledged_by, notes } = params;
       
@@ -153,10 +228,13 @@ mcpClient.connect().then(() => {
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Acknowledge an active alert',
+    params: AcknowledgeAlertParams
   });
 
   // Get performance metrics
-  mcpClient.exposeMethod('get_metrics', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('get_metrics', async (params: z.infer<typeof GetMetricsParams>, callback: Function) => {
     try {
       const { timeframe = '1h', metrics = [] } = params;
       
@@ -169,17 +247,15 @@ mcpClient.connect().then(() => {
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Get system performance metrics for a timeframe',
+    params: GetMetricsParams
   });
 
   // Execute system command
-  mcpClient.exposeMethod('execute_command', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('execute_command', async (params: z.infer<typeof ExecuteCommandParams>, callback: Function) => {
     try {
-      const { command, authorized_by } = params;
-      
-      // Validate authorization
-      if (!authorized_by) {
-        throw new Error('Authorization required for system commands');
-      }
+      const { command, authorized_by, app_id, revoke } = params;
       
       let result;
       switch (command) {
@@ -192,7 +268,7 @@ mcpClient.connect().then(() => {
           break;
           
         case 'rotate_keys':
-          result = await rotateApiKeys();
+          result = await rotateApiKeys(app_id, revoke);
           break;
           
         case 'backup_data':
@@ -210,10 +286,13 @@ mcpClient.connect().then(() => {
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Execute an authorized system command',
+    params: ExecuteCommandParams
   });
 
   // Get system logs
-  mcpClient.exposeMethod('get_logs', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('get_logs', async (params: z.infer<typeof GetLogsParams>, callback: Function) => {
     try {
       const { app_id, level, timeframe = '1h', limit = 100 } = params;
       
@@ -232,10 +311,73 @@ mcpClient.connect().then(() => {
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Query system logs',
+    params: GetLogsParams
+  });
+
+  // Get approvals waiting for a decision
+  mcpClient.exposeMethod('get_approvals', async (params: z.infer<typeof GetApprovalsParams>, callback: Function) => {
+    try {
+      if (params.approval_id) {
+        const approval = await mcpClient.getApproval(params.approval_id);
+        if (!approval) {
+          throw new Error(`Approval not found: ${params.approval_id}`);
+        }
+        
+        callback(null, approval);
+        return;
+      }
+      
+      const approvals = await mcpClient.listApprovals();
+      
+      callback(null, {
+        approval_count: approvals.length,
+        approvals
+      });
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'List pending approvals, or get one approval by id',
+    params: GetApprovalsParams
+  });
+
+  // Approve, reject or modify a pending approval
+  mcpClient.exposeMethod('decide_approval', async (params: z.infer<typeof DecideApprovalParams>, callback: Function) => {
+    try {
+      const { approval_id, ...decision } = params;
+      
+      const approval = await mcpClient.decideApproval(approval_id, decision);
+      
+      callback(null, approval);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Approve, reject or modify a pending approval',
+    params: DecideApprovalParams
+  });
+
+  // Approval audit trail
+  mcpClient.exposeMethod('get_approval_audit', async (params: z.infer<typeof GetApprovalAuditParams>, callback: Function) => {
+    try {
+      const entries = await mcpClient.getApprovalAudit(params.limit);
+      
+      callback(null, {
+        entry_count: entries.length,
+        entries
+      });
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Get the approval audit trail, newest first',
+    params: GetApprovalAuditParams
   });
 
   // Get configuration
-  mcpClient.exposeMethod('get_config', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('get_config', async (params: z.infer<typeof GetConfigParams>, callback: Function) => {
     try {
       const { app_id } = params;
       
@@ -249,10 +391,13 @@ mcpClient.connect().then(() => {
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Get the configuration of an app',
+    params: GetConfigParams
   });
 
   // Update configuration
-  mcpClient.exposeMethod('update_config', async (params: any, callback: Function) => {
+  mcpClient.exposeMethod('update_config', async (params: z.infer<typeof UpdateConfigParams>, callback: Function) => {
     try {
       const { app_id, config, updated_by } = params;
       
@@ -277,6 +422,9 @@ mcpClient.connect().then(() => {
     } catch (error) {
       callback(error);
     }
+  }, {
+    description: 'Validate and apply configuration changes to an app',
+    params: UpdateConfigParams
   });
 
   // Health check
@@ -335,6 +483,13 @@ mcpClient.on('connected', () => {
   });
 });
 
+// Approval requests and decisions arrive as hub updates
+mcpClient.on('update', (update: any) => {
+  if (update.type === 'approval_requested' || update.type === 'approval_decided') {
+    broadcastUpdate(update.type, update.approval);
+  }
+});
+
 // Monitor system health periodically
 setInterval(async () => {
   const health = await systemMonitor.getSystemStatus();
@@ -402,11 +557,18 @@ async function clearSystemCache() {
   };
 }
 
-async function rotateApiKeys() {
-  // In production, this would rotate actual API keys
+async function rotateApiKeys(appId?: string, revoke = false) {
+  // Hub-issued app credentials; apps pick up new keys on their next heartbeat
+  const result = await mcpClient.rotateCredentials({
+    appId,
+    revoke,
+    graceSeconds: 600
+  });
+  
   return {
-    success: true,
-    keys_rotated: ['openai', 'coinbase', 'sendgrid'],
+    success: result.success,
+    keys_rotated: result.rotated,
+    grace_period_seconds: result.grace_seconds,
     next_rotation: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000) // 90 days
   };
 }
@@ -1,31 +1,121 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 import { EventEmitter } from 'events';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { AuthenticationError, ConflictError, IdempotencyError, RateLimitError, ValidationError } from '../shared/utils/error-handling';
+import {
+  AppCredential,
+  SIGNATURE_HEADERS,
+  createSignatureHeaders,
+  verifySignature
+} from '../shared/utils/request-signing';
+import { TRACEPARENT_HEADER, Tracer, activeTraceparent, parseTraceparent } from '../shared/utils/tracing';
 
 interface MCPClientConfig {
   appId: string;
   appName: string;
   hubUrl: string;
+  // Bootstrap token, only used for the first registration
   authToken: string;
+  // Where the hub-issued credential is kept across restarts
+  credentialsFile?: string;
   capabilities: string[];
   version: string;
+  // The app this is an instance of, when several run side by side
+  service?: string;
+  // Context types to receive updates for; all types when omitted
+  subscriptions?: string[];
+}
+
+export type MethodCallback = (err: any, result?: any) => void;
+
+export interface CallOptions {
+  // Identifies one logical call across retries and restarts, so a side effect isn't repeated
+  idempotencyKey?: string;
+  // Dry run: the hub simulates side-effecting methods and keeps results in shadow:<type> contexts
+  simulation?: boolean;
+}
+
+export interface CapabilityCallOptions extends CallOptions {
+  // Semver range the providing app must satisfy, e.g. ^2.0.0
+  version?: string;
+}
+
+export interface ApprovalRequestOptions {
+  summary?: string;
+  // Returns the existing approval when the same request is made again
+  idempotencyKey?: string;
+}
+
+export interface ApprovalDecision {
+  decision: 'approve' | 'reject' | 'modify';
+  decided_by: string;
+  reason?: string;
+  // Merged over the requested details when the decision is 'modify'
+  modifications?: Record<string, any>;
+}
+
+export interface ContextWriteOptions {
+  // Reject the write unless the context is still at this version (0 = must not exist)
+  expectedVersion?: number;
+  // replace: data is the new value; merge: RFC 7396 merge patch; patch: RFC 6902 operations
+  mode?: 'replace' | 'merge' | 'patch';
+  ttl?: number;
+}
+
+export interface StreamConsumeOptions {
+  // Instances of the app's service in the same group split the entries; the hub
+  // defaults it to the service. Groups are private to the service.
+  group?: string;
+  // Unique per instance; defaults to <appId>-<pid>
+  consumer?: string;
+  batchSize?: number;
+  blockMs?: number;
+}
+
+export interface StreamDelivery {
+  id: string;
+  data: any;
+  deliveries: number;
+  // Trace context of whoever wrote the entry
+  traceparent?: string;
+}
+
+export interface MethodSchema<P extends z.ZodTypeAny = z.ZodTypeAny, R extends z.ZodTypeAny = z.ZodTypeAny> {
+  description?: string;
+  params?: P;
+  result?: R;
 }
 
 export class MCPClient extends EventEmitter {
   private axios: AxiosInstance;
   private registered = false;
   private heartbeatInterval?: NodeJS.Timer;
+  private updateStream?: NodeJS.ReadableStream & { destroy(): void };
+  private lastEventId?: string;
+  private reconnectDelay = 1000;
+  private methodSchemas: Map<string, MethodSchema> = new Map();
+  private credential?: AppCredential;
+  // Kept after a rotation so calls the hub signed with the old key still verify
+  private previousCredential?: AppCredential;
+  // Spans for calls, stream entries and handled hub requests of this app
+  readonly tracer: Tracer;
 
   constructor(private config: MCPClientConfig) {
     super();
+    this.tracer = new Tracer(this.config.appId);
     
     this.axios = axios.create({
       baseURL: this.config.hubUrl,
       headers: {
-        'X-MCP-Token': this.config.authToken,
         'X-App-ID': this.config.appId
       },
       timeout: 30000
     });
+
+    this.axios.interceptors.request.use(request => this.signRequest(request));
+    this.loadCredential();
   }
 
   async connect() {
@@ -53,9 +143,14 @@ export class MCPClient extends EventEmitter {
       url: process.env.REPL_URL || `https://${this.config.appId}.repl.co`,
       type: 'replit',
       capabilities: this.config.capabilities,
-      version: this.config.version
+      version: this.config.version,
+      service: this.config.service
     });
 
+    if (response.data.credential) {
+      this.adoptCredential(response.data.credential);
+    }
+
     this.registered = true;
     this.emit('registered', response.data);
   }
@@ -63,11 +158,17 @@ export class MCPClient extends EventEmitter {
   private startHeartbeat() {
     this.heartbeatInterval = setInterval(async () => {
       try {
-        await this.axios.post('/heartbeat', {
+        const response = await this.axios.post('/heartbeat', {
           appId: this.config.appId,
           status: 'online',
           timestamp: new Date().toISOString()
         });
+
+        // The hub hands out rotated keys here until we start signing with them
+        const credential = response.data.credential;
+        if (credential && credential.keyId !== this.credential?.keyId) {
+          this.adoptCredential(credential);
+        }
       } catch (error) {
         console.error('[MCP] Heartbeat failed:', error);
         this.emit('error', error);
@@ -75,57 +176,192 @@ export class MCPClient extends EventEmitter {
     }, 30000); // Every 30 seconds
   }
 
+  // Server-Sent Events stream from the hub, resumed from the last seen event ID
   private async subscribeToUpdates() {
-    // In a real implementation, this would be WebSocket or SSE
-    // For now, we'll poll for updates
-    setInterval(async () => {
-      try {
-        const response = await this.axios.get(`/updates/${this.config.appId}`);
-        if (response.data.updates) {
-          response.data.updates.forEach((update: any) => {
-            this.emit('update', update);
-          });
+    try {
+      const response = await this.axios.get(`/events/${this.config.appId}`, {
+        params: { types: this.config.subscriptions?.join(',') },
+        headers: this.lastEventId ? { 'Last-Event-ID': this.lastEventId } : {},
+        responseType: 'stream',
+        timeout: 0
+      });
+
+      this.updateStream = response.data;
+      this.reconnectDelay = 1000;
+
+      let buffer = '';
+      response.data.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+
+        let boundary;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          this.handleServerEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
         }
-      } catch (error) {
-        console.error('[MCP] Failed to fetch updates:', error);
+      });
+
+      response.data.on('end', () => this.scheduleReconnect());
+      response.data.on('error', (error: Error) => {
+        console.error('[MCP] Update stream error:', error);
+        this.scheduleReconnect();
+      });
+    } catch (error) {
+      console.error('[MCP] Failed to open update stream:', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private handleServerEvent(raw: string) {
+    let id: string | undefined;
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of raw.split('\n')) {
+      if (line.startsWith(':')) continue; // keep-alive comment
+
+      const separator = line.indexOf(':');
+      const field = separator >= 0 ? line.slice(0, separator) : line;
+      const value = separator >= 0 ? line.slice(separator + 1).replace(/^ /, '') : '';
+
+      if (field === 'id') id = value;
+      else if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+
+    if (id) {
+      this.lastEventId = id;
+    }
+
+    if (data.length === 0) return;
+
+    try {
+      const payload = JSON.parse(data.join('\n'));
+
+      if (event === 'resync') {
+        // Updates were trimmed on the hub while disconnected; reload contexts
+        this.emit('resync', payload);
+      } else {
+        this.emit('update', { id, ...payload });
       }
-    }, 5000); // Every 5 seconds
+    } catch (error) {
+      console.error('[MCP] Failed to parse update:', error);
+    }
   }
 
-  // Expose methods to hub
-  async exposeMethod(name: string, handler: Function) {
+  private scheduleReconnect() {
+    this.updateStream = undefined;
+    if (!this.registered) return;
+
+    setTimeout(() => {
+      if (this.registered && !this.updateStream) {
+        this.subscribeToUpdates();
+      }
+    }, this.reconnectDelay);
+
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, 30000);
+  }
+
+  // Expose methods to hub; params are validated against schema.params before the handler runs
+  async exposeMethod<P extends z.ZodTypeAny = z.ZodAny, R extends z.ZodTypeAny = z.ZodAny>(
+    name: string,
+    handler: (params: z.infer<P>, callback: MethodCallback) => void | Promise<void>,
+    schema: MethodSchema<P, R> = {}
+  ) {
     // Register the method with the hub
     await this.axios.post('/methods/register', {
       appId: this.config.appId,
       method: name,
-      schema: this.generateSchema(handler)
+      schema: this.generateSchema(schema)
     });
 
     // Store handler locally
+    this.methodSchemas.set(name, schema);
     this.on(`method:${name}`, handler);
   }
 
+  getMethodSchema(name: string): MethodSchema | undefined {
+    return this.methodSchemas.get(name);
+  }
+
   // Call another app through hub
-  async callApp(targetAppId: string, method: string, params: any) {
-    const response = await this.axios.post('/call', {
+  async callApp(targetAppId: string, method: string, params: any, options: CallOptions = {}) {
+    return await this.tracer.withSpan(`call ${targetAppId}.${method}`, { kind: 'client' }, () => this.call({
       from: this.config.appId,
       to: targetAppId,
       method,
-      params
-    });
+      params,
+      idempotency_key: options.idempotencyKey,
+      simulation: options.simulation
+    }));
+  }
 
-    return response.data;
+  // Call whichever app provides a capability; the hub balances between instances
+  async callCapability(capability: string, method: string, params: any, options: CapabilityCallOptions = {}) {
+    return await this.tracer.withSpan(`call ${capability}.${method}`, { kind: 'client' }, () => this.call({
+      from: this.config.appId,
+      capability,
+      version: options.version,
+      method,
+      params,
+      idempotency_key: options.idempotencyKey,
+      simulation: options.simulation
+    }));
   }
 
-  // Update shared context
-  async updateContext(contextType: string, data: any) {
-    const response = await this.axios.post('/context/update', {
-      appId: this.config.appId,
-      type: contextType,
-      data
-    });
+  // Throws RateLimitError when the hub throttles the call; retryAfterMs says when to try again.
+  // Throws IdempotencyError when the key belongs to another request or its first call is still running.
+  private async call(body: Record<string, any>) {
+    try {
+      const response = await this.axios.post('/call', body);
+      return response.data;
+    } catch (error: any) {
+      const data = error.response?.data;
 
-    return response.data;
+      if (error.response?.status === 429) {
+        throw new RateLimitError(data.error, data.limit, data.retry_after_ms);
+      }
+      if (data?.code === 'IDEMPOTENCY_KEY_REUSED' || data?.code === 'IDEMPOTENCY_IN_PROGRESS') {
+        throw new IdempotencyError(data.error, data.idempotency_key, data.code === 'IDEMPOTENCY_KEY_REUSED' ? 'mismatch' : 'in_progress');
+      }
+      throw error;
+    }
+  }
+
+  // Update shared context; throws ConflictError when expectedVersion is stale
+  async updateContext(contextType: string, data: any, options: ContextWriteOptions = {}) {
+    try {
+      const response = await this.axios.post('/context/update', {
+        appId: this.config.appId,
+        type: contextType,
+        data,
+        ...options
+      });
+
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        const body = error.response.data;
+        throw new ConflictError(body.error, body.expected_version, body.current_version, body.current);
+      }
+      throw error;
+    }
+  }
+
+  // Read-modify-write that re-reads and re-applies `modify` when another writer wins the race
+  async modifyContext(contextType: string, modify: (current: any) => any, maxAttempts = 5) {
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.getContext(contextType);
+
+      try {
+        return await this.updateContext(contextType, modify(current?.data), {
+          expectedVersion: current?.version || 0
+        });
+      } catch (error) {
+        if (!(error instanceof ConflictError) || attempt >= maxAttempts) {
+          throw error;
+        }
+      }
+    }
   }
 
   // Get shared context
@@ -137,22 +373,274 @@ export class MCPClient extends EventEmitter {
     return response.data;
   }
 
-  // Stream data to hub
+  // Rotate hub credentials for one app or every app; needs the mcp-hub.rotate_keys scope
+  async rotateCredentials(options: { appId?: string; graceSeconds?: number; revoke?: boolean } = {}) {
+    const response = await this.axios.post('/auth/rotate', options);
+    return response.data;
+  }
+
+  // Past versions of a context, newest first
+  async getContextHistory(contextType: string, limit = 20) {
+    const response = await this.axios.get('/context/history', {
+      params: { type: contextType, limit }
+    });
+
+    return response.data.versions;
+  }
+
+  // The context as it was at a point in time; null if it did not exist yet
+  async getContextAt(contextType: string, timestamp: Date | string | number) {
+    return this.getOrNull('/context/at', {
+      type: contextType,
+      timestamp: new Date(timestamp).getTime()
+    });
+  }
+
+  async getContextVersion(contextType: string, version: number) {
+    return this.getOrNull('/context/version', { type: contextType, version });
+  }
+
+  // JSON patch between two versions; `toVersion` defaults to the latest
+  async diffContext(contextType: string, fromVersion: number, toVersion?: number) {
+    return this.getOrNull('/context/diff', { type: contextType, from: fromVersion, to: toVersion });
+  }
+
+  // Asks for human sign-off on `<appId>.<action>`. Returns the approval record,
+  // already approved when no policy applies to the request.
+  async requestApproval(action: string, details: any, options: ApprovalRequestOptions = {}) {
+    const response = await this.axios.post('/approvals', {
+      appId: this.config.appId,
+      action,
+      details,
+      summary: options.summary,
+      idempotency_key: options.idempotencyKey
+    });
+    return response.data;
+  }
+
+  async getApproval(approvalId: string) {
+    return this.getOrNull(`/approvals/${encodeURIComponent(approvalId)}`, {});
+  }
+
+  async listApprovals() {
+    const response = await this.axios.get('/approvals');
+    return response.data.approvals;
+  }
+
+  // Needs the mcp-hub.decide_approval scope
+  async decideApproval(approvalId: string, decision: ApprovalDecision) {
+    const response = await this.axios.post(`/approvals/${encodeURIComponent(approvalId)}/decide`, {
+      appId: this.config.appId,
+      ...decision
+    });
+    return response.data;
+  }
+
+  async getApprovalAudit(limit = 100) {
+    const response = await this.axios.get('/approvals/audit', { params: { limit } });
+    return response.data.entries;
+  }
+
+  // Resolves once the approval is decided. Listens for hub updates and polls as
+  // a fallback; the hub resolves it by its policy timeout at the latest. An
+  // update only prompts a re-read, the decision itself always comes from the hub.
+  async awaitApproval(approvalId: string, pollMs = 30000): Promise<any> {
+    const current = await this.getApproval(approvalId);
+    if (!current || current.status !== 'pending') return current;
+
+    return new Promise((resolve, reject) => {
+      const stop = () => {
+        clearInterval(poll);
+        this.off('update', onUpdate);
+      };
+
+      const check = async () => {
+        try {
+          const approval = await this.getApproval(approvalId);
+          if (!approval || approval.status !== 'pending') {
+            stop();
+            resolve(approval);
+          }
+        } catch (error) {
+          stop();
+          reject(error);
+        }
+      };
+
+      const onUpdate = (update: any) => {
+        if (update.type === 'approval_decided' && update.approval?.id === approvalId) {
+          check();
+        }
+      };
+
+      const poll = setInterval(check, pollMs);
+
+      this.on('update', onUpdate);
+    });
+  }
+
+  private async getOrNull(url: string, params: Record<string, any>) {
+    try {
+      const response = await this.axios.get(url, { params });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  // Stream data to hub; consumers of the entry continue its trace
   async streamData(streamName: string, data: any) {
-    const response = await this.axios.post('/stream', {
+    return await this.tracer.withSpan(`stream ${streamName}`, { kind: 'producer' }, async () => {
+      const response = await this.axios.post('/stream', {
+        appId: this.config.appId,
+        stream: streamName,
+        data
+      });
+
+      return response.data;
+    });
+  }
+
+  // Processes a hub stream through a consumer group. Entries are acknowledged once
+  // the handler resolves; failures are retried by the hub and dead-lettered after
+  // too many attempts. Resolves the returned function once the loop has stopped.
+  consumeStream(
+    streamName: string,
+    handler: (data: any, delivery: StreamDelivery) => Promise<void>,
+    options: StreamConsumeOptions = {}
+  ): () => Promise<void> {
+    const target = {
       appId: this.config.appId,
       stream: streamName,
-      data
+      group: options.group
+    };
+    const consumer = options.consumer || `${this.config.appId}-${process.pid}`;
+    let running = true;
+
+    const loop = async () => {
+      while (running) {
+        try {
+          const response = await this.axios.post('/stream/read', {
+            ...target,
+            consumer,
+            count: options.batchSize,
+            blockMs: options.blockMs
+          });
+
+          for (const delivery of response.data.entries as StreamDelivery[]) {
+            try {
+              await this.tracer.withSpan(`consume ${streamName}`, {
+                kind: 'consumer',
+                parent: parseTraceparent(delivery.traceparent),
+                attributes: { 'stream.entry_id': delivery.id, deliveries: delivery.deliveries }
+              }, () => handler(delivery.data, delivery));
+              await this.axios.post('/stream/ack', { ...target, ids: [delivery.id] });
+            } catch (error: any) {
+              await this.axios.post('/stream/ack', { ...target, failed: [{ id: delivery.id, reason: error.message }] });
+              this.emit('error', error);
+            }
+          }
+        } catch (error) {
+          console.error(`[MCP] Stream ${streamName} read failed:`, error);
+          await new Promise(resolve => setTimeout(resolve, this.reconnectDelay));
+        }
+      }
+    };
+
+    const done = loop();
+
+    return async () => {
+      running = false;
+      await done;
+    };
+  }
+
+  // Throws AuthenticationError unless the request was signed by the hub with our key
+  verifyHubRequest(req: { method: string; originalUrl?: string; url: string; headers: Record<string, any>; body?: any }) {
+    const keyId = req.headers[SIGNATURE_HEADERS.keyId];
+    const credential = [this.credential, this.previousCredential].find(c => c && c.keyId === keyId);
+
+    if (!credential) {
+      throw new AuthenticationError('Unknown or missing key');
+    }
+
+    // The hub signs the JSON it sends, which round-trips through express.json()
+    verifySignature(credential.secret, req.headers, {
+      method: req.method,
+      path: req.originalUrl || req.url,
+      body: JSON.stringify(req.body ?? {})
+    });
+  }
+
+  private signRequest(request: InternalAxiosRequestConfig) {
+    // Serialize up front so the signed body is exactly what goes on the wire
+    if (request.data !== undefined && typeof request.data !== 'string') {
+      request.data = JSON.stringify(request.data);
+      request.headers.set('Content-Type', 'application/json');
+    }
+
+    // Joins the hub's span for this request to the caller's trace
+    const traceparent = activeTraceparent();
+    if (traceparent) {
+      request.headers.set(TRACEPARENT_HEADER, traceparent);
+    }
+
+    if (!this.credential) {
+      request.headers.set('X-MCP-Token', this.config.authToken);
+      return request;
+    }
+
+    // Includes `params`, serialized the way axios will send them
+    const url = new URL(this.axios.getUri(request));
+    const headers = createSignatureHeaders(this.config.appId, this.credential, {
+      method: request.method || 'get',
+      path: `${url.pathname}${url.search}`,
+      body: request.data
     });
 
-    return response.data;
+    for (const [name, value] of Object.entries(headers)) {
+      request.headers.set(name, value);
+    }
+
+    return request;
+  }
+
+  private adoptCredential(credential: AppCredential) {
+    this.previousCredential = this.credential;
+    this.credential = credential;
+
+    try {
+      writeFileSync(this.credentialsPath(), JSON.stringify(credential), { mode: 0o600 });
+    } catch (error) {
+      console.error('[MCP] Failed to persist credential:', error);
+    }
+
+    console.log(`[MCP] Using hub credential ${credential.keyId}`);
   }
 
-  private generateSchema(handler: Function) {
-    // Simple schema generation - in production, use proper reflection
+  private loadCredential() {
+    const path = this.credentialsPath();
+
+    if (existsSync(path)) {
+      this.credential = JSON.parse(readFileSync(path, 'utf8'));
+    }
+  }
+
+  private credentialsPath() {
+    return this.config.credentialsFile || `.mcp-credentials-${this.config.appId}.json`;
+  }
+
+  // JSON Schema the hub publishes in its tool catalog
+  private generateSchema(schema: MethodSchema) {
     return {
-      params: handler.length,
-      name: handler.name
+      description: schema.description,
+      inputSchema: schema.params
+        ? zodToJsonSchema(schema.params, { $refStrategy: 'none' })
+        : { type: 'object', additionalProperties: true },
+      outputSchema: schema.result
+        ? zodToJsonSchema(schema.result, { $refStrategy: 'none' })
+        : undefined
     };
   }
 
@@ -161,11 +649,14 @@ export class MCPClient extends EventEmitter {
       clearInterval(this.heartbeatInterval);
     }
 
+    this.registered = false;
+    this.updateStream?.destroy();
+    this.updateStream = undefined;
+
     await this.axios.post('/disconnect', {
       appId: this.config.appId
     });
 
-    this.registered = false;
     this.removeAllListeners();
   }
 }
@@ -174,30 +665,89 @@ export class MCPClient extends EventEmitter {
 export function createMCPHandler(client: MCPClient) {
   return async (req: any, res: any, next: any) => {
     // Verify request is from hub
-    if (req.headers['x-mcp-token'] !== process.env.MCP_AUTH_TOKEN) {
-      return res.status(401).json({ error: 'Unauthorized' });
+    try {
+      client.verifyHubRequest(req);
+    } catch (error: any) {
+      return res.status(401).json({ error: error.message || 'Unauthorized' });
     }
 
-    const { method, params } = req.body;
+    // The hub posts params as the body to /api/:method
+    const method = req.params.method;
+    const schema = client.getMethodSchema(method);
 
-    try {
-      // Check if we have a handler for this method
-      if (client.listenerCount(`method:${method}`) === 0) {
-        return res.status(404).json({ error: `Method ${method} not found` });
-      }
+    // Continues the hub's trace, so calls the handler makes join it too
+    await client.tracer.withSpan(method, {
+      kind: 'server',
+      parent: parseTraceparent(req.headers[TRACEPARENT_HEADER]),
+      attributes: { caller: req.headers['x-caller-id'], 'request.id': req.headers['x-request-id'] }
+    }, async span => {
+      try {
+        // Check if we have a handler for this method
+        if (client.listenerCount(`method:${method}`) === 0) {
+          return res.status(404).json({ error: `Method ${method} not found` });
+        }
 
-      // Execute the method
-      const result = await new Promise((resolve, reject) => {
-        client.emit(`method:${method}`, params, (err: any, result: any) => {
-          if (err) reject(err);
-          else resolve(result);
+        // The hub passes the caller's idempotency key as a header; methods taking an
+        // idempotency_key receive it unless the params carry their own
+        let params = req.body ?? {};
+        const idempotencyKey = req.headers['idempotency-key'];
+        if (idempotencyKey && params.idempotency_key === undefined) {
+          params = { ...params, idempotency_key: idempotencyKey };
+        }
+
+        if (schema?.params) {
+          const parsed = schema.params.safeParse(params);
+          if (!parsed.success) {
+            return res.status(400).json(
+              serializeValidationError(new ValidationError(`Invalid params for ${method}`, parsed.error.issues))
+            );
+          }
+          params = parsed.data;
+        }
+
+        // Execute the method
+        const result = await new Promise((resolve, reject) => {
+          client.emit(`method:${method}`, params, (err: any, result: any) => {
+            if (err) reject(err);
+            else resolve(result);
+          });
         });
-      });
 
-      res.json({ result });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
-    }
+        if (schema?.result) {
+          const parsed = schema.result.safeParse(result);
+          if (!parsed.success) {
+            // The handler broke its own contract; report it as a server error
+            return res.status(500).json(
+              serializeValidationError(new ValidationError(`Invalid result from ${method}`, parsed.error.issues))
+            );
+          }
+        }
+
+        res.json({ result });
+      } catch (error: any) {
+        span.recordError(error);
+
+        if (error instanceof z.ZodError) {
+          return res.status(400).json(
+            serializeValidationError(new ValidationError(`Invalid params for ${method}`, error.issues))
+          );
+        }
+
+        res.status(500).json({ error: error.message });
+      }
+    });
+  };
+}
+
+function serializeValidationError(error: ValidationError) {
+  return {
+    error: error.message,
+    code: error.code,
+    validation_errors: error.validationErrors.map((issue: z.ZodIssue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+      code: issue.code
+    }))
   };
 }
 
@@ -208,9 +758,15 @@ export function setupMCPClient(appConfig: Partial<MCPClientConfig>) {
     appName: process.env.APP_NAME || 'Unknown App',
     hubUrl: process.env.MCP_HUB_URL || 'http://localhost:8080',
     authToken: process.env.MCP_AUTH_TOKEN || '',
+    credentialsFile: process.env.MCP_CREDENTIALS_FILE,
     capabilities: [],
-    version: '1.0.0',
-    ...appConfig
+    version: process.env.APP_VERSION || '1.0.0',
+    ...appConfig,
+    // Further instances of an app register under their own id as part of its service
+    ...(process.env.APP_INSTANCE_ID && {
+      appId: process.env.APP_INSTANCE_ID,
+      service: appConfig.appId || process.env.APP_ID
+    })
   });
 
   // Handle connection events
@@ -0,0 +1,143 @@
+import express from 'express';
+import { z } from 'zod';
+import { setupMCPClient, createMCPHandler } from '../replit-app-template/mcp-client';
+import { RiskCheckSchema } from '../shared/utils/validators';
+import { RiskEngine } from './utils/risk-engine';
+
+const app = express();
+app.use(express.json());
+
+// Initialize MCP client
+const mcpClient = setupMCPClient({
+  appId: 'risk-analyzer',
+  appName: 'Risk Analyzer',
+  capabilities: ['risk_assessment', 'portfolio_analysis', 'limits']
+});
+
+const engine = new RiskEngine();
+
+// Method schemas
+const PortfolioParam = z.object({
+  positions: z.union([z.record(z.any()), z.array(z.record(z.any()))]).default({}),
+  cash: z.number().optional(),
+  total_value: z.number().optional()
+}).passthrough();
+
+const CalculateVarParams = z.object({
+  // Defaults to the current portfolio context
+  portfolio: PortfolioParam.optional(),
+  confidence_level: z.number().min(0.9).max(0.999).default(0.95),
+  method: z.enum(['historical', 'parametric', 'monte_carlo']).default('historical'),
+  horizon_days: z.number().int().positive().max(30).default(1)
+});
+
+const StressTestParams = z.object({
+  portfolio: PortfolioParam.optional(),
+  // Replace the built-in scenarios
+  scenarios: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    shocks: z.record(z.number().min(-1))
+  })).min(1).optional()
+});
+
+const AnalyzePortfolioParams = z.object({
+  portfolio: PortfolioParam.optional()
+});
+
+// Connect to hub
+mcpClient.connect().then(() => {
+  // Pre-trade check used by execute_strategy
+  mcpClient.exposeMethod('check_risk', async (params: z.infer<typeof RiskCheckSchema>, callback: Function) => {
+    try {
+      const result = await engine.checkRisk({
+        ...params,
+        current_portfolio: params.current_portfolio || await currentPortfolio()
+      });
+
+      callback(null, result);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Check a strategy allocation against position, sector, VaR and correlation limits; metrics.assets are the assets it was checked in',
+    params: RiskCheckSchema
+  });
+
+  mcpClient.exposeMethod('calculate_var', async (params: z.infer<typeof CalculateVarParams>, callback: Function) => {
+    try {
+      const result = await engine.calculateVar(
+        params.portfolio || await currentPortfolio(),
+        params.confidence_level,
+        params.method,
+        params.horizon_days
+      );
+
+      callback(null, result);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Value at risk and expected shortfall of a portfolio from daily price history',
+    params: CalculateVarParams
+  });
+
+  mcpClient.exposeMethod('stress_test', async (params: z.infer<typeof StressTestParams>, callback: Function) => {
+    try {
+      const result = await engine.stressTest(params.portfolio || await currentPortfolio(), params.scenarios);
+      callback(null, result);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Portfolio P&L under historical crash scenarios or custom shocks',
+    params: StressTestParams
+  });
+
+  mcpClient.exposeMethod('analyze_portfolio', async (params: z.infer<typeof AnalyzePortfolioParams>, callback: Function) => {
+    try {
+      const analysis = await engine.analyzePortfolio(params.portfolio || await currentPortfolio());
+
+      // Only the live portfolio is shared; what-if analyses stay with the caller
+      if (!params.portfolio) {
+        await mcpClient.updateContext('risk', analysis);
+
+        if (analysis.limit_breaches.length > 0) {
+          await mcpClient.streamData('risk:limit_breached', {
+            breaches: analysis.limit_breaches,
+            overall_risk_score: analysis.overall_risk_score,
+            timestamp: analysis.timestamp
+          });
+        }
+      }
+
+      callback(null, analysis);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Risk score, concentration, sector exposure and limit usage of a portfolio',
+    params: AnalyzePortfolioParams
+  });
+
+  mcpClient.exposeMethod('health', async (_params: any, callback: Function) => {
+    callback(null, {
+      status: 'healthy',
+      uptime: process.uptime()
+    });
+  });
+});
+
+// Handle hub requests
+app.post('/api/:method', createMCPHandler(mcpClient));
+
+async function currentPortfolio() {
+  const portfolio = await mcpClient.getContext('portfolio');
+  return portfolio?.data || { positions: {}, cash: 0, total_value: 0 };
+}
+
+const port = process.env.PORT || 3004;
+const host = '0.0.0.0';
+app.listen(port, host, () => {
+  console.log(`Service running on ${host}:${port}`);
+});
@@ -0,0 +1,94 @@
+import { Pool } from 'pg';
+
+// Daily simple returns per symbol, all on the same dates
+export interface ReturnSeries {
+  dates: string[];
+  returns: Record<string, number[]>;
+}
+
+// Value held per symbol by each strategy with open trades
+export type StrategyBooks = Record<string, Record<string, number>>;
+
+const LOOKBACK_DAYS = Number(process.env.RISK_LOOKBACK_DAYS || 250);
+
+// Strategies without configured assets trade the trade-runner's default basket
+const DEFAULT_ASSETS = ['BTC', 'ETH', 'SOL'];
+
+/**
+ * Reads what the risk checks need from Postgres: daily closes from `market_data`,
+ * open lots from `trades` and strategy assets from `strategies.config`.
+ */
+export class MarketHistory {
+  constructor(
+    private db: Pool = new Pool({ connectionString: process.env.DATABASE_URL })
+  ) {}
+
+  // Only days on which every symbol has a close are used, so the series line up.
+  // Symbols without any closes are left out of `returns`.
+  async dailyReturns(symbols: string[], days = LOOKBACK_DAYS): Promise<ReturnSeries> {
+    if (symbols.length === 0) {
+      return { dates: [], returns: {} };
+    }
+
+    const result = await this.db.query(
+      `SELECT DISTINCT ON (symbol, day) symbol, day, price
+       FROM (
+         SELECT symbol, date_trunc('day', time) AS day, time, COALESCE(close, price) AS price
+         FROM market_data
+         WHERE symbol = ANY($1) AND time >= NOW() - make_interval(days => $2)
+       ) closes
+       ORDER BY symbol, day, time DESC`,
+      [symbols, days + 1]
+    );
+
+    const closes = new Map<string, Map<string, number>>();
+    for (const row of result.rows) {
+      const day = new Date(row.day).toISOString().slice(0, 10);
+      if (!closes.has(day)) closes.set(day, new Map());
+      closes.get(day)!.set(row.symbol, Number(row.price));
+    }
+
+    const available = symbols.filter(symbol => result.rows.some(row => row.symbol === symbol));
+    const dates = Array.from(closes.keys())
+      .filter(day => available.every(symbol => closes.get(day)!.has(symbol)))
+      .sort();
+
+    const returns: Record<string, number[]> = {};
+    for (const symbol of available) {
+      returns[symbol] = dates.slice(1).map((day, i) => {
+        const previous = closes.get(dates[i])!.get(symbol)!;
+        return closes.get(day)!.get(symbol)! / previous - 1;
+      });
+    }
+
+    return { dates: dates.slice(1), returns };
+  }
+
+  async strategyAssets(strategyId: string): Promise<string[]> {
+    const result = await this.db.query(
+      `SELECT config->'assets' AS assets FROM strategies WHERE id::text = $1`,
+      [strategyId]
+    );
+
+    const assets = result.rows[0]?.assets;
+    return Array.isArray(assets) && assets.length > 0 ? assets : DEFAULT_ASSETS;
+  }
+
+  // Valued at entry price; only the mix matters for correlations
+  async strategyBooks(): Promise<StrategyBooks> {
+    const result = await this.db.query(
+      `SELECT strategy_id, symbol, SUM(entry_price * quantity) AS value
+       FROM trades
+       WHERE status = 'open' AND strategy_id IS NOT NULL
+       GROUP BY strategy_id, symbol`
+    );
+
+    const books: StrategyBooks = {};
+    for (const row of result.rows) {
+      books[row.strategy_id] = books[row.strategy_id] || {};
+      books[row.strategy_id][row.symbol] = Number(row.value);
+    }
+
+    return books;
+  }
+}
@@ -0,0 +1,431 @@
+import { MarketHistory, ReturnSeries } from './market-history';
+import { RiskLimits, resolveLimits, sectorOf } from './risk-limits';
+import { VarMethod, correlation, expectedShortfall, stdev, valueAtRisk } from '../../shared/utils/risk-math';
+
+export interface RiskCheck {
+  strategy_id: string;
+  allocation: number;
+  current_portfolio?: any;
+  risk_params?: Partial<RiskLimits>;
+}
+
+export interface Violation {
+  limit: keyof RiskLimits;
+  value: number;
+  max: number;
+  detail: string;
+}
+
+export interface StressScenario {
+  name: string;
+  description?: string;
+  // Return per symbol, sector or '*' for everything else; the most specific key wins
+  shocks: Record<string, number>;
+}
+
+// Fewer daily returns than this and VaR and correlations are not meaningful
+const MIN_OBSERVATIONS = Number(process.env.RISK_MIN_OBSERVATIONS || 20);
+
+const DEFAULT_SCENARIOS: StressScenario[] = [
+  {
+    name: 'covid_crash_2020',
+    description: 'March 2020 liquidity crisis',
+    shocks: { BTC: -0.5, stablecoins: 0, '*': -0.6 }
+  },
+  {
+    name: 'china_ban_2021',
+    description: 'May 2021 mining ban and leverage flush',
+    shocks: { BTC: -0.45, stablecoins: 0, '*': -0.55 }
+  },
+  {
+    name: 'ftx_collapse_2022',
+    description: 'November 2022 exchange failure',
+    shocks: { BTC: -0.25, ETH: -0.3, SOL: -0.6, stablecoins: 0, '*': -0.35 }
+  },
+  {
+    name: 'rate_shock',
+    description: 'Surprise rate hike across risk assets',
+    shocks: { stablecoins: 0, '*': -0.15 }
+  }
+];
+
+interface Holding {
+  symbol: string;
+  value: number;
+}
+
+/**
+ * Pre-trade checks and portfolio risk against the COO's limits. Portfolios are
+ * the `portfolio` context shape (positions keyed by symbol) or a list of
+ * positions; weights are shares of total value.
+ */
+export class RiskEngine {
+  constructor(private history: MarketHistory = new MarketHistory()) {}
+
+  async checkRisk(check: RiskCheck) {
+    const limits = resolveLimits(check.risk_params);
+    const portfolio = check.current_portfolio || {};
+    const holdings = holdingsOf(portfolio);
+    const total = totalValue(portfolio, holdings);
+
+    if (total <= 0) {
+      return {
+        approved: false,
+        reason: 'Portfolio value is unknown, so the allocation cannot be sized',
+        suggested_allocation: 0,
+        approved_allocation: 0,
+        limits,
+        violations: [],
+        warnings: []
+      };
+    }
+
+    const assets = await this.history.strategyAssets(check.strategy_id);
+    const books = await this.history.strategyBooks();
+    delete books[check.strategy_id];
+
+    const series = await this.history.dailyReturns(unique([
+      ...holdings.map(holding => holding.symbol),
+      ...assets,
+      ...Object.values(books).flatMap(book => Object.keys(book))
+    ]));
+
+    const current = weightsOf(holdings, total);
+    const withAllocation = (allocation: number) => {
+      const weights = { ...current };
+      for (const asset of assets) {
+        weights[asset] = (weights[asset] || 0) + allocation / assets.length;
+      }
+      return weights;
+    };
+
+    const after = withAllocation(check.allocation);
+    const violations: Violation[] = [];
+    const warnings: string[] = [];
+    // Largest allocation each limit still allows
+    const caps: number[] = [];
+
+    // Position size
+    for (const asset of assets) {
+      if (after[asset] > limits.max_position_size + 1e-9) {
+        violations.push({
+          limit: 'max_position_size',
+          value: after[asset],
+          max: limits.max_position_size,
+          detail: `${asset} would be ${percent(after[asset])} of the portfolio (max ${percent(limits.max_position_size)})`
+        });
+      }
+    }
+    caps.push(assets.length * Math.min(...assets.map(asset =>
+      Math.max(limits.max_position_size - (current[asset] || 0), 0))));
+
+    // Sector exposure
+    const sectorsBefore = sectorExposure(current);
+    const sectorsAfter = sectorExposure(after);
+    for (const sector of unique(assets.map(sectorOf))) {
+      const inSector = assets.filter(asset => sectorOf(asset) === sector).length;
+
+      if (sectorsAfter[sector] > limits.max_sector_exposure + 1e-9) {
+        violations.push({
+          limit: 'max_sector_exposure',
+          value: sectorsAfter[sector],
+          max: limits.max_sector_exposure,
+          detail: `${sector} exposure would be ${percent(sectorsAfter[sector])} (max ${percent(limits.max_sector_exposure)})`
+        });
+      }
+      caps.push(Math.max(limits.max_sector_exposure - (sectorsBefore[sector] || 0), 0) * assets.length / inSector);
+    }
+
+    // Portfolio VaR
+    const varOf = (allocation: number) =>
+      valueAtRisk(portfolioReturns(series, withAllocation(allocation)));
+    let varBefore: number | null = null;
+    let varAfter: number | null = null;
+
+    if (series.dates.length >= MIN_OBSERVATIONS) {
+      warnings.push(...unmeasured(series, Object.keys(after)));
+      varBefore = varOf(0);
+      varAfter = varOf(check.allocation);
+
+      if (varAfter > limits.max_portfolio_var + 1e-9) {
+        violations.push({
+          limit: 'max_portfolio_var',
+          value: varAfter,
+          max: limits.max_portfolio_var,
+          detail: `Portfolio VaR (95%, 1 day) would be ${percent(varAfter)} (max ${percent(limits.max_portfolio_var)})`
+        });
+        caps.push(largestWithin(allocation => varOf(allocation) <= limits.max_portfolio_var, check.allocation));
+      }
+    } else {
+      warnings.push(`Only ${series.dates.length} days of price history; VaR and correlation limits were not checked`);
+    }
+
+    // Correlation with strategies already in the book; a smaller allocation doesn't help
+    const correlations: Record<string, number> = {};
+    if (series.dates.length >= MIN_OBSERVATIONS) {
+      const candidate = portfolioReturns(series, Object.fromEntries(assets.map(asset => [asset, 1 / assets.length])));
+
+      for (const [strategyId, book] of Object.entries(books)) {
+        const bookTotal = Object.values(book).reduce((sum, value) => sum + value, 0);
+        if (bookTotal <= 0) continue;
+
+        const weights = Object.fromEntries(Object.entries(book).map(([symbol, value]) => [symbol, value / bookTotal]));
+        correlations[strategyId] = correlation(candidate, portfolioReturns(series, weights));
+
+        if (correlations[strategyId] > limits.max_correlation) {
+          violations.push({
+            limit: 'max_correlation',
+            value: correlations[strategyId],
+            max: limits.max_correlation,
+            detail: `Correlation with strategy ${strategyId} is ${correlations[strategyId].toFixed(2)} (max ${limits.max_correlation})`
+          });
+          caps.push(0);
+        }
+      }
+    }
+
+    const approved = violations.length === 0;
+
+    return {
+      approved,
+      reason: approved ? 'Within risk limits' : violations.map(violation => violation.detail).join('; '),
+      suggested_allocation: approved ? check.allocation : floor(Math.min(check.allocation, ...caps)),
+      approved_allocation: approved ? check.allocation : 0,
+      limits,
+      violations,
+      warnings,
+      metrics: {
+        assets,
+        position_sizes: Object.fromEntries(assets.map(asset => [asset, after[asset]])),
+        sector_exposure: sectorsAfter,
+        var_95_before: varBefore,
+        var_95_after: varAfter,
+        correlations
+      }
+    };
+  }
+
+  async calculateVar(portfolio: any, confidence = 0.95, method: VarMethod = 'historical', horizonDays = 1) {
+    const holdings = holdingsOf(portfolio);
+    const total = totalValue(portfolio, holdings);
+    const weights = weightsOf(holdings, total);
+    const series = await this.history.dailyReturns(Object.keys(weights));
+    const level = Math.round(confidence * 100);
+
+    const result: Record<string, any> = {
+      method,
+      confidence_level: confidence,
+      horizon_days: horizonDays,
+      observations: series.dates.length,
+      total_value: total
+    };
+
+    if (series.dates.length < MIN_OBSERVATIONS) {
+      return {
+        ...result,
+        [`var_${level}`]: null,
+        [`cvar_${level}`]: null,
+        warnings: [`Only ${series.dates.length} days of price history`]
+      };
+    }
+
+    const returns = portfolioReturns(series, weights);
+    const options = { confidence, method, horizon: horizonDays };
+    const varPct = valueAtRisk(returns, options);
+    const cvarPct = expectedShortfall(returns, options);
+
+    return {
+      ...result,
+      [`var_${level}`]: varPct * total,
+      [`cvar_${level}`]: cvarPct * total,
+      var_pct: varPct,
+      cvar_pct: cvarPct,
+      warnings: unmeasured(series, Object.keys(weights))
+    };
+  }
+
+  async stressTest(portfolio: any, scenarios: StressScenario[] = DEFAULT_SCENARIOS) {
+    const holdings = holdingsOf(portfolio);
+    const total = totalValue(portfolio, holdings);
+    const all = [...scenarios];
+
+    // Every holding's worst day in the lookback, all at once
+    const series = await this.history.dailyReturns(holdings.map(holding => holding.symbol));
+    if (series.dates.length > 0) {
+      all.push({
+        name: 'worst_observed_day',
+        description: `Each asset's worst daily return over the last ${series.dates.length} days`,
+        shocks: Object.fromEntries(Object.entries(series.returns).map(([symbol, returns]) => [symbol, Math.min(...returns)]))
+      });
+    }
+
+    const results = all.map(scenario => {
+      const impacts: Record<string, number> = {};
+      for (const holding of holdings) {
+        impacts[holding.symbol] = (impacts[holding.symbol] || 0) + holding.value * shockFor(scenario, holding.symbol);
+      }
+
+      const pnl = Object.values(impacts).reduce((sum, impact) => sum + impact, 0);
+      return {
+        scenario: scenario.name,
+        description: scenario.description,
+        pnl,
+        pnl_pct: total > 0 ? pnl / total : 0,
+        impacts
+      };
+    });
+
+    return {
+      total_value: total,
+      results,
+      worst_case: results.reduce((worst, result) => !worst || result.pnl < worst.pnl ? result : worst, null as typeof results[number] | null)
+    };
+  }
+
+  async analyzePortfolio(portfolio: any, overrides: Partial<RiskLimits> = {}) {
+    const limits = resolveLimits(overrides);
+    const holdings = holdingsOf(portfolio);
+    const total = totalValue(portfolio, holdings);
+    const weights = weightsOf(holdings, total);
+    const sectors = sectorExposure(weights);
+    const books = await this.history.strategyBooks();
+    const series = await this.history.dailyReturns(unique([
+      ...Object.keys(weights),
+      ...Object.values(books).flatMap(book => Object.keys(book))
+    ]));
+
+    const largest = Object.entries(weights).sort((a, b) => b[1] - a[1])[0];
+    const largestSector = Object.entries(sectors).sort((a, b) => b[1] - a[1])[0];
+    const measured = series.dates.length >= MIN_OBSERVATIONS;
+    const returns = portfolioReturns(series, weights);
+    const varPct = measured ? valueAtRisk(returns) : null;
+
+    // Highest pairwise correlation between strategies holding positions
+    let maxCorrelation: number | null = null;
+    if (measured) {
+      const bookReturns = Object.values(books).map(book => {
+        const bookTotal = Object.values(book).reduce((sum, value) => sum + value, 0);
+        return portfolioReturns(series, Object.fromEntries(
+          Object.entries(book).map(([symbol, value]) => [symbol, bookTotal > 0 ? value / bookTotal : 0])));
+      });
+
+      for (let i = 0; i < bookReturns.length; i++) {
+        for (let j = i + 1; j < bookReturns.length; j++) {
+          maxCorrelation = Math.max(maxCorrelation ?? -1, correlation(bookReturns[i], bookReturns[j]));
+        }
+      }
+    }
+
+    const riskFactors = [
+      { factor: 'position_size', value: largest?.[1] ?? 0, limit: limits.max_position_size },
+      { factor: 'sector_exposure', value: largestSector?.[1] ?? 0, limit: limits.max_sector_exposure },
+      { factor: 'portfolio_var', value: varPct, limit: limits.max_portfolio_var },
+      { factor: 'strategy_correlation', value: maxCorrelation, limit: limits.max_correlation }
+    ].map(factor => ({
+      ...factor,
+      utilization: factor.value === null ? null : Math.max(factor.value, 0) / factor.limit
+    }));
+
+    const measuredFactors = riskFactors.filter(factor => factor.utilization !== null);
+    // 100 means the average limit is fully used
+    const score = measuredFactors.length > 0
+      ? Math.round(Math.min(measuredFactors.reduce((sum, factor) => sum + factor.utilization!, 0) / measuredFactors.length, 1) * 100)
+      : 0;
+
+    return {
+      overall_risk_score: score,
+      total_value: total,
+      largest_position: largest ? { symbol: largest[0], value: largest[1] * total, percentage: largest[1] } : null,
+      sector_exposure: sectors,
+      concentration_hhi: Object.values(weights).reduce((sum, weight) => sum + weight * weight, 0),
+      cash_ratio: total > 0 ? Number(portfolio?.cash || 0) / total : 0,
+      var_95: varPct === null ? null : varPct * total,
+      // Annualized over 365 trading days
+      volatility: measured ? stdev(returns) * Math.sqrt(365) : null,
+      risk_factors: riskFactors,
+      limit_breaches: riskFactors.filter(factor => factor.utilization !== null && factor.utilization > 1),
+      limits,
+      warnings: measured
+        ? unmeasured(series, Object.keys(weights))
+        : [`Only ${series.dates.length} days of price history; VaR and correlation were not measured`],
+      timestamp: new Date()
+    };
+  }
+}
+
+// Accepts positions keyed by symbol (the portfolio context) or as a list
+function holdingsOf(portfolio: any): Holding[] {
+  const positions = portfolio?.positions || {};
+  const entries: [string, any][] = Array.isArray(positions)
+    ? positions.map((position: any) => [position.symbol || position.strategy_id, position])
+    : Object.entries(positions);
+
+  return entries
+    .map(([symbol, position]) => ({
+      symbol,
+      value: Number(position?.value ?? (position?.quantity || 0) * (position?.market_price || position?.avg_price || 0))
+    }))
+    .filter(holding => holding.symbol && holding.value > 0);
+}
+
+function totalValue(portfolio: any, holdings: Holding[]): number {
+  const total = Number(portfolio?.total_value);
+  return total > 0 ? total : Number(portfolio?.cash || 0) + holdings.reduce((sum, holding) => sum + holding.value, 0);
+}
+
+function weightsOf(holdings: Holding[], total: number): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const holding of holdings) {
+    weights[holding.symbol] = (weights[holding.symbol] || 0) + (total > 0 ? holding.value / total : 0);
+  }
+  return weights;
+}
+
+function sectorExposure(weights: Record<string, number>): Record<string, number> {
+  const sectors: Record<string, number> = {};
+  for (const [symbol, weight] of Object.entries(weights)) {
+    sectors[sectorOf(symbol)] = (sectors[sectorOf(symbol)] || 0) + weight;
+  }
+  return sectors;
+}
+
+// Daily returns of a weighted basket; symbols without history contribute nothing
+function portfolioReturns(series: ReturnSeries, weights: Record<string, number>): number[] {
+  return series.dates.map((_date, i) =>
+    Object.entries(weights).reduce((sum, [symbol, weight]) => sum + weight * (series.returns[symbol]?.[i] ?? 0), 0));
+}
+
+function unmeasured(series: ReturnSeries, symbols: string[]): string[] {
+  const missing = symbols.filter(symbol => !series.returns[symbol]);
+  return missing.length > 0 ? [`No price history for ${missing.join(', ')}; excluded from VaR`] : [];
+}
+
+function shockFor(scenario: StressScenario, symbol: string): number {
+  return scenario.shocks[symbol] ?? scenario.shocks[sectorOf(symbol)] ?? scenario.shocks['*'] ?? 0;
+}
+
+// Bisection for the largest allocation in [0, max] that passes `within`
+function largestWithin(within: (allocation: number) => boolean, max: number): number {
+  if (!within(0)) return 0;
+
+  let low = 0;
+  let high = max;
+  for (let i = 0; i < 30; i++) {
+    const mid = (low + high) / 2;
+    if (within(mid)) low = mid; else high = mid;
+  }
+  return low;
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+// Suggestions are rounded down so they stay within the limits
+function floor(allocation: number): number {
+  return Math.floor(Math.max(allocation, 0) * 10000) / 10000;
+}
+
+function percent(share: number): string {
+  return `${(share * 100).toFixed(2)}%`;
+}
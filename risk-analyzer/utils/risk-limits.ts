@@ -0,0 +1,61 @@
+// Shares of AUM are fractions throughout the risk analyzer: 0.02 is 2%
+export interface RiskLimits {
+  max_position_size: number;
+  // 1-day 95% value at risk of the whole portfolio
+  max_portfolio_var: number;
+  // Between the candidate strategy and any strategy already holding positions
+  max_correlation: number;
+  max_sector_exposure: number;
+}
+
+// The COO's risk framework
+export const DEFAULT_LIMITS: RiskLimits = {
+  max_position_size: Number(process.env.RISK_MAX_POSITION_SIZE || 0.02),
+  max_portfolio_var: Number(process.env.RISK_MAX_PORTFOLIO_VAR || 0.025),
+  max_correlation: Number(process.env.RISK_MAX_CORRELATION || 0.7),
+  max_sector_exposure: Number(process.env.RISK_MAX_SECTOR_EXPOSURE || 0.2)
+};
+
+// Request overrides may only tighten the defaults, never loosen them
+export function resolveLimits(overrides: Partial<RiskLimits> = {}): RiskLimits {
+  const limits = { ...DEFAULT_LIMITS };
+
+  for (const key of Object.keys(limits) as (keyof RiskLimits)[]) {
+    const value = overrides[key];
+    if (typeof value === 'number' && value > 0) {
+      limits[key] = Math.min(limits[key], value);
+    }
+  }
+
+  return limits;
+}
+
+const DEFAULT_SECTORS: Record<string, string> = {
+  BTC: 'store_of_value',
+  LTC: 'store_of_value',
+  ETH: 'smart_contracts',
+  SOL: 'smart_contracts',
+  ADA: 'smart_contracts',
+  AVAX: 'smart_contracts',
+  DOT: 'smart_contracts',
+  MATIC: 'scaling',
+  ARB: 'scaling',
+  OP: 'scaling',
+  UNI: 'defi',
+  AAVE: 'defi',
+  LINK: 'oracles',
+  USDT: 'stablecoins',
+  USDC: 'stablecoins',
+  DOGE: 'memecoins'
+};
+
+// e.g. RISK_SECTORS='{"XRP":"payments"}'
+const SECTORS: Record<string, string> = {
+  ...DEFAULT_SECTORS,
+  ...JSON.parse(process.env.RISK_SECTORS || '{}')
+};
+
+// Unclassified symbols count as a sector of their own
+export function sectorOf(symbol: string): string {
+  return SECTORS[symbol.toUpperCase()] || symbol;
+}
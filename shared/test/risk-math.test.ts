@@ -0,0 +1,164 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  beta,
+  calmarRatio,
+  correlation,
+  covarianceMatrix,
+  downsideDeviation,
+  expectedShortfall,
+  maxDrawdown,
+  normalQuantile,
+  omegaRatio,
+  portfolioReturns,
+  portfolioRisk,
+  riskMetrics,
+  stdev,
+  valueAtRisk
+} from '../utils/risk-math';
+import { ValidationError } from '../utils/error-handling';
+
+// -5.0%, -4.9%, ..., +4.9%
+const ladder = Array.from({ length: 100 }, (_, i) => i / 1000 - 0.05);
+
+// Alternating +/-1% around a small drift
+const alternating = Array.from({ length: 200 }, (_, i) => (i % 2 === 0 ? 0.01 : -0.01) + 0.0005);
+
+describe('Risk Math', () => {
+  describe('Value at risk', () => {
+    it('should take historical VaR and CVaR from the worst observations', () => {
+      // Five observations make up the 5% tail
+      expect(valueAtRisk(ladder)).toBeCloseTo(0.046, 10);
+      expect(expectedShortfall(ladder)).toBeCloseTo(0.048, 10);
+
+      expect(valueAtRisk(ladder, { confidence: 0.99 })).toBeCloseTo(0.05, 10);
+      expect(expectedShortfall(ladder, { confidence: 0.99 })).toBeCloseTo(0.05, 10);
+    });
+
+    it('should stay in bounds for short and empty series', () => {
+      expect(valueAtRisk([0.02, -0.03])).toBeCloseTo(0.03, 10);
+      expect(valueAtRisk([0.02])).toBe(0);
+      expect(valueAtRisk([])).toBe(0);
+      expect(expectedShortfall([])).toBe(0);
+    });
+
+    it('should compute parametric VaR from the normal quantile', () => {
+      const sigma = stdev(alternating);
+
+      expect(valueAtRisk(alternating, { method: 'parametric' }))
+        .toBeCloseTo(1.6448536 * sigma - 0.0005, 8);
+      expect(expectedShortfall(alternating, { method: 'parametric' }))
+        .toBeCloseTo(2.0627128 * sigma - 0.0005, 8);
+    });
+
+    it('should scale with the square root of the horizon', () => {
+      const daily = valueAtRisk(ladder);
+
+      expect(valueAtRisk(ladder, { horizon: 10 })).toBeCloseTo(daily * Math.sqrt(10), 10);
+      expect(valueAtRisk(alternating, { method: 'parametric', horizon: 4 }))
+        .toBeCloseTo(2 * valueAtRisk(alternating, { method: 'parametric' }), 10);
+    });
+
+    it('should give repeatable Monte Carlo VaR close to the parametric figure', () => {
+      const first = valueAtRisk(alternating, { method: 'monte_carlo' });
+      const second = valueAtRisk(alternating, { method: 'monte_carlo' });
+      const parametric = valueAtRisk(alternating, { method: 'parametric' });
+
+      expect(first).toBe(second);
+      expect(Math.abs(first - parametric) / parametric).toBeLessThan(0.05);
+      expect(valueAtRisk(alternating, { method: 'monte_carlo', seed: 7 })).not.toBe(first);
+    });
+
+    it('should reject confidence levels outside (0, 1)', () => {
+      expect(() => valueAtRisk(ladder, { confidence: 1 })).toThrow(ValidationError);
+      expect(() => normalQuantile(0)).toThrow(ValidationError);
+    });
+
+    it('should invert the normal distribution', () => {
+      expect(normalQuantile(0.5)).toBeCloseTo(0, 9);
+      expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 6);
+      expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 6);
+    });
+  });
+
+  describe('Portfolio aggregation', () => {
+    const a = alternating;
+    const b = alternating.map(r => -r);
+
+    it('should weight returns per period', () => {
+      const [first, second] = portfolioReturns([0.5, 0.5], [[0.02, -0.04], [0.04, 0.02]]);
+      expect(first).toBeCloseTo(0.03, 12);
+      expect(second).toBeCloseTo(-0.01, 12);
+      expect(() => portfolioReturns([1], [a, b])).toThrow(ValidationError);
+    });
+
+    it('should build a symmetric covariance matrix', () => {
+      const matrix = covarianceMatrix([a, b]);
+
+      expect(matrix[0][0]).toBeCloseTo(stdev(a) ** 2, 12);
+      expect(matrix[0][1]).toBe(matrix[1][0]);
+      expect(matrix[0][1]).toBeCloseTo(-(stdev(a) ** 2), 12);
+    });
+
+    it('should net out offsetting positions', () => {
+      const hedged = portfolioRisk([0.5, 0.5], [a, b], { method: 'parametric' });
+      expect(hedged.volatility).toBeCloseTo(0, 12);
+      expect(hedged.var).toBe(0);
+
+      const doubled = portfolioRisk([0.5, 0.5], [a, a], { method: 'parametric' });
+      expect(doubled.volatility).toBeCloseTo(stdev(a), 12);
+      expect(doubled.var).toBeCloseTo(valueAtRisk(a, { method: 'parametric' }), 10);
+      expect(doubled.risk_contributions[0]).toBeCloseTo(0.5, 10);
+      expect(doubled.risk_contributions[1]).toBeCloseTo(0.5, 10);
+    });
+
+    it('should agree across methods on a diversified book', () => {
+      const c = ladder.concat(ladder).map((r, i) => r * (i % 3 === 0 ? 1 : -0.5));
+      const series = [a, c];
+      const historical = portfolioRisk([0.6, 0.4], series);
+      const monteCarlo = portfolioRisk([0.6, 0.4], series, { method: 'monte_carlo' });
+
+      expect(historical.var).toBeCloseTo(valueAtRisk(portfolioReturns([0.6, 0.4], series)), 12);
+      expect(monteCarlo.var).toBe(portfolioRisk([0.6, 0.4], series, { method: 'monte_carlo' }).var);
+      expect(historical.risk_contributions.reduce((sum, share) => sum + share, 0)).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('Risk metrics', () => {
+    it('should measure drawdowns on compounded returns', () => {
+      expect(maxDrawdown([0.1, -0.5, 0.2])).toBeCloseTo(0.5, 12);
+      expect(maxDrawdown([0.01, 0.02])).toBe(0);
+      expect(calmarRatio([0.01, 0.02])).toBe(Infinity);
+    });
+
+    it('should compute omega and downside deviation around the threshold', () => {
+      expect(omegaRatio([0.02, -0.01, 0.01])).toBeCloseTo(3, 12);
+      expect(omegaRatio([0.02, -0.01, 0.01], 0.01)).toBeCloseTo(0.5, 12);
+      expect(downsideDeviation([0.02, -0.02, 0.01, -0.01])).toBeCloseTo(Math.sqrt(0.0005 / 4), 12);
+    });
+
+    it('should measure beta and correlation against the benchmark', () => {
+      const market = ladder;
+      const levered = market.map(r => 2 * r + 0.001);
+
+      expect(beta(levered, market)).toBeCloseTo(2, 10);
+      expect(correlation(levered, market)).toBeCloseTo(1, 10);
+      expect(beta(levered, market.map(() => 0.01))).toBe(0);
+    });
+
+    it('should fill every RiskMetrics field deterministically', () => {
+      const metrics = riskMetrics(ladder, alternating.slice(0, 100));
+
+      expect(Object.keys(metrics).sort()).toEqual([
+        'beta', 'calmar_ratio', 'correlation_to_market', 'cvar_95', 'downside_deviation',
+        'omega_ratio', 'var_95', 'volatility'
+      ]);
+      expect(metrics.var_95).toBeCloseTo(0.046, 10);
+      expect(metrics.volatility).toBeCloseTo(stdev(ladder) * Math.sqrt(365), 12);
+      expect(riskMetrics(ladder, alternating.slice(0, 100))).toEqual(metrics);
+
+      const standalone = riskMetrics(ladder);
+      expect(standalone.beta).toBe(0);
+      expect(standalone.correlation_to_market).toBe(0);
+    });
+  });
+});
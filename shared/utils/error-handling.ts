@@ -46,6 +46,68 @@ export class ValidationError extends FieldElevateError {
   }
 }
 
+export class AuthenticationError extends FieldElevateError {
+  constructor(message: string, context?: any) {
+    super(message, 'UNAUTHENTICATED', 'high', false, context);
+  }
+}
+
+export class AuthorizationError extends FieldElevateError {
+  public readonly caller: string;
+  public readonly scope: string;
+
+  constructor(caller: string, scope: string, context?: any) {
+    super(`${caller} is not allowed to call ${scope}`, 'FORBIDDEN', 'high', false, context);
+    this.caller = caller;
+    this.scope = scope;
+  }
+}
+
+export class ConflictError extends FieldElevateError {
+  public readonly expectedVersion: number;
+  public readonly currentVersion: number;
+  // Latest stored value, so the caller can rebase and retry
+  public readonly current: any;
+
+  constructor(message: string, expectedVersion: number, currentVersion: number, current: any, context?: any) {
+    super(message, 'VERSION_CONFLICT', 'low', true, context);
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+    this.current = current;
+  }
+}
+
+export class RateLimitError extends FieldElevateError {
+  // 'rate' clears as the bucket refills; 'quota' at the next UTC midnight
+  public readonly limit: 'rate' | 'quota';
+  public readonly retryAfterMs: number;
+
+  constructor(message: string, limit: 'rate' | 'quota', retryAfterMs: number, context?: any) {
+    super(message, 'RATE_LIMITED', 'low', true, context);
+    this.limit = limit;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class IdempotencyError extends FieldElevateError {
+  public readonly idempotencyKey: string;
+  // 'mismatch' when the key was first used for a different request;
+  // 'in_progress' while the first request with the key is still running
+  public readonly reason: 'mismatch' | 'in_progress';
+
+  constructor(message: string, idempotencyKey: string, reason: 'mismatch' | 'in_progress', context?: any) {
+    super(
+      message,
+      reason === 'mismatch' ? 'IDEMPOTENCY_KEY_REUSED' : 'IDEMPOTENCY_IN_PROGRESS',
+      'medium',
+      reason === 'in_progress',
+      context
+    );
+    this.idempotencyKey = idempotencyKey;
+    this.reason = reason;
+  }
+}
+
 export class ExecutionError extends FieldElevateError {
   public readonly failedOperation: string;
   
@@ -225,13 +287,15 @@ export async function withRetry<T>(
     delay?: number;
     backoff?: number;
     onRetry?: (attempt: number, error: Error) => void;
+    shouldRetry?: (error: Error) => boolean;
   } = {}
 ): Promise<T> {
   const {
     maxRetries = 3,
     delay = 1000,
     backoff = 2,
-    onRetry
+    onRetry,
+    shouldRetry = () => true
   } = options;
   
   let lastError: Error;
@@ -242,6 +306,10 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error as Error;
       
+      if (!shouldRetry(lastError)) {
+        throw lastError;
+      }
+      
       if (attempt < maxRetries - 1) {
         if (onRetry) {
           onRetry(attempt + 1, error as Error);
@@ -256,6 +324,12 @@ export async function withRetry<T>(
   throw lastError!;
 }
 
+export class CircuitOpenError extends FieldElevateError {
+  constructor(context?: any) {
+    super('Circuit breaker is open', 'CIRCUIT_OPEN', 'medium', true, context);
+  }
+}
+
 // Circuit breaker
 export class CircuitBreaker {
   private failures = 0;
@@ -272,17 +346,16 @@ export class CircuitBreaker {
       if (Date.now() - this.lastFailureTime!.getTime() > this.timeout) {
         this.state = 'half-open';
       } else {
-        throw new Error('Circuit breaker is open');
+        throw new CircuitOpenError();
       }
     }
     
     try {
       const result = await operation();
       
-      if (this.state === 'half-open') {
-        this.state = 'closed';
-        this.failures = 0;
-      }
+      // Only consecutive failures should trip the breaker
+      this.state = 'closed';
+      this.failures = 0;
       
       return result;
       
@@ -298,6 +371,14 @@ export class CircuitBreaker {
     }
   }
   
+  // An open breaker reports half-open once the next call would be let through
+  getState(): 'closed' | 'open' | 'half-open' {
+    if (this.state === 'open' && Date.now() - this.lastFailureTime!.getTime() > this.timeout) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+  
   reset() {
     this.failures = 0;
     this.state = 'closed';
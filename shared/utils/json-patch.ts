@@ -0,0 +1,235 @@
+import { ValidationError } from './error-handling.js';
+
+// RFC 6902 operation
+export interface PatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: any;
+}
+
+// Applies RFC 6902 operations to a copy of the document; the input is left untouched
+export function applyPatch<T = any>(document: T, operations: PatchOperation[]): T {
+  let result: any = clone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      throw new ValidationError('Invalid JSON patch', [{
+        index,
+        op: operation.op,
+        path: operation.path,
+        message: (error as Error).message
+      }]);
+    }
+  });
+
+  return result;
+}
+
+// RFC 7396 merge patch: objects merge recursively, null removes a key, anything else replaces
+export function mergePatch(target: any, patch: any): any {
+  if (!isObject(patch)) {
+    return clone(patch);
+  }
+
+  const result: Record<string, any> = isObject(target) ? clone(target) : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergePatch(result[key], value);
+    }
+  }
+
+  return result;
+}
+
+// RFC 6902 operations that turn `from` into `to`; arrays are compared index by index
+export function createPatch(from: any, to: any, pointer = ''): PatchOperation[] {
+  if (deepEqual(from, to)) return [];
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const operations: PatchOperation[] = [];
+    const shared = Math.min(from.length, to.length);
+
+    for (let i = 0; i < shared; i++) {
+      operations.push(...createPatch(from[i], to[i], `${pointer}/${i}`));
+    }
+    for (let i = shared; i < to.length; i++) {
+      operations.push({ op: 'add', path: `${pointer}/${i}`, value: clone(to[i]) });
+    }
+    // Remove from the end so earlier indexes stay valid
+    for (let i = from.length - 1; i >= shared; i--) {
+      operations.push({ op: 'remove', path: `${pointer}/${i}` });
+    }
+
+    return operations;
+  }
+
+  if (isObject(from) && isObject(to)) {
+    const operations: PatchOperation[] = [];
+
+    for (const key of Object.keys(from)) {
+      if (!(key in to)) {
+        operations.push({ op: 'remove', path: `${pointer}/${escapeToken(key)}` });
+      }
+    }
+    for (const [key, value] of Object.entries(to)) {
+      const path = `${pointer}/${escapeToken(key)}`;
+      operations.push(...(key in from
+        ? createPatch(from[key], value, path)
+        : [{ op: 'add' as const, path, value: clone(value) }]));
+    }
+
+    return operations;
+  }
+
+  return [{ op: 'replace', path: pointer, value: clone(to) }];
+}
+
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+
+  return aKeys.length === bKeys.length && aKeys.every(key => deepEqual(a[key], b[key]));
+}
+
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function applyOperation(document: any, operation: PatchOperation): any {
+  switch (operation.op) {
+    case 'add':
+      return add(document, parsePointer(operation.path), clone(operation.value));
+
+    case 'remove':
+      return remove(document, parsePointer(operation.path));
+
+    case 'replace': {
+      const path = parsePointer(operation.path);
+      if (path.length === 0) return clone(operation.value);
+
+      // Assign in place so object keys keep their order
+      const parent = get(document, path.slice(0, -1));
+      const key = path[path.length - 1];
+      get(document, path);
+      parent[Array.isArray(parent) ? arrayIndex(parent, key, false) : key] = clone(operation.value);
+      return document;
+    }
+
+    case 'move': {
+      const from = parsePointer(requireFrom(operation));
+      const value = get(document, from);
+      return add(remove(document, from), parsePointer(operation.path), value);
+    }
+
+    case 'copy': {
+      const value = get(document, parsePointer(requireFrom(operation)));
+      return add(document, parsePointer(operation.path), clone(value));
+    }
+
+    case 'test':
+      if (!deepEqual(get(document, parsePointer(operation.path)), operation.value)) {
+        throw new Error(`Test failed at ${operation.path}`);
+      }
+      return document;
+
+    default:
+      throw new Error(`Unknown operation: ${(operation as any).op}`);
+  }
+}
+
+function get(document: any, path: string[]): any {
+  let current = document;
+
+  for (const token of path) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isObject(current) && token in current) {
+      current = current[token];
+    } else {
+      throw new Error(`Path not found: /${path.join('/')}`);
+    }
+  }
+
+  return current;
+}
+
+function add(document: any, path: string[], value: any): any {
+  if (path.length === 0) return value;
+
+  const parent = get(document, path.slice(0, -1));
+  const key = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(key === '-' ? parent.length : arrayIndex(parent, key, true), 0, value);
+  } else if (isObject(parent)) {
+    parent[key] = value;
+  } else {
+    throw new Error(`Cannot add to a non-container at /${path.slice(0, -1).join('/')}`);
+  }
+
+  return document;
+}
+
+function remove(document: any, path: string[]): any {
+  if (path.length === 0) return undefined;
+
+  const parent = get(document, path.slice(0, -1));
+  const key = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else if (isObject(parent) && key in parent) {
+    delete parent[key];
+  } else {
+    throw new Error(`Path not found: /${path.join('/')}`);
+  }
+
+  return document;
+}
+
+function arrayIndex(array: any[], token: string, allowEnd: boolean): number {
+  const index = Number(token);
+  const max = allowEnd ? array.length : array.length - 1;
+
+  if (!/^(0|[1-9]\d*)$/.test(token) || index > max) {
+    throw new Error(`Invalid array index: ${token}`);
+  }
+
+  return index;
+}
+
+function requireFrom(operation: PatchOperation): string {
+  if (operation.from === undefined) {
+    throw new Error(`"${operation.op}" requires "from"`);
+  }
+
+  return operation.from;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,77 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AuthenticationError } from './error-handling.js';
+
+// Requests older than this are rejected to limit replay
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export const SIGNATURE_HEADERS = {
+  appId: 'x-app-id',
+  keyId: 'x-key-id',
+  timestamp: 'x-timestamp',
+  signature: 'x-signature'
+} as const;
+
+export interface AppCredential {
+  keyId: string;
+  secret: string;
+}
+
+export interface SignedRequest {
+  method: string;
+  // Path and query string exactly as requested, so neither can be changed in transit
+  path: string;
+  // Raw body exactly as sent; empty for requests without one
+  body?: string;
+  timestamp?: number;
+}
+
+export function generateCredential(): AppCredential {
+  return {
+    keyId: `key_${randomBytes(8).toString('hex')}`,
+    secret: randomBytes(32).toString('base64url')
+  };
+}
+
+// HMAC-SHA256 over timestamp, method, path with query and body hash, one per line
+export function signRequest(secret: string, request: SignedRequest): string {
+  const bodyHash = createHash('sha256').update(request.body || '').digest('hex');
+  const payload = [request.timestamp, request.method.toUpperCase(), request.path, bodyHash].join('\n');
+
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+export function createSignatureHeaders(appId: string, credential: AppCredential, request: SignedRequest) {
+  const timestamp = request.timestamp ?? Date.now();
+
+  return {
+    'X-App-ID': appId,
+    'X-Key-ID': credential.keyId,
+    'X-Timestamp': String(timestamp),
+    'X-Signature': signRequest(credential.secret, { ...request, timestamp })
+  };
+}
+
+// Throws AuthenticationError unless the headers carry a fresh, valid signature
+export function verifySignature(
+  secret: string,
+  headers: Record<string, string | string[] | undefined>,
+  request: Omit<SignedRequest, 'timestamp'>
+) {
+  const timestamp = Number(headers[SIGNATURE_HEADERS.timestamp]);
+  const signature = headers[SIGNATURE_HEADERS.signature];
+
+  if (!timestamp || typeof signature !== 'string') {
+    throw new AuthenticationError('Missing request signature');
+  }
+
+  if (Math.abs(Date.now() - timestamp) > MAX_CLOCK_SKEW_MS) {
+    throw new AuthenticationError('Request timestamp outside the allowed window');
+  }
+
+  const expected = Buffer.from(signRequest(secret, { ...request, timestamp }), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new AuthenticationError('Invalid request signature');
+  }
+}
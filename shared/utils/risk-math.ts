@@ -0,0 +1,368 @@
+import { RiskMetrics } from '../types/strategy.js';
+import { ValidationError } from './error-handling.js';
+
+// Returns are simple per-period returns (0.01 is +1%); VaR, CVaR and drawdowns
+// are reported as positive loss fractions. Nothing here reads the clock or
+// Math.random, so the same inputs give the same numbers in every service.
+
+export type VarMethod = 'historical' | 'parametric' | 'monte_carlo';
+
+export interface VarOptions {
+  confidence?: number;
+  method?: VarMethod;
+  // Periods ahead; scaled by the square root of time
+  horizon?: number;
+  // Monte Carlo only
+  simulations?: number;
+  seed?: number;
+}
+
+export interface RiskMetricsOptions extends VarOptions {
+  // 365 for daily crypto returns, 252 for daily equity returns
+  periodsPerYear?: number;
+  // Minimum acceptable return per period for downside deviation and omega
+  threshold?: number;
+}
+
+export interface PortfolioRisk {
+  var: number;
+  cvar: number;
+  // Per-period standard deviation of the weighted returns
+  volatility: number;
+  // Share of portfolio variance from each asset; sums to 1
+  risk_contributions: number[];
+}
+
+const DEFAULTS = {
+  confidence: 0.95,
+  method: 'historical' as VarMethod,
+  horizon: 1,
+  simulations: 10000,
+  seed: 42,
+  periodsPerYear: 365,
+  threshold: 0
+};
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Sample covariance over the common length of both series. Shifting by the
+// first observation keeps flat series at exactly zero instead of rounding noise.
+export function covariance(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+
+  let sumA = 0;
+  let sumB = 0;
+  let sumProducts = 0;
+
+  for (let i = 0; i < n; i++) {
+    const x = a[i] - a[0];
+    const y = b[i] - b[0];
+    sumA += x;
+    sumB += y;
+    sumProducts += x * y;
+  }
+
+  return (sumProducts - sumA * sumB / n) / (n - 1);
+}
+
+export function stdev(values: number[]): number {
+  return Math.sqrt(Math.max(covariance(values, values), 0));
+}
+
+// Pearson correlation; 0 when either series is flat
+export function correlation(a: number[], b: number[]): number {
+  const deviation = stdev(a) * stdev(b);
+  return deviation > 0 ? covariance(a, b) / deviation : 0;
+}
+
+// Rows and columns follow `series`, one return series per asset
+export function covarianceMatrix(series: number[][]): number[][] {
+  const matrix = series.map(() => new Array(series.length).fill(0));
+
+  for (let i = 0; i < series.length; i++) {
+    for (let j = i; j < series.length; j++) {
+      matrix[i][j] = matrix[j][i] = covariance(series[i], series[j]);
+    }
+  }
+
+  return matrix;
+}
+
+// Per-period returns of a constantly rebalanced portfolio
+export function portfolioReturns(weights: number[], series: number[][]): number[] {
+  checkWeights(weights, series);
+
+  const periods = series.length > 0 ? Math.min(...series.map(returns => returns.length)) : 0;
+  return Array.from({ length: periods }, (_, t) =>
+    weights.reduce((sum, weight, i) => sum + weight * series[i][t], 0));
+}
+
+export function valueAtRisk(returns: number[], options: VarOptions = {}): number {
+  return tailRisk(returns, options).var;
+}
+
+// Expected shortfall: the average loss in the tail beyond the VaR
+export function expectedShortfall(returns: number[], options: VarOptions = {}): number {
+  return tailRisk(returns, options).cvar;
+}
+
+// Parametric and Monte Carlo use the covariance matrix, so diversification
+// is measured the same way whichever method reports the tail
+export function portfolioRisk(weights: number[], series: number[][], options: VarOptions = {}): PortfolioRisk {
+  checkWeights(weights, series);
+
+  const { method, confidence, horizon } = { ...DEFAULTS, ...options };
+  checkConfidence(confidence);
+
+  const covariances = covarianceMatrix(series);
+  const marginal = covariances.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+  const variance = weights.reduce((sum, weight, i) => sum + weight * marginal[i], 0);
+  const means = series.map(mean);
+  const expected = weights.reduce((sum, weight, i) => sum + weight * means[i], 0);
+
+  let tail: { var: number; cvar: number };
+  if (method === 'historical') {
+    tail = tailRisk(portfolioReturns(weights, series), options);
+  } else if (method === 'parametric') {
+    tail = normalTail(expected, Math.sqrt(variance), confidence, horizon);
+  } else {
+    const { simulations, seed } = { ...DEFAULTS, ...options };
+    const draws = simulateNormal(means, covariances, simulations, seed)
+      .map(draw => draw.reduce((sum, value, i) => sum + weights[i] * value, 0));
+    tail = scaleTail(empiricalTail(draws, confidence), horizon);
+  }
+
+  return {
+    ...tail,
+    volatility: Math.sqrt(variance),
+    risk_contributions: weights.map((weight, i) => variance > 0 ? weight * marginal[i] / variance : 0)
+  };
+}
+
+// Largest peak-to-trough fall of the compounded returns
+export function maxDrawdown(returns: number[]): number {
+  let value = 1;
+  let peak = 1;
+  let drawdown = 0;
+
+  for (const r of returns) {
+    value *= 1 + r;
+    peak = Math.max(peak, value);
+    drawdown = Math.max(drawdown, (peak - value) / peak);
+  }
+
+  return drawdown;
+}
+
+// Compound growth per year
+export function annualizedReturn(returns: number[], periodsPerYear = DEFAULTS.periodsPerYear): number {
+  if (returns.length === 0) return 0;
+
+  const growth = returns.reduce((value, r) => value * (1 + r), 1);
+  return Math.pow(growth, periodsPerYear / returns.length) - 1;
+}
+
+// Per period; only returns below the threshold count, over all observations
+export function downsideDeviation(returns: number[], threshold = DEFAULTS.threshold): number {
+  if (returns.length === 0) return 0;
+
+  const shortfall = returns.reduce((sum, r) => sum + Math.min(r - threshold, 0) ** 2, 0);
+  return Math.sqrt(shortfall / returns.length);
+}
+
+// Gains over losses around the threshold; Infinity when nothing fell below it
+export function omegaRatio(returns: number[], threshold = DEFAULTS.threshold): number {
+  const gains = returns.reduce((sum, r) => sum + Math.max(r - threshold, 0), 0);
+  const losses = returns.reduce((sum, r) => sum + Math.max(threshold - r, 0), 0);
+
+  if (losses === 0) return gains > 0 ? Infinity : 0;
+  return gains / losses;
+}
+
+// Annualized return over max drawdown; Infinity without a drawdown
+export function calmarRatio(returns: number[], periodsPerYear = DEFAULTS.periodsPerYear): number {
+  const drawdown = maxDrawdown(returns);
+  const annual = annualizedReturn(returns, periodsPerYear);
+
+  if (drawdown === 0) return annual > 0 ? Infinity : 0;
+  return annual / drawdown;
+}
+
+// Sensitivity to the benchmark; 0 when the benchmark is flat
+export function beta(returns: number[], market: number[]): number {
+  const variance = covariance(market, market);
+  return variance > 0 ? covariance(returns, market) / variance : 0;
+}
+
+// Every RiskMetrics field from one return series; beta and correlation are 0 without a benchmark
+export function riskMetrics(returns: number[], market: number[] = [], options: RiskMetricsOptions = {}): RiskMetrics {
+  const { periodsPerYear, threshold } = { ...DEFAULTS, ...options };
+  const tail = tailRisk(returns, { ...options, confidence: 0.95 });
+
+  return {
+    var_95: tail.var,
+    cvar_95: tail.cvar,
+    beta: market.length > 0 ? beta(returns, market) : 0,
+    correlation_to_market: market.length > 0 ? correlation(returns, market) : 0,
+    volatility: stdev(returns) * Math.sqrt(periodsPerYear),
+    downside_deviation: downsideDeviation(returns, threshold) * Math.sqrt(periodsPerYear),
+    omega_ratio: omegaRatio(returns, threshold),
+    calmar_ratio: calmarRatio(returns, periodsPerYear)
+  };
+}
+
+// Inverse of the standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new ValidationError('Probability must be between 0 and 1', [{ value: p }]);
+  }
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function tailRisk(returns: number[], options: VarOptions): { var: number; cvar: number } {
+  const { method, confidence, horizon, simulations, seed } = { ...DEFAULTS, ...options };
+  checkConfidence(confidence);
+
+  if (returns.length === 0) {
+    return { var: 0, cvar: 0 };
+  }
+
+  switch (method) {
+    case 'historical':
+      return scaleTail(empiricalTail(returns, confidence), horizon);
+    case 'parametric':
+      return normalTail(mean(returns), stdev(returns), confidence, horizon);
+    case 'monte_carlo': {
+      const draws = simulateNormal([mean(returns)], [[stdev(returns) ** 2]], simulations, seed).map(draw => draw[0]);
+      return scaleTail(empiricalTail(draws, confidence), horizon);
+    }
+    default:
+      throw new ValidationError(`Unknown VaR method: ${method}`, [{ method }]);
+  }
+}
+
+// The worst ceil(n * (1 - confidence)) observations form the tail; the VaR is
+// its mildest loss and the CVaR its average
+function empiricalTail(returns: number[], confidence: number): { var: number; cvar: number } {
+  const sorted = [...returns].sort((a, b) => a - b);
+  // The epsilon keeps e.g. 100 * (1 - 0.95) = 5.000000000000004 from rounding up to 6
+  const count = Math.min(Math.max(Math.ceil(sorted.length * (1 - confidence) - 1e-9), 1), sorted.length);
+  const tail = sorted.slice(0, count);
+
+  return {
+    var: Math.max(-tail[count - 1], 0),
+    cvar: Math.max(-mean(tail), 0)
+  };
+}
+
+function normalTail(mu: number, sigma: number, confidence: number, horizon: number): { var: number; cvar: number } {
+  const z = normalQuantile(confidence);
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  const scale = Math.sqrt(horizon);
+
+  return {
+    var: Math.max((z * sigma - mu) * scale, 0),
+    cvar: Math.max((sigma * density / (1 - confidence) - mu) * scale, 0)
+  };
+}
+
+function scaleTail(tail: { var: number; cvar: number }, horizon: number) {
+  const scale = Math.sqrt(horizon);
+  return { var: tail.var * scale, cvar: tail.cvar * scale };
+}
+
+// Multivariate normal draws through the Cholesky factor of the covariance matrix
+function simulateNormal(means: number[], covariances: number[][], simulations: number, seed: number): number[][] {
+  const factor = cholesky(covariances);
+  const random = seededRandom(seed);
+  const draws: number[][] = [];
+
+  for (let s = 0; s < simulations; s++) {
+    const normals = means.map(() => standardNormal(random));
+    draws.push(means.map((mu, i) =>
+      mu + factor[i].reduce((sum, value, j) => sum + value * normals[j], 0)));
+  }
+
+  return draws;
+}
+
+// Lower-triangular L with L * L^T = matrix; flat or redundant assets get zero columns
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const factor = matrix.map(() => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= factor[i][k] * factor[j][k];
+      }
+
+      if (i === j) {
+        factor[i][i] = sum > 1e-18 ? Math.sqrt(sum) : 0;
+      } else {
+        factor[i][j] = factor[j][j] > 0 ? sum / factor[j][j] : 0;
+      }
+    }
+  }
+
+  return factor;
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller
+function standardNormal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function checkConfidence(confidence: number) {
+  if (!(confidence > 0 && confidence < 1)) {
+    throw new ValidationError('Confidence must be between 0 and 1', [{ confidence }]);
+  }
+}
+
+function checkWeights(weights: number[], series: number[][]) {
+  if (weights.length !== series.length) {
+    throw new ValidationError('Expected one weight per return series', [{
+      weights: weights.length,
+      series: series.length
+    }]);
+  }
+}
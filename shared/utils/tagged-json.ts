@@ -0,0 +1,123 @@
+// JSON that round-trips the values plain JSON loses. Tagged values are
+// single-key objects: { "$date": iso }, { "$bigint": "123" },
+// { "$decimal": "0.10" }, { "$number": "NaN" }. Plain objects that happen to
+// look like a tag are wrapped in { "$object": ... }.
+
+const TAGS = ['$date', '$bigint', '$decimal', '$number', '$object'];
+
+// Exact decimal kept as its string form, e.g. prices that must not pick up float error
+export class Decimal {
+  readonly value: string;
+
+  constructor(value: string | number) {
+    const text = String(value);
+
+    if (!/^-?\d+(\.\d+)?$/.test(text)) {
+      throw new Error(`Invalid decimal: ${text}`);
+    }
+
+    this.value = text;
+  }
+
+  toNumber() {
+    return Number(this.value);
+  }
+
+  toString() {
+    return this.value;
+  }
+
+  toJSON() {
+    return this.value;
+  }
+}
+
+export function stringifyTagged(value: any): string {
+  return JSON.stringify(toTagged(value));
+}
+
+export function parseTagged(text: string): any {
+  return fromTagged(JSON.parse(text));
+}
+
+export function toTagged(value: any): any {
+  if (value instanceof Date) {
+    return { $date: isNaN(value.getTime()) ? null : value.toISOString() };
+  }
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (value instanceof Decimal) {
+    return { $decimal: value.value };
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { $number: String(value) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toTagged);
+  }
+  if (isPlainObject(value)) {
+    const tagged: Record<string, any> = {};
+
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        tagged[key] = toTagged(item);
+      }
+    }
+
+    return isTag(value) ? { $object: tagged } : tagged;
+  }
+
+  return value;
+}
+
+export function fromTagged(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(fromTagged);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  if (isTag(value)) {
+    const [[tag, content]] = Object.entries(value);
+
+    switch (tag) {
+      case '$date':
+        return new Date(content ?? NaN);
+      case '$bigint':
+        return BigInt(content);
+      case '$decimal':
+        return new Decimal(content);
+      case '$number':
+        return Number(content);
+      case '$object':
+        return fromPlainObject(content);
+    }
+  }
+
+  return fromPlainObject(value);
+}
+
+function fromPlainObject(value: Record<string, any>) {
+  const result: Record<string, any> = {};
+
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = fromTagged(item);
+  }
+
+  return result;
+}
+
+function isTag(value: Record<string, any>) {
+  const keys = Object.keys(value);
+  return keys.length === 1 && TAGS.includes(keys[0]);
+}
+
+// Class instances other than the tagged ones keep their own toJSON behaviour
+function isPlainObject(value: any): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
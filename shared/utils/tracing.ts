@@ -0,0 +1,297 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { appendFile } from 'fs/promises';
+
+// W3C trace context header: 00-<trace id>-<parent span id>-<flags>
+export const TRACEPARENT_HEADER = 'traceparent';
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const BATCH_SIZE = 100;
+const FLUSH_DELAY_MS = 1000;
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  // Unsampled traces are still propagated, but their spans aren't exported
+  sampled: boolean;
+}
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  // Defaults to the active span; null starts a new trace
+  parent?: SpanContext | null;
+  attributes?: SpanAttributes;
+}
+
+// A finished span as written to the file exporter
+export interface SpanRecord {
+  trace_id: string;
+  span_id: string;
+  parent_span_id?: string;
+  service: string;
+  name: string;
+  kind: SpanKind;
+  start_time: string;
+  end_time: string;
+  duration_ms: number;
+  attributes: SpanAttributes;
+  status: 'ok' | 'error';
+  error?: string;
+}
+
+export interface SpanExporter {
+  export(spans: SpanRecord[]): Promise<void>;
+}
+
+const activeSpan = new AsyncLocalStorage<SpanContext>();
+
+export function parseTraceparent(header: string | string[] | undefined): SpanContext | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value ? TRACEPARENT.exec(value.trim().toLowerCase()) : null;
+
+  // All-zero IDs are invalid by the spec
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+
+  return { traceId: match[1], spanId: match[2], sampled: (parseInt(match[3], 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+// Header for the active span, to pass along with outgoing requests and stream entries
+export function activeTraceparent(): string | undefined {
+  const context = activeSpan.getStore();
+  return context ? formatTraceparent(context) : undefined;
+}
+
+export class Span {
+  readonly context: SpanContext;
+  private attributes: SpanAttributes;
+  private start = new Date();
+  private error?: string;
+  private ended = false;
+
+  constructor(
+    private tracer: Tracer,
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly parent: SpanContext | null,
+    attributes: SpanAttributes = {}
+  ) {
+    this.context = {
+      traceId: parent?.traceId || randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      sampled: parent ? parent.sampled : true
+    };
+    this.attributes = { ...attributes };
+  }
+
+  get traceparent() {
+    return formatTraceparent(this.context);
+  }
+
+  setAttribute(key: string, value: string | number | boolean | undefined) {
+    this.attributes[key] = value;
+  }
+
+  setAttributes(attributes: SpanAttributes) {
+    Object.assign(this.attributes, attributes);
+  }
+
+  recordError(error: any) {
+    this.error = error?.message || String(error);
+  }
+
+  end() {
+    if (this.ended) return;
+    this.ended = true;
+
+    const end = new Date();
+    this.tracer.record({
+      trace_id: this.context.traceId,
+      span_id: this.context.spanId,
+      parent_span_id: this.parent?.spanId,
+      service: this.tracer.service,
+      name: this.name,
+      kind: this.kind,
+      start_time: this.start.toISOString(),
+      end_time: end.toISOString(),
+      duration_ms: end.getTime() - this.start.getTime(),
+      attributes: this.attributes,
+      status: this.error === undefined ? 'ok' : 'error',
+      error: this.error
+    }, this.context.sampled);
+  }
+}
+
+/**
+ * Creates spans for one service and hands finished ones to the exporter in
+ * batches. The active span follows async calls, so spans started inside
+ * `withSpan` become its children without passing the context around.
+ */
+export class Tracer {
+  private pending: SpanRecord[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly service: string,
+    private exporter: SpanExporter | null = defaultExporter()
+  ) {}
+
+  setExporter(exporter: SpanExporter | null) {
+    this.exporter = exporter;
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent === undefined ? activeSpan.getStore() || null : options.parent;
+    return new Span(this, name, options.kind || 'internal', parent, options.attributes);
+  }
+
+  // Runs fn with a new span active, ending it when fn settles
+  async withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+
+    try {
+      return await activeSpan.run(span.context, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  record(span: SpanRecord, sampled: boolean) {
+    if (!this.exporter || !sampled) return;
+
+    this.pending.push(span);
+
+    if (this.pending.length >= BATCH_SIZE) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+      // Don't keep the process alive just to export
+      this.flushTimer.unref();
+    }
+  }
+
+  async flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const spans = this.pending.splice(0);
+    if (!spans.length || !this.exporter) return;
+
+    try {
+      await this.exporter.export(spans);
+    } catch (error: any) {
+      // Tracing must never break the traced code
+      console.error(`[tracing] Failed to export ${spans.length} spans: ${error.message}`);
+    }
+  }
+}
+
+// Appends one JSON span per line
+export class FileSpanExporter implements SpanExporter {
+  constructor(private path: string) {}
+
+  async export(spans: SpanRecord[]) {
+    await appendFile(this.path, spans.map(span => JSON.stringify(span)).join('\n') + '\n');
+  }
+}
+
+// Posts OTLP/HTTP JSON, as accepted by the OpenTelemetry collector, Jaeger and Tempo
+export class OtlpSpanExporter implements SpanExporter {
+  constructor(private endpoint: string) {}
+
+  async export(spans: SpanRecord[]) {
+    const byService = new Map<string, SpanRecord[]>();
+    for (const span of spans) {
+      byService.set(span.service, [...(byService.get(span.service) || []), span]);
+    }
+
+    const response = await fetch(`${this.endpoint.replace(/\/+$/, '')}/v1/traces`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        resourceSpans: Array.from(byService, ([service, records]) => ({
+          resource: { attributes: toOtlpAttributes({ 'service.name': service }) },
+          scopeSpans: [{ scope: { name: 'field-elevate' }, spans: records.map(toOtlpSpan) }]
+        }))
+      }),
+      signal: AbortSignal.timeout(5000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Collector responded with ${response.status}`);
+    }
+  }
+}
+
+// Keeps spans in memory, for tests
+export class MemorySpanExporter implements SpanExporter {
+  readonly spans: SpanRecord[] = [];
+
+  async export(spans: SpanRecord[]) {
+    this.spans.push(...spans);
+  }
+}
+
+let sharedExporter: SpanExporter | null | undefined;
+
+// TRACE_EXPORTER=file writes TRACE_FILE (traces.jsonl); otlp posts to
+// OTEL_EXPORTER_OTLP_ENDPOINT (http://localhost:4318). Off by default.
+function defaultExporter(): SpanExporter | null {
+  if (sharedExporter === undefined) {
+    switch (process.env.TRACE_EXPORTER) {
+      case 'file':
+        sharedExporter = new FileSpanExporter(process.env.TRACE_FILE || 'traces.jsonl');
+        break;
+      case 'otlp':
+        sharedExporter = new OtlpSpanExporter(process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318');
+        break;
+      default:
+        sharedExporter = null;
+    }
+  }
+
+  return sharedExporter;
+}
+
+const OTLP_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+
+function toOtlpSpan(span: SpanRecord) {
+  return {
+    traceId: span.trace_id,
+    spanId: span.span_id,
+    parentSpanId: span.parent_span_id,
+    name: span.name,
+    kind: OTLP_KINDS[span.kind],
+    startTimeUnixNano: `${new Date(span.start_time).getTime()}000000`,
+    endTimeUnixNano: `${new Date(span.end_time).getTime()}000000`,
+    attributes: toOtlpAttributes(span.attributes),
+    status: span.status === 'error' ? { code: 2, message: span.error } : { code: 1 }
+  };
+}
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'boolean'
+        ? { boolValue: value }
+        : typeof value === 'number'
+          ? (Number.isInteger(value) ? { intValue: value } : { doubleValue: value })
+          : { stringValue: String(value) }
+    }));
+}
@@ -54,7 +54,8 @@ export const RiskCheckSchema = z.object({
   risk_params: z.object({
     max_position_size: z.number().optional(),
     max_sector_exposure: z.number().optional(),
-    max_correlation: z.number().optional()
+    max_correlation: z.number().optional(),
+    max_portfolio_var: z.number().optional()
   }).optional()
 });
 
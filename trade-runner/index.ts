@@ -0,0 +1,249 @@
+import express from 'express';
+import { z } from 'zod';
+import { setupMCPClient, createMCPHandler } from '../replit-app-template/mcp-client';
+import { PaperBroker } from './utils/paper-broker';
+
+const app = express();
+app.use(express.json());
+
+// Initialize MCP client; market_data updates drive the paper fills
+const mcpClient = setupMCPClient({
+  appId: 'trade-runner',
+  appName: 'Trade Runner',
+  capabilities: ['execution', 'order_management', 'position_tracking'],
+  subscriptions: ['market_data']
+});
+
+const broker = new PaperBroker(mcpClient);
+
+// Method schemas
+const ExecuteParams = z.object({
+  strategy_id: z.string().min(1),
+  allocation: z.number().positive().max(1),
+  symbols: z.array(z.string().min(1)).min(1).default(['BTC', 'ETH', 'SOL']),
+  risk_params: z.object({
+    // Places a stop this far (in percent) below each entry
+    stop_loss_pct: z.number().positive().max(100).optional()
+  }).passthrough().optional(),
+  // A retry with the same key gets the first execution back
+  idempotency_key: z.string().optional()
+});
+
+const ExecuteRebalanceParams = z.object({
+  allocations: z.record(z.number().min(0).max(1)),
+  execution_style: z.enum(['patient', 'aggressive']).default('patient'),
+  time_limit: z.string().default('4h'),
+  // Stable across workflow retries, so it doubles as the rebalance id
+  idempotency_key: z.string().optional()
+});
+
+const CancelRebalanceParams = z.object({
+  rebalance_id: z.string().optional(),
+  // Output of the executeRebalance step being compensated
+  execution: z.object({ rebalance_id: z.string() }).passthrough().optional()
+}).refine(params => params.rebalance_id || params.execution, {
+  message: 'rebalance_id or execution is required'
+});
+
+const GetPositionsParams = z.object({});
+
+const PlaceOrderParams = z.object({
+  symbol: z.string().min(1),
+  side: z.enum(['buy', 'sell']),
+  type: z.enum(['market', 'limit', 'stop']).default('market'),
+  quantity: z.number().positive(),
+  limit_price: z.number().positive().optional(),
+  stop_price: z.number().positive().optional(),
+  strategy_id: z.string().optional()
+}).refine(params => params.type !== 'limit' || params.limit_price, {
+  message: 'Limit orders need a limit_price',
+  path: ['limit_price']
+}).refine(params => params.type !== 'stop' || params.stop_price, {
+  message: 'Stop orders need a stop_price',
+  path: ['stop_price']
+});
+
+const CancelOrderParams = z.object({
+  order_id: z.string().min(1)
+});
+
+const GetOrdersParams = z.object({
+  status: z.enum(['open', 'filled', 'cancelled', 'rejected']).optional(),
+  limit: z.number().int().positive().max(1000).default(100)
+});
+
+const EmergencyStopParams = z.object({
+  reason: z.string().min(1)
+});
+
+const ResumeTradingParams = z.object({});
+
+// Connect to hub, load open positions and expose methods
+mcpClient.connect().then(async () => {
+  await broker.initialize();
+
+  // Execute a strategy allocation
+  mcpClient.exposeMethod('execute', async (params: z.infer<typeof ExecuteParams>, callback: Function) => {
+    try {
+      const result = await broker.executeStrategy(params);
+
+      await mcpClient.updateContext('trade_execution', result);
+
+      callback(null, result);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Invest a share of the portfolio in a strategy, split evenly over its symbols',
+    params: ExecuteParams
+  });
+
+  // Move the portfolio to target weights
+  mcpClient.exposeMethod('executeRebalance', async (params: z.infer<typeof ExecuteRebalanceParams>, callback: Function) => {
+    try {
+      const result = await broker.rebalance({
+        allocations: params.allocations,
+        execution_style: params.execution_style,
+        time_limit: params.time_limit,
+        tag: params.idempotency_key
+      });
+
+      callback(null, result);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Rebalance to target weights, with market orders (aggressive) or resting limit orders (patient)',
+    params: ExecuteRebalanceParams
+  });
+
+  // Withdraw the working orders of a rebalance
+  mcpClient.exposeMethod('cancelRebalance', async (params: z.infer<typeof CancelRebalanceParams>, callback: Function) => {
+    try {
+      callback(null, broker.cancelRebalance(params.rebalance_id || params.execution!.rebalance_id));
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Cancel the orders of a rebalance that have not filled yet',
+    params: CancelRebalanceParams
+  });
+
+  // Current positions
+  mcpClient.exposeMethod('get_positions', async (_params: z.infer<typeof GetPositionsParams>, callback: Function) => {
+    try {
+      callback(null, broker.portfolio());
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Current positions, cash and P&L of the paper portfolio',
+    params: GetPositionsParams
+  });
+
+  // Place a single order
+  mcpClient.exposeMethod('place_order', async (params: z.infer<typeof PlaceOrderParams>, callback: Function) => {
+    try {
+      callback(null, await broker.placeOrder(params));
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Place a market, limit or stop order',
+    params: PlaceOrderParams
+  });
+
+  // Cancel an open order
+  mcpClient.exposeMethod('cancel_order', async (params: z.infer<typeof CancelOrderParams>, callback: Function) => {
+    try {
+      const order = broker.cancelOrder(params.order_id);
+      if (!order) {
+        throw new Error(`No open order ${params.order_id}`);
+      }
+
+      callback(null, order);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Cancel an open order',
+    params: CancelOrderParams
+  });
+
+  // List orders
+  mcpClient.exposeMethod('get_orders', async (params: z.infer<typeof GetOrdersParams>, callback: Function) => {
+    try {
+      const orders = broker.book.list(params.status).slice(0, params.limit);
+
+      callback(null, {
+        order_count: orders.length,
+        orders
+      });
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'List orders, open first, then the most recently closed',
+    params: GetOrdersParams
+  });
+
+  // Halt trading
+  mcpClient.exposeMethod('emergency_stop', async (params: z.infer<typeof EmergencyStopParams>, callback: Function) => {
+    try {
+      const result = broker.emergencyStop(params.reason);
+
+      await mcpClient.streamData('trading:halted', result);
+
+      callback(null, result);
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Cancel every open order and refuse new ones until trading is resumed',
+    params: EmergencyStopParams
+  });
+
+  // Resume trading after an emergency stop
+  mcpClient.exposeMethod('resume_trading', async (_params: z.infer<typeof ResumeTradingParams>, callback: Function) => {
+    try {
+      broker.resume();
+      callback(null, { halted: false, timestamp: new Date() });
+    } catch (error) {
+      callback(error);
+    }
+  }, {
+    description: 'Accept orders again after an emergency stop',
+    params: ResumeTradingParams
+  });
+
+  mcpClient.exposeMethod('health', async (_params: any, callback: Function) => {
+    callback(null, {
+      status: broker.haltReason ? 'degraded' : 'healthy',
+      uptime: process.uptime(),
+      mode: 'paper',
+      halted: broker.haltReason,
+      open_orders: broker.book.list('open').length
+    });
+  });
+});
+
+// New prices fill resting orders and revalue the portfolio
+mcpClient.on('update', async (update: any) => {
+  if (update.type !== 'context_update' || update.context_type !== 'market_data') return;
+
+  try {
+    const marketData = await mcpClient.getContext('market_data');
+    await broker.updatePrices(marketData?.data?.prices || {});
+  } catch (error) {
+    console.error('Failed to apply market data update:', error);
+  }
+});
+
+// Handle hub requests
+app.post('/api/:method', createMCPHandler(mcpClient));
+
+const port = process.env.PORT || 3003;
+const host = '0.0.0.0';
+app.listen(port, host, () => {
+  console.log(`Service running on ${host}:${port}`);
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PaperBroker } from '../utils/paper-broker';
+import { PositionTracker } from '../utils/position-tracker';
+import { ExecutionLog } from '../utils/execution-log';
+import { OrderBook } from '../utils/order-book';
+import { IdempotencyError } from '../../shared/utils/error-handling';
+
+// Answers the statements PositionTracker and ExecutionLog make, from memory
+function createDatabase() {
+  const executions = new Map<string, { method: string; status: string; result: any }>();
+  let trades = 0;
+
+  const query = async (sql: string, params: any[] = []): Promise<any> => {
+    if (sql.startsWith('INSERT INTO executions')) {
+      if (executions.has(params[0])) return { rowCount: 0, rows: [] };
+      executions.set(params[0], { method: params[1], status: 'pending', result: null });
+      return { rowCount: 1, rows: [] };
+    }
+    if (sql.startsWith('SELECT method, status, result FROM executions')) {
+      return { rows: [executions.get(params[0])].filter(Boolean) };
+    }
+    if (sql.startsWith('UPDATE executions')) {
+      executions.set(params[0], { ...executions.get(params[0])!, status: 'completed', result: JSON.parse(params[1]) });
+      return { rowCount: 1, rows: [] };
+    }
+    if (sql.startsWith('DELETE FROM executions')) {
+      executions.delete(params[0]);
+      return { rowCount: 1, rows: [] };
+    }
+    if (sql.startsWith('INSERT INTO trades')) {
+      return { rows: [{ id: `trade_${++trades}` }] };
+    }
+    if (sql.includes('COALESCE(SUM(pnl), 0)')) {
+      return { rows: [{ pnl: 0 }] };
+    }
+    return { rows: [] };
+  };
+
+  return {
+    executions,
+    query,
+    connect: async () => ({ query, release: () => {} })
+  };
+}
+
+describe('Paper Broker', () => {
+  const mcpClient = {
+    getContext: async () => ({ data: { prices: { BTC: 50000, ETH: 2500 } } }),
+    updateContext: async () => {},
+    streamData: async () => {}
+  };
+  let db: ReturnType<typeof createDatabase>;
+  let broker: PaperBroker;
+
+  beforeEach(async () => {
+    db = createDatabase();
+    broker = new PaperBroker(
+      mcpClient,
+      new OrderBook(),
+      new PositionTracker(db as any, 100000),
+      new ExecutionLog(db as any)
+    );
+    await broker.initialize();
+  });
+
+  it('should replay an execution retried with the same idempotency key', async () => {
+    const params = { strategy_id: 'momentum_1', allocation: 0.2, symbols: ['BTC', 'ETH'], idempotency_key: 'exec-1' };
+
+    const first = await broker.executeStrategy(params);
+    const cash = broker.positions.cash;
+    const replayed = await broker.executeStrategy(params);
+
+    expect(replayed).toEqual(JSON.parse(JSON.stringify(first)));
+    expect(broker.book.list('filled')).toHaveLength(2);
+    expect(broker.positions.cash).toBe(cash);
+    expect(db.executions.get('exec-1')?.status).toBe('completed');
+  });
+
+  it('should place a rebalance once per tag', async () => {
+    const request = { allocations: { BTC: 0.3 }, execution_style: 'aggressive' as const, time_limit: '4h', tag: 'rebalance-1' };
+
+    const first = await broker.rebalance(request);
+    const replayed = await broker.rebalance(request);
+
+    expect(first.rebalance_id).toBe('rebalance-1');
+    expect(replayed.orders.map(order => order.id)).toEqual(first.orders.map(order => order.id));
+    expect(broker.book.list().filter(order => order.tag === 'rebalance-1')).toHaveLength(1);
+  });
+
+  it('should refuse a key that is in use or belongs to another method', async () => {
+    db.executions.set('exec-2', { method: 'execute', status: 'pending', result: null });
+    await expect(broker.executeStrategy({ strategy_id: 'momentum_1', allocation: 0.1, symbols: ['BTC'], idempotency_key: 'exec-2' }))
+      .rejects.toThrow(IdempotencyError);
+
+    await broker.executeStrategy({ strategy_id: 'momentum_1', allocation: 0.1, symbols: ['BTC'], idempotency_key: 'exec-3' });
+    await expect(broker.rebalance({ allocations: {}, execution_style: 'patient', time_limit: '1h', tag: 'exec-3' }))
+      .rejects.toThrow('already used for execute');
+    expect(broker.book.list()).toHaveLength(1);
+  });
+
+  it('should keep cash for open buys, fees and slippage', async () => {
+    // Exactly the cash at the market price, but not once slippage and fees are paid
+    await expect(broker.placeOrder({ symbol: 'BTC', side: 'buy', type: 'market', quantity: 2 }))
+      .rejects.toThrow('Insufficient cash');
+
+    await broker.placeOrder({ symbol: 'BTC', side: 'buy', type: 'limit', quantity: 1, limit_price: 40000 });
+    await expect(broker.placeOrder({ symbol: 'ETH', side: 'buy', type: 'market', quantity: 24 }))
+      .rejects.toThrow('Insufficient cash');
+
+    expect((await broker.placeOrder({ symbol: 'ETH', side: 'buy', type: 'market', quantity: 23 })).status).toBe('filled');
+  });
+
+  it('should free the key of an execution that was refused', async () => {
+    broker.emergencyStop('test');
+    const params = { strategy_id: 'momentum_1', allocation: 0.1, symbols: ['BTC'], idempotency_key: 'exec-4' };
+
+    await expect(broker.executeStrategy(params)).rejects.toThrow('Trading is halted');
+    expect(db.executions.has('exec-4')).toBe(false);
+
+    broker.resume();
+    expect((await broker.executeStrategy(params)).orders[0].status).toBe('filled');
+  });
+});
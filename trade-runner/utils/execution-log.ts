@@ -0,0 +1,74 @@
+import { Pool } from 'pg';
+import { IdempotencyError } from '../../shared/utils/error-handling';
+
+/**
+ * Results of calls made with an idempotency key, kept in the `executions`
+ * table so a retried call gets the first result back instead of placing its
+ * orders again, also after a restart. A call that throws leaves its key free
+ * to retry; one cut off mid-call keeps it claimed, because its orders may
+ * already be on the book.
+ */
+export class ExecutionLog {
+  constructor(private db: Pool = new Pool({ connectionString: process.env.DATABASE_URL })) {}
+
+  async once<T>(key: string, method: string, execute: () => Promise<T>): Promise<T> {
+    const client = await this.db.connect();
+    let existing: { method: string; status: string; result: any } | undefined;
+
+    // Look up and claim the key together, so two calls with it can't both go ahead
+    try {
+      await client.query('BEGIN');
+
+      const claimed = await client.query(
+        `INSERT INTO executions (idempotency_key, method, status) VALUES ($1, $2, 'pending')
+         ON CONFLICT (idempotency_key) DO NOTHING`,
+        [key, method]
+      );
+      if (!claimed.rowCount) {
+        const found = await client.query(
+          `SELECT method, status, result FROM executions WHERE idempotency_key = $1 FOR UPDATE`,
+          [key]
+        );
+        existing = found.rows[0];
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (existing) {
+      if (existing.method !== method) {
+        throw new IdempotencyError(`Idempotency key ${key} was already used for ${existing.method}`, key, 'mismatch');
+      }
+
+      if (existing.status !== 'completed') {
+        throw new IdempotencyError(
+          `${method} with idempotency key ${key} is still running or was interrupted; check get_orders before retrying`,
+          key,
+          'in_progress'
+        );
+      }
+
+      return existing.result;
+    }
+
+    let result: T;
+    try {
+      result = await execute();
+    } catch (error) {
+      await this.db.query(`DELETE FROM executions WHERE idempotency_key = $1 AND status = 'pending'`, [key]);
+      throw error;
+    }
+
+    await this.db.query(
+      `UPDATE executions SET status = 'completed', result = $2, updated_at = NOW() WHERE idempotency_key = $1`,
+      [key, JSON.stringify(result)]
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,62 @@
+import { Order, OrderRequest } from './order-book';
+
+export interface FillModelConfig {
+  // Price impact on market and triggered stop orders
+  slippageBps: number;
+  // Fees on orders that take liquidity (market, stop) and that rest on the book (limit)
+  takerFeeBps: number;
+  makerFeeBps: number;
+}
+
+export interface Fill {
+  price: number;
+  // Cost of slippage against the market price, in quote currency
+  slippage: number;
+  fees: number;
+}
+
+const DEFAULT_CONFIG: FillModelConfig = {
+  slippageBps: Number(process.env.PAPER_SLIPPAGE_BPS || 5),
+  takerFeeBps: Number(process.env.PAPER_TAKER_FEE_BPS || 10),
+  makerFeeBps: Number(process.env.PAPER_MAKER_FEE_BPS || 5)
+};
+
+// Prices paper fills: takers pay slippage against the market, limit orders fill at their limit or better
+export class FillModel {
+  private config: FillModelConfig;
+
+  constructor(config: Partial<FillModelConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  fill(order: Order, marketPrice: number): Fill {
+    const buy = order.side === 'buy';
+    let price: number;
+    let feeBps: number;
+
+    if (order.type === 'limit') {
+      price = buy ? Math.min(order.limit_price!, marketPrice) : Math.max(order.limit_price!, marketPrice);
+      feeBps = this.config.makerFeeBps;
+    } else {
+      const slippageBps = buy ? this.config.slippageBps : -this.config.slippageBps;
+      price = marketPrice * (10000 + slippageBps) / 10000;
+      feeBps = this.config.takerFeeBps;
+    }
+
+    return {
+      price,
+      slippage: Math.max(buy ? price - marketPrice : marketPrice - price, 0) * order.quantity,
+      fees: price * order.quantity * feeBps / 10000
+    };
+  }
+
+  // Most cash a buy can take, fees included; market and stop orders are priced at `marketPrice`
+  maxCost(order: OrderRequest, marketPrice: number): number {
+    if (order.type === 'limit') {
+      return order.limit_price! * order.quantity * (10000 + this.config.makerFeeBps) / 10000;
+    }
+
+    const price = marketPrice * (10000 + this.config.slippageBps) / 10000;
+    return price * order.quantity * (10000 + this.config.takerFeeBps) / 10000;
+  }
+}
@@ -0,0 +1,160 @@
+import { Fill, FillModel } from './fill-model';
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit' | 'stop';
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+export interface OrderRequest {
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  // Required for limit orders
+  limit_price?: number;
+  // Required for stop orders; the order becomes a market order once the price crosses it
+  stop_price?: number;
+  strategy_id?: string;
+  // Groups orders, e.g. of one rebalance, so they can be cancelled together
+  tag?: string;
+  expires_at?: Date;
+}
+
+export interface Order extends OrderRequest {
+  id: string;
+  status: OrderStatus;
+  created_at: Date;
+  filled_at?: Date;
+  fill_price?: number;
+  fees?: number;
+  slippage?: number;
+  // Why the order was cancelled or rejected
+  reason?: string;
+}
+
+export interface Execution {
+  order: Order;
+  fill: Fill;
+}
+
+// Closed orders kept for get_orders; older ones are dropped
+const MAX_CLOSED_ORDERS = 1000;
+
+/**
+ * Open orders of the paper exchange. Orders don't fill on their own: match()
+ * is called with each new market price and returns the orders it filled,
+ * which are removed from the book.
+ */
+export class OrderBook {
+  private open: Map<string, Order> = new Map();
+  private closed: Order[] = [];
+
+  constructor(private fills: FillModel = new FillModel()) {}
+
+  submit(request: OrderRequest): Order {
+    const order: Order = {
+      ...request,
+      id: `order_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+      status: 'open',
+      created_at: new Date()
+    };
+
+    this.open.set(order.id, order);
+    return order;
+  }
+
+  get(id: string): Order | undefined {
+    return this.open.get(id) || this.closed.find(order => order.id === id);
+  }
+
+  list(status?: OrderStatus): Order[] {
+    const orders = [...this.open.values(), ...this.closed];
+    return status ? orders.filter(order => order.status === status) : orders;
+  }
+
+  // Quantity already promised by open sell orders, so it isn't sold twice
+  reservedQuantity(symbol: string): number {
+    return Array.from(this.open.values())
+      .filter(order => order.symbol === symbol && order.side === 'sell')
+      .reduce((sum, order) => sum + order.quantity, 0);
+  }
+
+  // Cash already promised to open buy orders, so it isn't spent twice
+  reservedCash(): number {
+    return Array.from(this.open.values())
+      .filter(order => order.side === 'buy')
+      .reduce((sum, order) => sum + this.maxCost(order, order.stop_price || 0), 0);
+  }
+
+  maxCost(request: OrderRequest, marketPrice: number): number {
+    return this.fills.maxCost(request, marketPrice);
+  }
+
+  cancel(id: string, reason?: string): Order | undefined {
+    const order = this.open.get(id);
+    if (order) {
+      this.close(order, 'cancelled', reason);
+    }
+    return order;
+  }
+
+  cancelWhere(predicate: (order: Order) => boolean, reason: string): Order[] {
+    const cancelled = Array.from(this.open.values()).filter(predicate);
+    cancelled.forEach(order => this.close(order, 'cancelled', reason));
+    return cancelled;
+  }
+
+  reject(order: Order, reason: string) {
+    this.close(order, 'rejected', reason);
+  }
+
+  // Fills every open order on `symbol` that the price reaches, in submission order
+  match(symbol: string, marketPrice: number, now = new Date()): Execution[] {
+    const executions: Execution[] = [];
+
+    for (const order of Array.from(this.open.values())) {
+      if (order.symbol !== symbol) continue;
+
+      if (order.expires_at && order.expires_at <= now) {
+        this.close(order, 'cancelled', 'expired');
+        continue;
+      }
+
+      if (!this.triggers(order, marketPrice)) continue;
+
+      const fill = this.fills.fill(order, marketPrice);
+      order.fill_price = fill.price;
+      order.fees = fill.fees;
+      order.slippage = fill.slippage;
+      order.filled_at = now;
+      this.close(order, 'filled');
+
+      executions.push({ order, fill });
+    }
+
+    return executions;
+  }
+
+  private triggers(order: Order, price: number): boolean {
+    const buy = order.side === 'buy';
+
+    switch (order.type) {
+      case 'market':
+        return true;
+      case 'limit':
+        return buy ? price <= order.limit_price! : price >= order.limit_price!;
+      case 'stop':
+        return buy ? price >= order.stop_price! : price <= order.stop_price!;
+    }
+  }
+
+  private close(order: Order, status: OrderStatus, reason?: string) {
+    order.status = status;
+    order.reason = reason;
+    this.open.delete(order.id);
+
+    this.closed.unshift(order);
+    if (this.closed.length > MAX_CLOSED_ORDERS) {
+      this.closed.pop();
+    }
+  }
+}
@@ -0,0 +1,352 @@
+import { Execution, Order, OrderBook, OrderRequest } from './order-book';
+import { PositionTracker } from './position-tracker';
+import { ExecutionLog } from './execution-log';
+
+export interface StrategyExecution {
+  strategy_id: string;
+  allocation: number;
+  symbols: string[];
+  risk_params?: { stop_loss_pct?: number; [key: string]: any };
+  // A retry with the same key returns the first execution instead of buying again
+  idempotency_key?: string;
+}
+
+export interface RebalanceRequest {
+  // Target weight of total portfolio value per symbol; symbols left out are sold
+  allocations: Record<string, number>;
+  execution_style: 'patient' | 'aggressive';
+  time_limit: string;
+  // Tags the orders and makes the rebalance idempotent: a retry with the same tag
+  // returns the first rebalance instead of placing its orders again
+  tag?: string;
+}
+
+// Orders smaller than this are not worth placing
+const MIN_ORDER_VALUE = 1;
+
+/**
+ * Paper exchange: orders go on the OrderBook and fill against the latest
+ * `market_data` prices; fills update the PositionTracker, are published to
+ * `trades:executed` and refresh the `portfolio` context.
+ */
+export class PaperBroker {
+  private prices: Record<string, number> = {};
+  private halted: string | null = null;
+
+  constructor(
+    private mcpClient: any,
+    readonly book: OrderBook = new OrderBook(),
+    readonly positions: PositionTracker = new PositionTracker(),
+    private executions: ExecutionLog = new ExecutionLog()
+  ) {}
+
+  async initialize() {
+    await this.positions.load();
+
+    const marketData = await this.mcpClient.getContext('market_data');
+    this.prices = { ...(marketData?.data?.prices || {}) };
+
+    await this.publishPortfolio();
+  }
+
+  get haltReason(): string | null {
+    return this.halted;
+  }
+
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    if (this.halted) {
+      throw new Error(`Trading is halted: ${this.halted}`);
+    }
+
+    this.validate(request);
+
+    const order = this.book.submit(request);
+    const price = this.prices[order.symbol];
+
+    // Market orders need a price right away; the rest wait on the book
+    if (order.type === 'market' && !price) {
+      this.book.reject(order, `No market price for ${order.symbol}`);
+      return order;
+    }
+
+    if (price) {
+      await this.settle(this.book.match(order.symbol, price));
+    }
+
+    return order;
+  }
+
+  cancelOrder(id: string): Order | undefined {
+    return this.book.cancel(id);
+  }
+
+  // Called with each market_data update
+  async updatePrices(prices: Record<string, number>) {
+    this.prices = { ...this.prices, ...prices };
+
+    for (const [symbol, price] of Object.entries(prices)) {
+      await this.settle(this.book.match(symbol, price));
+    }
+
+    await this.publishPortfolio();
+  }
+
+  // Spreads `allocation` of portfolio value evenly over the symbols as market buys,
+  // with protective stops when the risk params ask for them
+  async executeStrategy(params: StrategyExecution) {
+    if (!params.idempotency_key) {
+      return await this.placeStrategyOrders(params);
+    }
+
+    return await this.executions.once(params.idempotency_key, 'execute', () => this.placeStrategyOrders(params));
+  }
+
+  private async placeStrategyOrders(params: StrategyExecution) {
+    // Refused before any order goes out, so a failed call never leaves part of one behind
+    if (this.halted) {
+      throw new Error(`Trading is halted: ${this.halted}`);
+    }
+
+    const { total_value } = this.portfolio();
+    const budget = total_value * params.allocation / params.symbols.length;
+    const orders: Order[] = [];
+
+    for (const symbol of params.symbols) {
+      const price = this.prices[symbol];
+      if (!price) {
+        orders.push(this.rejected({ symbol, side: 'buy', strategy_id: params.strategy_id }, `No market price for ${symbol}`));
+        continue;
+      }
+
+      const entry = await this.placeOrRecord({
+        symbol,
+        side: 'buy',
+        type: 'market',
+        quantity: budget / price,
+        strategy_id: params.strategy_id
+      });
+      orders.push(entry);
+
+      const stopLoss = params.risk_params?.stop_loss_pct;
+      if (entry.status === 'filled' && stopLoss) {
+        orders.push(await this.placeOrRecord({
+          symbol,
+          side: 'sell',
+          type: 'stop',
+          quantity: entry.quantity,
+          stop_price: entry.fill_price! * (1 - stopLoss / 100),
+          strategy_id: params.strategy_id
+        }));
+      }
+    }
+
+    return {
+      strategy_id: params.strategy_id,
+      allocation: params.allocation,
+      orders,
+      portfolio: this.portfolio(),
+      timestamp: new Date()
+    };
+  }
+
+  // Sells before buys so the proceeds fund the purchases. Aggressive rebalances
+  // cross the market; patient ones rest as limit orders at the current price
+  // until `time_limit`, and are cancelled if the market doesn't come back.
+  async rebalance(request: RebalanceRequest) {
+    if (!request.tag) {
+      return await this.placeRebalanceOrders(request, `rebalance_${Date.now()}`);
+    }
+
+    return await this.executions.once(request.tag, 'executeRebalance', () => this.placeRebalanceOrders(request, request.tag!));
+  }
+
+  private async placeRebalanceOrders(request: RebalanceRequest, tag: string) {
+    const portfolio = this.portfolio();
+    const expiresAt = new Date(Date.now() + parseDuration(request.time_limit));
+    const held: Record<string, number> = {};
+
+    for (const position of this.positions.positions(this.prices)) {
+      held[position.symbol] = position.value;
+    }
+
+    const targets = Array.from(new Set([...Object.keys(held), ...Object.keys(request.allocations)]))
+      .map(symbol => ({
+        symbol,
+        delta: (request.allocations[symbol] || 0) * portfolio.total_value - (held[symbol] || 0)
+      }))
+      .filter(({ delta }) => Math.abs(delta) >= MIN_ORDER_VALUE)
+      .sort((a, b) => a.delta - b.delta);
+
+    const orders: Order[] = [];
+
+    for (const { symbol, delta } of targets) {
+      const side = delta > 0 ? 'buy' : 'sell';
+      const price = this.prices[symbol];
+      if (!price) {
+        orders.push(this.rejected({ symbol, side, tag }, `No market price for ${symbol}`));
+        continue;
+      }
+
+      const quantity = side === 'sell'
+        ? Math.min(-delta / price, this.positions.quantity(symbol) - this.book.reservedQuantity(symbol))
+        : delta / price;
+
+      const order: OrderRequest = request.execution_style === 'aggressive'
+        ? { symbol, side, type: 'market', quantity, tag }
+        : { symbol, side, type: 'limit', quantity, limit_price: price, tag, expires_at: expiresAt };
+
+      orders.push(await this.placeOrRecord(order));
+    }
+
+    return {
+      rebalance_id: tag,
+      execution_style: request.execution_style,
+      orders,
+      filled: orders.filter(order => order.status === 'filled').length,
+      working: orders.filter(order => order.status === 'open').length,
+      portfolio: this.portfolio(),
+      timestamp: new Date()
+    };
+  }
+
+  // Filled orders stay filled; only what is still working is withdrawn
+  cancelRebalance(tag: string) {
+    const cancelled = this.book.cancelWhere(order => order.tag === tag, 'rebalance cancelled');
+    return { rebalance_id: tag, cancelled: cancelled.map(order => order.id) };
+  }
+
+  emergencyStop(reason: string) {
+    this.halted = reason;
+    const cancelled = this.book.cancelWhere(() => true, `emergency stop: ${reason}`);
+
+    return {
+      halted: true,
+      reason,
+      orders_cancelled: cancelled.length,
+      timestamp: new Date()
+    };
+  }
+
+  resume() {
+    this.halted = null;
+  }
+
+  portfolio() {
+    const positions = this.positions.positions(this.prices);
+    const cash = this.positions.cash;
+    const totalValue = cash + positions.reduce((sum, position) => sum + position.value, 0);
+
+    return {
+      positions: Object.fromEntries(positions.map(position => [position.symbol, {
+        ...position,
+        percentage: totalValue > 0 ? position.value / totalValue * 100 : 0
+      }])),
+      cash,
+      total_value: Math.max(totalValue, 0),
+      realized_pnl: this.positions.realized,
+      unrealized_pnl: positions.reduce((sum, position) => sum + position.unrealized_pnl, 0),
+      last_updated: new Date().toISOString()
+    };
+  }
+
+  private validate(request: OrderRequest) {
+    if (!(request.quantity > 0)) {
+      throw new Error('Order quantity must be positive');
+    }
+
+    if (request.type === 'limit' && !request.limit_price) {
+      throw new Error('Limit orders need a limit_price');
+    }
+
+    if (request.type === 'stop' && !request.stop_price) {
+      throw new Error('Stop orders need a stop_price');
+    }
+
+    if (request.side === 'sell') {
+      const available = this.positions.quantity(request.symbol) - this.book.reservedQuantity(request.symbol);
+      if (request.quantity > available + 1e-9) {
+        throw new Error(`Cannot sell ${request.quantity} ${request.symbol}: ${available} available`);
+      }
+    }
+
+    if (request.side === 'buy') {
+      const cost = this.book.maxCost(request, request.stop_price || this.prices[request.symbol] || 0);
+      const available = this.positions.cash - this.book.reservedCash();
+      if (cost > available + 1e-9) {
+        throw new Error(`Insufficient cash for ${request.quantity} ${request.symbol}: ${cost} needed, ${available} available`);
+      }
+    }
+  }
+
+  private async settle(executions: Execution[]) {
+    for (const execution of executions) {
+      const { order, fill } = execution;
+      let tradeIds: string[];
+
+      try {
+        tradeIds = await this.positions.apply(execution);
+      } catch (error) {
+        // e.g. a stop whose position was sold in the meantime
+        order.status = 'rejected';
+        order.reason = (error as Error).message;
+        continue;
+      }
+
+      await this.mcpClient.streamData('trades:executed', {
+        order_id: order.id,
+        trade_ids: tradeIds,
+        strategy_id: order.strategy_id,
+        symbol: order.symbol,
+        side: order.side,
+        type: order.type,
+        quantity: order.quantity,
+        price: fill.price,
+        fees: fill.fees,
+        slippage: fill.slippage,
+        tag: order.tag,
+        paper: true,
+        timestamp: order.filled_at
+      });
+    }
+
+    if (executions.length > 0) {
+      await this.publishPortfolio();
+    }
+  }
+
+  private async publishPortfolio() {
+    try {
+      await this.mcpClient.updateContext('portfolio', this.portfolio());
+    } catch (error) {
+      console.error('Failed to update portfolio context:', error);
+    }
+  }
+
+  // Orders of a batch that can't go out are recorded as rejected rather than
+  // abandoning the orders already placed
+  private async placeOrRecord(request: OrderRequest): Promise<Order> {
+    try {
+      return await this.placeOrder(request);
+    } catch (error) {
+      return this.rejected(request, (error as Error).message);
+    }
+  }
+
+  // Recorded on the book, so get_orders shows why an order never went out
+  private rejected(request: Partial<OrderRequest> & Pick<OrderRequest, 'symbol' | 'side'>, reason: string): Order {
+    const order = this.book.submit({ type: 'market', quantity: 0, ...request });
+    this.book.reject(order, reason);
+    return order;
+  }
+}
+
+// '30m', '4h', '1d'; plain numbers are milliseconds
+function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+  return Number(match[1]) * units[match[2] || 'ms'];
+}
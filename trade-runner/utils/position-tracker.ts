@@ -0,0 +1,220 @@
+import { Pool } from 'pg';
+import { Execution } from './order-book';
+
+// An open lot: one row of the trades table with status 'open'
+export interface Lot {
+  id: string;
+  strategy_id: string | null;
+  symbol: string;
+  entry_price: number;
+  quantity: number;
+  entry_time: Date;
+  fees: number;
+  slippage: number;
+}
+
+export interface Position {
+  symbol: string;
+  quantity: number;
+  avg_price: number;
+  cost: number;
+  market_price?: number;
+  value: number;
+  unrealized_pnl: number;
+}
+
+// trades.strategy_id references strategies(id); ids from elsewhere are kept out of the column
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Long-only positions kept as lots in the `trades` table. A buy opens a lot;
+ * a sell closes lots first in, first out, splitting the last one when it is
+ * only partly sold. Cash is derived from the starting balance and the trades,
+ * so a restart picks up exactly where the table left off.
+ */
+export class PositionTracker {
+  private lots: Lot[] = [];
+  private realizedPnl = 0;
+
+  constructor(
+    private db: Pool = new Pool({ connectionString: process.env.DATABASE_URL }),
+    private startingCash = Number(process.env.PAPER_STARTING_CASH || 1000000)
+  ) {}
+
+  async load() {
+    const open = await this.db.query(
+      `SELECT id, strategy_id, symbol, entry_price, quantity, entry_time, fees, slippage
+       FROM trades WHERE status = 'open' ORDER BY entry_time, created_at`
+    );
+    const closed = await this.db.query(`SELECT COALESCE(SUM(pnl), 0) AS pnl FROM trades WHERE status = 'closed'`);
+
+    this.lots = open.rows.map(row => ({
+      id: row.id,
+      strategy_id: row.strategy_id,
+      symbol: row.symbol,
+      entry_price: Number(row.entry_price),
+      quantity: Number(row.quantity),
+      entry_time: new Date(row.entry_time),
+      fees: Number(row.fees),
+      slippage: Number(row.slippage)
+    }));
+    this.realizedPnl = Number(closed.rows[0].pnl);
+  }
+
+  quantity(symbol: string): number {
+    return this.lots
+      .filter(lot => lot.symbol === symbol)
+      .reduce((sum, lot) => sum + lot.quantity, 0);
+  }
+
+  // Opening costs the fill plus fees; closing returns the proceeds net of fees
+  get cash(): number {
+    const openCost = this.lots.reduce((sum, lot) => sum + lot.entry_price * lot.quantity + lot.fees, 0);
+    return this.startingCash + this.realizedPnl - openCost;
+  }
+
+  get realized(): number {
+    return this.realizedPnl;
+  }
+
+  // Returns the ids of the trades rows written
+  async apply({ order, fill }: Execution): Promise<string[]> {
+    return order.side === 'buy'
+      ? [await this.open(order.symbol, order.quantity, fill.price, fill.fees, fill.slippage, order.strategy_id, order.filled_at!)]
+      : await this.closeLots(order.symbol, order.quantity, fill.price, fill.fees, fill.slippage, order.filled_at!);
+  }
+
+  positions(prices: Record<string, number>): Position[] {
+    const bySymbol = new Map<string, Position>();
+
+    for (const lot of this.lots) {
+      const position = bySymbol.get(lot.symbol) || {
+        symbol: lot.symbol,
+        quantity: 0,
+        avg_price: 0,
+        cost: 0,
+        value: 0,
+        unrealized_pnl: 0
+      };
+
+      position.quantity += lot.quantity;
+      position.cost += lot.entry_price * lot.quantity;
+      bySymbol.set(lot.symbol, position);
+    }
+
+    return Array.from(bySymbol.values()).map(position => {
+      const marketPrice = prices[position.symbol];
+      // Without a price, positions are carried at cost
+      const value = marketPrice ? marketPrice * position.quantity : position.cost;
+
+      return {
+        ...position,
+        avg_price: position.cost / position.quantity,
+        market_price: marketPrice,
+        value,
+        unrealized_pnl: value - position.cost
+      };
+    });
+  }
+
+  private async open(
+    symbol: string,
+    quantity: number,
+    price: number,
+    fees: number,
+    slippage: number,
+    strategyId: string | undefined,
+    time: Date
+  ): Promise<string> {
+    const strategy = strategyId && UUID.test(strategyId) ? strategyId : null;
+    const result = await this.db.query(
+      `INSERT INTO trades (strategy_id, symbol, side, entry_price, quantity, entry_time, fees, slippage, status)
+       VALUES ($1, $2, 'buy', $3, $4, $5, $6, $7, 'open') RETURNING id`,
+      [strategy, symbol, price, quantity, time, fees, slippage]
+    );
+
+    const lot: Lot = {
+      id: result.rows[0].id,
+      strategy_id: strategy,
+      symbol,
+      entry_price: price,
+      quantity,
+      entry_time: time,
+      fees,
+      slippage
+    };
+    this.lots.push(lot);
+
+    return lot.id;
+  }
+
+  private async closeLots(
+    symbol: string,
+    quantity: number,
+    price: number,
+    fees: number,
+    slippage: number,
+    time: Date
+  ): Promise<string[]> {
+    if (quantity > this.quantity(symbol) + 1e-9) {
+      throw new Error(`Cannot sell ${quantity} ${symbol}: only ${this.quantity(symbol)} held`);
+    }
+
+    const client = await this.db.connect();
+    const closedIds: string[] = [];
+    let remaining = quantity;
+
+    try {
+      await client.query('BEGIN');
+
+      for (const lot of this.lots.filter(lot => lot.symbol === symbol)) {
+        if (remaining <= 1e-9) break;
+
+        const closing = Math.min(lot.quantity, remaining);
+        const share = closing / lot.quantity;
+        // The lot's entry costs and the sell's costs, in proportion to the quantity closed
+        const lotFees = lot.fees * share + fees * closing / quantity;
+        const lotSlippage = lot.slippage * share + slippage * closing / quantity;
+        const pnl = (price - lot.entry_price) * closing - lotFees;
+        const cost = lot.entry_price * closing;
+
+        if (closing < lot.quantity) {
+          // Split: the sold part becomes its own closed row, the rest stays open
+          const result = await client.query(
+            `INSERT INTO trades (strategy_id, symbol, side, entry_price, exit_price, quantity, entry_time, exit_time,
+               pnl, pnl_percentage, fees, slippage, status, exit_reason)
+             VALUES ($1, $2, 'buy', $3, $4, $5, $6, $7, $8, $9, $10, $11, 'closed', 'sell')
+             RETURNING id`,
+            [lot.strategy_id, symbol, lot.entry_price, price, closing, lot.entry_time, time, pnl, pnl / cost * 100, lotFees, lotSlippage]
+          );
+          await client.query(
+            `UPDATE trades SET quantity = $2, fees = $3, slippage = $4, updated_at = NOW() WHERE id = $1`,
+            [lot.id, lot.quantity - closing, lot.fees * (1 - share), lot.slippage * (1 - share)]
+          );
+          closedIds.push(result.rows[0].id);
+        } else {
+          await client.query(
+            `UPDATE trades SET exit_price = $2, exit_time = $3, pnl = $4, pnl_percentage = $5, fees = $6, slippage = $7,
+               status = 'closed', exit_reason = 'sell', updated_at = NOW()
+             WHERE id = $1`,
+            [lot.id, price, time, pnl, pnl / cost * 100, lotFees, lotSlippage]
+          );
+          closedIds.push(lot.id);
+        }
+
+        remaining -= closing;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Only touch the in-memory lots once the table has them
+    await this.load();
+    return closedIds;
+  }
+}